@@ -1,133 +1,1463 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, ebool, euint8, euint32, euint64, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /// @title LinkMatch - Encrypted Link Matching Game
 /// @notice A game where players match pairs and submit encrypted scores
 /// @dev All game scores are stored and processed in encrypted form using FHEVM
 contract LinkMatch is ZamaEthereumConfig {
+    // Number of difficulty levels (0 = easy, 1 = medium, 2 = hard)
+    uint8 public constant DIFFICULTY_COUNT = 3;
+
+    // Fixed-point scale of scores: score = matches * SCORE_SCALE / timeSeconds. The scoring
+    // constants and functions below are mirrored in frontend/game/scoring.ts, whose test
+    // fails when they change here.
+    uint32 public constant SCORE_SCALE = 1000;
+
+    // Seconds added to the scored time for each mismatched pair, so accuracy counts
+    // alongside speed
+    uint32 public constant MISMATCH_PENALTY_SECONDS = 1;
+
+    // Caps on the submitted time and mismatches; they keep the penalized time from overflowing
+    uint32 private constant MAX_GAME_SECONDS = 1 hours;
+    uint32 private constant MAX_MISMATCHES = 10000;
+
+    // Number of quotient bits computed by the encrypted division. Matches are clamped to
+    // the board's pair count (at most 32), so scores stay below 32 * SCORE_SCALE < 2^15.
+    uint8 private constant SCORE_BITS = 15;
+
+    // Challenge outcomes (decrypted value of Challenge.outcome)
+    uint8 public constant CHALLENGE_DRAW = 0;
+    uint8 public constant CHALLENGER_WON = 1;
+    uint8 public constant OPPONENT_WON = 2;
+
+    // Time after its creation during which a challenge can be played
+    uint256 public constant CHALLENGE_TIMEOUT = 7 days;
+
+    // Maximum number of challenges waiting for a player's answer (playing or declining);
+    // expired challenges keep their slot until the opponent declines them
+    uint256 public constant MAX_PENDING_CHALLENGES = 10;
+
+    // Number of badge tiers (see badgeThreshold)
+    uint8 public constant BADGE_TIER_COUNT = 3;
+
+    // Time after which an unused session can no longer be submitted
+    uint256 public constant SESSION_TIMEOUT = 1 hours;
+
+    // Number of score histogram boundaries (see histogramBoundary)
+    uint8 public constant HISTOGRAM_BOUNDARY_COUNT = 4;
+
+    // Minimum delay between two publications of the community statistics
+    uint256 public constant STATS_PUBLISH_INTERVAL = 1 days;
+
+    // Minimum number of submissions a publication must add to the previous snapshot
+    uint256 public constant MIN_STATS_BATCH = 5;
+
+    // Maximum number of friends a player can share scores with (bounds the ACL loop on submit)
+    uint256 public constant MAX_FRIENDS = 20;
+
+    // Maximum number of players sharing scores with one player (bounds getScoresSharedWith,
+    // which anyone could otherwise grow by sharing with the same address)
+    uint256 public constant MAX_SHARERS = 50;
+
     // Structure to store encrypted game result
     struct EncryptedGameResult {
-        euint32 score;         // Average matches per second (matches / timeSeconds) (encrypted)
+        euint32 score;         // Average matches per second (matches * SCORE_SCALE / timeSeconds) (encrypted)
+        euint32 matches;       // Number of matches of the best run (encrypted)
+        euint32 timeSeconds;   // Scored duration of the best run in seconds, penalties included (encrypted)
         address player;        // Player address
         uint256 timestamp;     // Submission timestamp
+        uint8 difficulty;      // Difficulty level the score was achieved on
+    }
+
+    // Structure to store one encrypted submission in a player's history
+    struct EncryptedRun {
+        euint32 score;         // Computed score (encrypted)
+        euint32 matches;       // Submitted number of matches (encrypted)
+        euint32 timeSeconds;   // Scored duration in seconds, penalties included (encrypted)
+        euint32 mismatches;    // Submitted number of mismatched pairs (encrypted)
+        uint8 difficulty;      // Difficulty level the run was played on
+        uint256 seasonId;      // Season the run was submitted in
+        uint256 timestamp;     // Submission timestamp
     }
 
-    // Mapping from player address to their encrypted game result
-    mapping(address => EncryptedGameResult) public playerResults;
-    
-    // Array to store all player addresses for ranking
-    address[] public players;
-    
-    // Mapping to check if player has submitted a result
-    mapping(address => bool) public hasSubmitted;
+    // Leaderboard of one difficulty within one season
+    struct Leaderboard {
+        address[] players;                               // Player addresses for ranking
+        mapping(address => EncryptedGameResult) results; // Best encrypted result per player
+        mapping(address => bool) hasSubmitted;           // Whether a player has submitted
+        mapping(address => euint32) ranks;               // Last computed encrypted rank (1 = best)
+        mapping(address => bool) hasRank;                // Whether a player has computed a rank
+        mapping(address => bool) revealed;               // Whether the best score was made public
+    }
+
+    // Game session: commits to the board seed before the game is played, and can be
+    // redeemed for exactly one submission
+    struct GameSession {
+        address player;
+        uint8 difficulty;
+        uint256 boardSeed;     // Seed the client must generate the board from
+        uint256 startedAt;     // Session start timestamp
+        bool used;             // Whether a result was submitted for this session
+        bytes32 moveLogHash;   // Hash of the submitted move log
+        bool daily;            // Whether this is a ranked attempt at the daily board
+        uint16 penaltySeconds; // Power-up penalty added to the submitted time
+        uint256 challengeId;   // Challenge id + 1 for a challenge game (0: not a challenge)
+    }
+
+    // Head-to-head duel: both players play the board generated from `boardSeed` in a session
+    // and submit encrypted scores; only the encrypted outcome is shared with both participants
+    struct Challenge {
+        address challenger;
+        address opponent;
+        uint8 difficulty;
+        uint256 boardSeed;
+        uint256 createdAt;
+        euint32 challengerScore;   // Only decryptable by the challenger
+        euint32 opponentScore;     // Only decryptable by the opponent
+        bool challengerStarted;    // Whether the challenger started their (only) session
+        bool opponentStarted;      // Whether the opponent started their (only) session
+        bool challengerSubmitted;
+        bool opponentSubmitted;
+        bool declined;             // Declined by the opponent before playing
+        euint8 outcome;            // CHALLENGE_DRAW, CHALLENGER_WON or OPPONENT_WON (encrypted)
+    }
+
+    // Snapshot of the community statistics made publicly decryptable by publishStats()
+    struct PublishedStats {
+        euint64 scoreSum;                                  // Sum of all submitted scores
+        euint32[HISTOGRAM_BOUNDARY_COUNT] scoresAtLeast;   // Submissions scoring >= each boundary
+        uint256 submissionCount;                           // Number of submissions in the snapshot
+        uint256 publishedAt;                               // Publication timestamp
+    }
+
+    // Season schedule: from `firstSeasonId` on, seasons of `length` seconds follow each
+    // other back to back starting at `start`. A length of 0 means a single open-ended season.
+    struct SeasonSchedule {
+        uint256 firstSeasonId;
+        uint256 start;
+        uint256 length;
+    }
+
+    // Contract owner (allowed to start seasons)
+    address public owner;
+
+    // Season schedules in chronological order; the last one is active
+    SeasonSchedule[] private seasonSchedules;
+
+    // Mapping from season id to difficulty to leaderboard
+    mapping(uint256 => mapping(uint8 => Leaderboard)) private leaderboards;
+
+    // Append-only list of every submission per player
+    mapping(address => EncryptedRun[]) private playerHistory;
+
+    // Mapping to check if a player opted in to publicly reveal their best scores
+    mapping(address => bool) public isScorePublic;
+
+    // Friends each player shares their best scores with, and the reverse lookup
+    mapping(address => address[]) private friendsOf;
+    mapping(address => address[]) private sharedWithMe;
+    mapping(address => mapping(address => bool)) public isSharedWith;
+
+    // Publicly decryptable "best score >= tier threshold" flags per player and difficulty
+    mapping(address => mapping(uint8 => ebool[BADGE_TIER_COUNT])) private badges;
+    mapping(address => mapping(uint8 => bool)) public hasBadges;
+
+    // Game sessions by id
+    mapping(uint256 => GameSession) private sessions;
+    uint256 public sessionCount;
+
+    // Encrypted community statistics over every seasonal and daily submission (challenges
+    // excluded, as they are private duels). The histogram is kept
+    // cumulative (submissions scoring at least each boundary); buckets are the differences.
+    euint64 private statsScoreSum;
+    euint32[HISTOGRAM_BOUNDARY_COUNT] private statsScoresAtLeast;
+    uint256 public statsSubmissionCount;
+    PublishedStats private publishedStats;
+
+    // Daily boards by UTC day index (block.timestamp / 1 days): owner commitments to seeds
+    // (keccak256 of the seed; 0: derived from the day), the seeds revealed once their day
+    // starts, and one leaderboard of encrypted scores per day
+    mapping(uint256 => bytes32) private dailySeedHashes;
+    mapping(uint256 => uint256) private revealedDailySeeds;
+    mapping(uint256 => address[]) private dailyPlayers;
+    mapping(uint256 => mapping(address => euint32)) private dailyScores;
+
+    // Day + 1 of each player's last daily attempt and last daily submission (0: never),
+    // and the number of consecutive days ending on the last submission
+    mapping(address => uint256) private lastDailyAttempt;
+    mapping(address => uint256) private lastDailySubmission;
+    mapping(address => uint256) private dailyStreaks;
+
+    // All challenges, and the ids of the challenges each player takes part in
+    Challenge[] private challenges;
+    mapping(address => uint256[]) private playerChallenges;
+
+    // Number of received challenges each player has neither played nor declined
+    mapping(address => uint256) private pendingChallenges;
 
     // Events
-    event GameResultSubmitted(address indexed player, uint256 timestamp);
+    event GameResultSubmitted(
+        address indexed player,
+        uint256 indexed seasonId,
+        uint8 indexed difficulty,
+        uint256 timestamp
+    );
     event LeaderboardUpdated(); // Emitted when leaderboard data changes
+    event RankComputed(address indexed player, uint8 indexed difficulty, uint256 timestamp);
+    event PublicScoreOptIn(address indexed player);
+    event PublicScoreOptOut(address indexed player);
+    event SeasonStarted(uint256 indexed seasonId, uint256 startTimestamp, uint256 endTimestamp);
+    event ScoreShared(address indexed player, address indexed friend);
+    event ScoreShareRevoked(address indexed player, address indexed friend);
+    event BadgesClaimed(address indexed player, uint8 indexed difficulty, uint256 seasonId);
+    event SessionStarted(uint256 indexed sessionId, address indexed player, uint8 difficulty, uint256 boardSeed);
+    event DailySeedCommitted(uint256 indexed day, bytes32 seedHash);
+    event DailySeedRevealed(uint256 indexed day, uint256 boardSeed);
+    event DailyResultSubmitted(address indexed player, uint256 indexed day, uint256 streak);
+    event StatsPublished(uint256 submissionCount, uint256 timestamp);
+    event ChallengeCreated(
+        uint256 indexed challengeId,
+        address indexed challenger,
+        address indexed opponent,
+        uint8 difficulty
+    );
+    event ChallengeDeclined(uint256 indexed challengeId);
+    event ChallengeScoreSubmitted(uint256 indexed challengeId, address indexed player);
+    event ChallengeResolved(uint256 indexed challengeId);
+
+    modifier validDifficulty(uint8 difficulty) {
+        _checkDifficulty(difficulty);
+        _;
+    }
+
+    modifier onlyOwner() {
+        _checkOwner();
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+
+        // Season 0 stays open until the owner starts the first timed season
+        seasonSchedules.push(SeasonSchedule({firstSeasonId: 0, start: block.timestamp, length: 0}));
+    }
+
+    /// @dev Modifier checks live in functions so their revert code is not inlined at every use
+    function _checkDifficulty(uint8 difficulty) private pure {
+        require(difficulty < DIFFICULTY_COUNT, "Invalid difficulty");
+    }
+
+    /// @dev See _checkDifficulty()
+    function _checkOwner() private view {
+        require(msg.sender == owner, "Only owner");
+    }
+
+    /// @notice Start a new season that ends at `endTimestamp`
+    /// @param endTimestamp End of the new season
+    /// @dev Ends the current season immediately. Once the new season is over, the next
+    ///      one starts automatically with the same length (leaderboards roll over).
+    function startSeason(uint256 endTimestamp) external onlyOwner {
+        require(endTimestamp > block.timestamp, "Season must end in the future");
 
-    /// @notice Submit encrypted game result (score = matches / timeSeconds)
-    /// @param encryptedScore Encrypted average matches per second (score)
-    /// @param scoreProof Proof for encrypted score
-    /// @dev Only keeps the highest score for each player (not the latest)
+        uint256 seasonId = currentSeasonId() + 1;
+        seasonSchedules.push(
+            SeasonSchedule({firstSeasonId: seasonId, start: block.timestamp, length: endTimestamp - block.timestamp})
+        );
+
+        emit SeasonStarted(seasonId, block.timestamp, endTimestamp);
+        emit LeaderboardUpdated();
+    }
+
+    /// @notice Get the id of the season currently accepting submissions
+    /// @return Current season id
+    function currentSeasonId() public view returns (uint256) {
+        SeasonSchedule storage schedule = seasonSchedules[seasonSchedules.length - 1];
+        if (schedule.length == 0) {
+            return schedule.firstSeasonId;
+        }
+        return schedule.firstSeasonId + (block.timestamp - schedule.start) / schedule.length;
+    }
+
+    /// @notice Get the start and end of a season
+    /// @param seasonId Season id (must not be in the future)
+    /// @return startTimestamp Season start
+    /// @return endTimestamp Season end (0 if the season is open-ended)
+    function getSeason(uint256 seasonId) external view returns (uint256 startTimestamp, uint256 endTimestamp) {
+        require(seasonId <= currentSeasonId(), "Season has not started");
+
+        // Find the schedule the season belongs to (schedules are few, newest first)
+        uint256 index = seasonSchedules.length - 1;
+        while (seasonSchedules[index].firstSeasonId > seasonId) {
+            index--;
+        }
+        SeasonSchedule storage schedule = seasonSchedules[index];
+
+        if (schedule.length == 0) {
+            startTimestamp = schedule.start;
+        } else {
+            startTimestamp = schedule.start + (seasonId - schedule.firstSeasonId) * schedule.length;
+            endTimestamp = startTimestamp + schedule.length;
+        }
+
+        // A season interrupted by startSeason() ends when the next schedule begins
+        if (index + 1 < seasonSchedules.length && seasonSchedules[index + 1].firstSeasonId == seasonId + 1) {
+            endTimestamp = seasonSchedules[index + 1].start;
+        }
+    }
+
+    /// @notice Start a game session and commit to its board seed
+    /// @dev Sessions are played under the Memory rule (any two equal tiles match); other
+    ///      modes are practice runs, so every leaderboard compares runs under one rule
+    /// @param difficulty Difficulty level of the game
+    /// @return sessionId Id to submit the result with
+    function startSession(uint8 difficulty) external validDifficulty(difficulty) returns (uint256 sessionId) {
+        sessionId = sessionCount;
+        uint256 boardSeed = uint256(keccak256(abi.encodePacked(block.prevrandao, msg.sender, sessionId)));
+        _startSession(difficulty, boardSeed, false);
+    }
+
+    /// @notice Start the caller's ranked attempt at today's daily board
+    /// @return sessionId Id to submit the result with
+    /// @dev One attempt per address and UTC day; starting it uses the attempt up
+    function startDailySession() external returns (uint256 sessionId) {
+        uint256 day = currentDay();
+        require(lastDailyAttempt[msg.sender] != day + 1, "Daily attempt already used");
+        lastDailyAttempt[msg.sender] = day + 1;
+
+        return _startSession(dailyDifficulty(day), dailySeed(day), true);
+    }
+
+    /// @dev Store a new session of the caller
+    function _startSession(uint8 difficulty, uint256 boardSeed, bool daily) private returns (uint256 sessionId) {
+        sessionId = sessionCount++;
+
+        sessions[sessionId] = GameSession({
+            player: msg.sender,
+            difficulty: difficulty,
+            boardSeed: boardSeed,
+            startedAt: block.timestamp,
+            used: false,
+            moveLogHash: bytes32(0),
+            daily: daily,
+            penaltySeconds: 0,
+            challengeId: 0
+        });
+
+        emit SessionStarted(sessionId, msg.sender, difficulty, boardSeed);
+    }
+
+    /// @notice Get a game session
+    /// @param sessionId Session id
+    /// @return player Address of the player who started the session
+    /// @return difficulty Difficulty level of the game
+    /// @return boardSeed Seed the board is generated from
+    /// @return startedAt Session start timestamp
+    /// @return used Whether a result was submitted for this session
+    /// @return moveLogHash Hash of the submitted move log
+    /// @return daily Whether the session is a daily attempt
+    /// @return penaltySeconds Power-up penalty submitted with the result
+    function getSession(uint256 sessionId)
+        external
+        view
+        returns (
+            address player,
+            uint8 difficulty,
+            uint256 boardSeed,
+            uint256 startedAt,
+            bool used,
+            bytes32 moveLogHash,
+            bool daily,
+            uint16 penaltySeconds
+        )
+    {
+        require(sessionId < sessionCount, "Session does not exist");
+        GameSession storage session = sessions[sessionId];
+        return (
+            session.player,
+            session.difficulty,
+            session.boardSeed,
+            session.startedAt,
+            session.used,
+            session.moveLogHash,
+            session.daily,
+            session.penaltySeconds
+        );
+    }
+
+    /// @notice Minimum plausible duration of a game (a quarter second per pair)
+    /// @param difficulty Difficulty level
+    /// @return Duration in seconds
+    function minGameDuration(uint8 difficulty) public pure returns (uint32) {
+        return _maxMatches(difficulty) / 4;
+    }
+
+    /// @notice Submit encrypted game result of a session to the current season
+    /// @param sessionId Session the game was played in
+    /// @param encryptedMatches Encrypted number of matches
+    /// @param encryptedTime Encrypted game duration in seconds
+    /// @param encryptedMismatches Encrypted number of mismatched pairs (same input as the time)
+    /// @param moveLogHash Hash of the game's move log
+    /// @param penaltySeconds Time penalty of the hints and reshuffles used, in seconds
+    /// @param matchesProof Proof for encrypted matches
+    /// @param timeProof Proof for encrypted time
+    /// @dev The score is derived on-chain as matches * SCORE_SCALE / timeSeconds, where the time
+    ///      is raised to minGameDuration() and then penalized by MISMATCH_PENALTY_SECONDS per
+    ///      mismatch and by the power-up penalty. The leaderboard
+    ///      keeps the highest score for each player and difficulty (not the latest); every run
+    ///      is also appended to the player's history. Each session can be submitted once, no
+    ///      sooner than minGameDuration() and no later than SESSION_TIMEOUT after it started.
+    ///      Daily sessions go to the leaderboard of the day they were started instead, and
+    ///      challenge sessions only to their challenge. Daily runs count in the community
+    ///      statistics but not in the history, which holds the runs of the season leaderboards.
+    ///      The power-up penalty is recorded with the session so audits can check it against
+    ///      the move log.
     function submitGameResult(
-        externalEuint32 encryptedScore,
-        bytes calldata scoreProof
+        uint256 sessionId,
+        externalEuint32 encryptedMatches,
+        externalEuint32 encryptedTime,
+        externalEuint32 encryptedMismatches,
+        bytes32 moveLogHash,
+        uint16 penaltySeconds,
+        bytes calldata matchesProof,
+        bytes calldata timeProof
     ) external {
-        // Convert external encrypted value to internal euint32
-        euint32 newScore = FHE.fromExternal(encryptedScore, scoreProof);
-
-        // Grant ACL permissions for the new encrypted value
-        FHE.allowThis(newScore);
-        FHE.allow(newScore, msg.sender);
-
-        // If first submission, add to players array
-        if (!hasSubmitted[msg.sender]) {
-            players.push(msg.sender);
-            hasSubmitted[msg.sender] = true;
-            
-            // Store the first score directly
-            playerResults[msg.sender] = EncryptedGameResult({
-                score: newScore,
-                player: msg.sender,
+        require(sessionId < sessionCount, "Session does not exist");
+        GameSession storage session = sessions[sessionId];
+        require(session.player == msg.sender, "Not your session");
+        require(!session.used, "Session already used");
+        require(block.timestamp <= session.startedAt + SESSION_TIMEOUT, "Session expired");
+
+        uint8 difficulty = session.difficulty;
+        require(block.timestamp >= session.startedAt + minGameDuration(difficulty), "Game finished too fast");
+
+        session.used = true;
+        session.moveLogHash = moveLogHash;
+        session.penaltySeconds = penaltySeconds;
+
+        // Convert external encrypted values to internal euint32
+        euint32 matches = FHE.fromExternal(encryptedMatches, matchesProof);
+        euint32 timeSeconds = FHE.fromExternal(encryptedTime, timeProof);
+        euint32 mismatches = FHE.min(FHE.fromExternal(encryptedMismatches, timeProof), MAX_MISMATCHES);
+
+        // A board cannot yield more matches than it has pairs, nor be cleared faster than plausible
+        matches = FHE.min(matches, _maxMatches(difficulty));
+        timeSeconds = FHE.min(FHE.max(timeSeconds, minGameDuration(difficulty)), MAX_GAME_SECONDS);
+        timeSeconds = FHE.add(
+            FHE.add(timeSeconds, FHE.mul(mismatches, MISMATCH_PENALTY_SECONDS)),
+            uint32(penaltySeconds)
+        );
+
+        euint32 score = _computeScore(matches, timeSeconds);
+
+        // Grant ACL permissions for the new encrypted values
+        FHE.allowThis(score);
+        FHE.allow(score, msg.sender);
+        FHE.allowThis(matches);
+        FHE.allow(matches, msg.sender);
+        FHE.allowThis(timeSeconds);
+        FHE.allow(timeSeconds, msg.sender);
+        FHE.allowThis(mismatches);
+        FHE.allow(mismatches, msg.sender);
+
+        if (session.challengeId != 0) {
+            _recordChallengeResult(session.challengeId - 1, score);
+        } else {
+            if (session.daily) {
+                _recordDailyResult(session.startedAt / 1 days, score);
+            } else {
+                _recordResult(difficulty, score, matches, timeSeconds, mismatches);
+            }
+            _recordStats(score);
+        }
+    }
+
+    /// @dev Add the caller's score to a day's leaderboard and extend their streak
+    function _recordDailyResult(uint256 day, euint32 score) private {
+        dailyPlayers[day].push(msg.sender);
+        dailyScores[day][msg.sender] = score;
+
+        // The streak continues when the previous submission was for the day before
+        uint256 streak = lastDailySubmission[msg.sender] == day ? dailyStreaks[msg.sender] + 1 : 1;
+        dailyStreaks[msg.sender] = streak;
+        lastDailySubmission[msg.sender] = day + 1;
+
+        if (isScorePublic[msg.sender]) {
+            FHE.makePubliclyDecryptable(score);
+        }
+
+        emit DailyResultSubmitted(msg.sender, day, streak);
+    }
+
+    /// @notice Current UTC day index
+    function currentDay() public view returns (uint256) {
+        return block.timestamp / 1 days;
+    }
+
+    /// @notice Board seed of a day that has started: revealed by the owner, or derived from the day
+    /// @param day UTC day index, up to today
+    /// @dev A committed day has no board until its seed is revealed. Derived seeds can be
+    ///      computed by anyone in advance; commit a seed for every day that must stay secret.
+    function dailySeed(uint256 day) public view returns (uint256) {
+        require(day <= currentDay(), "Daily board not started");
+        if (dailySeedHashes[day] == 0) {
+            return uint256(keccak256(abi.encodePacked("LinkMatch daily", day)));
+        }
+        uint256 revealed = revealedDailySeeds[day];
+        require(revealed != 0, "Daily seed not revealed");
+        return revealed;
+    }
+
+    /// @notice Difficulty of a day's board (rotates through the difficulties)
+    /// @param day UTC day index
+    function dailyDifficulty(uint256 day) public pure returns (uint8) {
+        return uint8(day % DIFFICULTY_COUNT);
+    }
+
+    /// @notice Commit to the board seed of a future day without disclosing it
+    /// @param day UTC day index, after today
+    /// @param seedHash keccak256(abi.encode(boardSeed)) of a non-zero seed
+    function commitDailySeed(uint256 day, bytes32 seedHash) external onlyOwner {
+        require(day > currentDay(), "Daily board already revealed");
+        require(seedHash != 0, "Invalid seed");
+        dailySeedHashes[day] = seedHash;
+        emit DailySeedCommitted(day, seedHash);
+    }
+
+    /// @notice Reveal the committed board seed of a day once it has started
+    /// @param day UTC day index, up to today
+    /// @param boardSeed Seed matching the day's commitment
+    function revealDailySeed(uint256 day, uint256 boardSeed) external onlyOwner {
+        require(day <= currentDay(), "Daily board not started");
+        require(boardSeed != 0 && keccak256(abi.encode(boardSeed)) == dailySeedHashes[day], "Invalid seed");
+        revealedDailySeeds[day] = boardSeed;
+        emit DailySeedRevealed(day, boardSeed);
+    }
+
+    /// @notice Whether a player has used today's daily attempt
+    /// @param player Player address
+    function hasPlayedDaily(address player) external view returns (bool) {
+        return lastDailyAttempt[player] == currentDay() + 1;
+    }
+
+    /// @notice Consecutive days a player has submitted a daily result, up to today or yesterday
+    /// @param player Player address
+    function getDailyStreak(address player) external view returns (uint256) {
+        uint256 last = lastDailySubmission[player];
+        // `last` is the day after the last submission, so the streak lasts until that day ends
+        return last != 0 && last >= currentDay() ? dailyStreaks[player] : 0;
+    }
+
+    /// @notice Get all encrypted scores of a day's leaderboard
+    /// @param day UTC day index
+    /// @return playerAddresses Array of player addresses
+    /// @return encryptedScores Array of encrypted scores
+    function getDailyEncryptedScores(uint256 day)
+        external
+        view
+        returns (address[] memory playerAddresses, euint32[] memory encryptedScores)
+    {
+        playerAddresses = dailyPlayers[day];
+        encryptedScores = new euint32[](playerAddresses.length);
+
+        for (uint256 i = 0; i < playerAddresses.length; i++) {
+            encryptedScores[i] = dailyScores[day][playerAddresses[i]];
+        }
+    }
+
+    /// @dev Append a run to the caller's history and keep the best run on the leaderboard
+    function _recordResult(
+        uint8 difficulty,
+        euint32 score,
+        euint32 matches,
+        euint32 timeSeconds,
+        euint32 mismatches
+    ) private {
+        uint256 seasonId = currentSeasonId();
+        Leaderboard storage board = leaderboards[seasonId][difficulty];
+
+        // Every run is kept in the player's history, not only the best one
+        playerHistory[msg.sender].push(
+            EncryptedRun({
+                score: score,
+                matches: matches,
+                timeSeconds: timeSeconds,
+                mismatches: mismatches,
+                difficulty: difficulty,
+                seasonId: seasonId,
                 timestamp: block.timestamp
+            })
+        );
+
+        // If first submission on this leaderboard, add to its players array
+        if (!board.hasSubmitted[msg.sender]) {
+            board.players.push(msg.sender);
+            board.hasSubmitted[msg.sender] = true;
+
+            // Store the first result directly
+            board.results[msg.sender] = EncryptedGameResult({
+                score: score,
+                matches: matches,
+                timeSeconds: timeSeconds,
+                player: msg.sender,
+                timestamp: block.timestamp,
+                difficulty: difficulty
             });
         } else {
-            // For subsequent submissions, keep only the highest score
-            euint32 currentScore = playerResults[msg.sender].score;
-            euint32 highestScore = FHE.max(newScore, currentScore);
-            
-            // Store the highest score (FHE.max automatically selects the maximum)
-            playerResults[msg.sender] = EncryptedGameResult({
-                score: highestScore,
+            // For subsequent submissions, keep only the run with the highest score
+            EncryptedGameResult storage current = board.results[msg.sender];
+            ebool isBetter = FHE.gt(score, current.score);
+
+            euint32 bestScore = FHE.select(isBetter, score, current.score);
+            euint32 bestMatches = FHE.select(isBetter, matches, current.matches);
+            euint32 bestTime = FHE.select(isBetter, timeSeconds, current.timeSeconds);
+
+            // Grant ACL permissions for the best result
+            FHE.allowThis(bestScore);
+            FHE.allow(bestScore, msg.sender);
+            FHE.allowThis(bestMatches);
+            FHE.allow(bestMatches, msg.sender);
+            FHE.allowThis(bestTime);
+            FHE.allow(bestTime, msg.sender);
+
+            board.results[msg.sender] = EncryptedGameResult({
+                score: bestScore,
+                matches: bestMatches,
+                timeSeconds: bestTime,
                 player: msg.sender,
-                timestamp: block.timestamp
+                timestamp: block.timestamp,
+                difficulty: difficulty
             });
-            
-            // Grant ACL permissions for the highest score result
-            FHE.allowThis(highestScore);
-            FHE.allow(highestScore, msg.sender);
         }
 
-        emit GameResultSubmitted(msg.sender, block.timestamp);
+        // Friends keep access to the new best score
+        address[] storage friends = friendsOf[msg.sender];
+        for (uint256 i = 0; i < friends.length; i++) {
+            FHE.allow(board.results[msg.sender].score, friends[i]);
+        }
+
+        // Keep the best score public for players who opted in
+        if (isScorePublic[msg.sender]) {
+            FHE.makePubliclyDecryptable(board.results[msg.sender].score);
+            board.revealed[msg.sender] = true;
+            emit LeaderboardUpdated();
+        }
+
+        emit GameResultSubmitted(msg.sender, seasonId, difficulty, block.timestamp);
+    }
+
+    /// @dev Add a run's score to the encrypted community statistics
+    function _recordStats(euint32 score) private {
+        statsScoreSum = FHE.add(statsScoreSum, FHE.asEuint64(score));
+        FHE.allowThis(statsScoreSum);
+
+        for (uint8 i = 0; i < HISTOGRAM_BOUNDARY_COUNT; i++) {
+            ebool reached = FHE.ge(score, histogramBoundary(i));
+            statsScoresAtLeast[i] = FHE.add(statsScoresAtLeast[i], FHE.asEuint32(reached));
+            FHE.allowThis(statsScoresAtLeast[i]);
+        }
+
+        statsSubmissionCount++;
+    }
+
+    /// @dev Compute matches * SCORE_SCALE / timeSeconds over encrypted operands. FHEVM can only
+    ///      divide by plaintext, so this is a bit-serial restoring division: each step shifts the
+    ///      next numerator bit into the remainder and subtracts the divisor when it fits.
+    function _computeScore(euint32 matches, euint32 timeSeconds) private returns (euint32 quotient) {
+        euint32 numerator = FHE.mul(matches, SCORE_SCALE);
+        // Callers clamp the duration to minGameDuration(); never divide by zero regardless
+        euint32 divisor = FHE.max(timeSeconds, uint32(1));
+
+        euint32 remainder = FHE.asEuint32(0);
+        quotient = FHE.asEuint32(0);
+
+        for (uint8 i = SCORE_BITS; i > 0; i--) {
+            uint8 bit = i - 1;
+
+            remainder = FHE.or(FHE.shl(remainder, uint8(1)), FHE.and(FHE.shr(numerator, bit), uint32(1)));
+            ebool fits = FHE.ge(remainder, divisor);
+            remainder = FHE.select(fits, FHE.sub(remainder, divisor), remainder);
+            quotient = FHE.or(quotient, FHE.shl(FHE.asEuint32(fits), bit));
+        }
+    }
+
+    /// @dev Number of tile pairs on a board of the given difficulty (4x4, 6x6, 8x8)
+    function _maxMatches(uint8 difficulty) private pure returns (uint32) {
+        if (difficulty == 0) {
+            return 8;
+        }
+        if (difficulty == 1) {
+            return 18;
+        }
+        return 32;
+    }
+
+    /// @notice Get a boundary of the score histogram
+    /// @param index Boundary index (ascending)
+    /// @return Boundary in scaled score units (matches per second * SCORE_SCALE)
+    function histogramBoundary(uint8 index) public pure returns (uint32) {
+        require(index < HISTOGRAM_BOUNDARY_COUNT, "Invalid histogram boundary");
+        return (uint32(index) + 1) * 500;
+    }
+
+    /// @notice Snapshot the encrypted community statistics and make them publicly decryptable
+    /// @dev Anyone may publish, at most once per STATS_PUBLISH_INTERVAL and only once at least
+    ///      MIN_STATS_BATCH submissions were added since the previous snapshot. The difference
+    ///      between two snapshots therefore covers at least that many runs, so it does not give
+    ///      away a single score on its own; a player who submitted all other runs of the batch
+    ///      could still work out the remaining one.
+    function publishStats() external {
+        require(statsSubmissionCount >= publishedStats.submissionCount + MIN_STATS_BATCH, "Too few new submissions");
+        require(
+            block.timestamp >= publishedStats.publishedAt + STATS_PUBLISH_INTERVAL,
+            "Stats were published recently"
+        );
+
+        FHE.makePubliclyDecryptable(statsScoreSum);
+        for (uint8 i = 0; i < HISTOGRAM_BOUNDARY_COUNT; i++) {
+            FHE.makePubliclyDecryptable(statsScoresAtLeast[i]);
+        }
+
+        publishedStats = PublishedStats({
+            scoreSum: statsScoreSum,
+            scoresAtLeast: statsScoresAtLeast,
+            submissionCount: statsSubmissionCount,
+            publishedAt: block.timestamp
+        });
+
+        emit StatsPublished(statsSubmissionCount, block.timestamp);
+    }
+
+    /// @notice Get the last published community statistics
+    /// @return scoreSum Publicly decryptable sum of all scores
+    /// @return scoresAtLeast Publicly decryptable number of submissions scoring >= each boundary
+    /// @return submissionCount Number of submissions covered by the snapshot
+    /// @return publishedAt Publication timestamp (0 if never published)
+    function getPublishedStats()
+        external
+        view
+        returns (
+            euint64 scoreSum,
+            euint32[HISTOGRAM_BOUNDARY_COUNT] memory scoresAtLeast,
+            uint256 submissionCount,
+            uint256 publishedAt
+        )
+    {
+        return (
+            publishedStats.scoreSum,
+            publishedStats.scoresAtLeast,
+            publishedStats.submissionCount,
+            publishedStats.publishedAt
+        );
+    }
+
+    /// @notice Get the score a badge tier requires
+    /// @param tier Badge tier (0 = bronze, 1 = silver, 2 = gold)
+    /// @return Threshold in scaled score units (matches per second * SCORE_SCALE)
+    function badgeThreshold(uint8 tier) public pure returns (uint32) {
+        require(tier < BADGE_TIER_COUNT, "Invalid badge tier");
+        if (tier == 0) {
+            return 500;
+        }
+        if (tier == 1) {
+            return 1000;
+        }
+        return 2000;
+    }
+
+    /// @notice Prove which badge tiers the caller's current-season best score reaches
+    /// @param difficulty Difficulty level
+    /// @dev Only the encrypted `score >= threshold` booleans are made publicly decryptable;
+    ///      the score itself stays private. Claiming again replaces the previous badges.
+    function claimBadges(uint8 difficulty) external validDifficulty(difficulty) {
+        uint256 seasonId = currentSeasonId();
+        Leaderboard storage board = leaderboards[seasonId][difficulty];
+        require(board.hasSubmitted[msg.sender], "Player has not submitted a result");
+
+        euint32 score = board.results[msg.sender].score;
+        for (uint8 tier = 0; tier < BADGE_TIER_COUNT; tier++) {
+            ebool reached = FHE.ge(score, badgeThreshold(tier));
+            FHE.allowThis(reached);
+            FHE.makePubliclyDecryptable(reached);
+            badges[msg.sender][difficulty][tier] = reached;
+        }
+        hasBadges[msg.sender][difficulty] = true;
+
+        emit BadgesClaimed(msg.sender, difficulty, seasonId);
+    }
+
+    /// @notice Get a player's publicly decryptable badge flags
+    /// @param player Address of the player
+    /// @param difficulty Difficulty level
+    /// @return Encrypted booleans, one per tier (true if the best score reached the threshold)
+    function getBadges(address player, uint8 difficulty)
+        external
+        view
+        validDifficulty(difficulty)
+        returns (ebool[BADGE_TIER_COUNT] memory)
+    {
+        require(hasBadges[player][difficulty], "Player has not claimed badges");
+        return badges[player][difficulty];
+    }
+
+    /// @notice Challenge `opponent` to a duel on a shared board
+    /// @param opponent Address of the challenged player
+    /// @param difficulty Difficulty level of the duel
+    /// @return challengeId Id of the new challenge
+    function createChallenge(address opponent, uint8 difficulty)
+        external
+        validDifficulty(difficulty)
+        returns (uint256 challengeId)
+    {
+        require(opponent != address(0) && opponent != msg.sender, "Invalid opponent");
+        require(pendingChallenges[opponent] < MAX_PENDING_CHALLENGES, "Too many pending challenges");
+        pendingChallenges[opponent]++;
+
+        challengeId = challenges.length;
+        Challenge storage challenge = challenges.push();
+        challenge.challenger = msg.sender;
+        challenge.opponent = opponent;
+        challenge.difficulty = difficulty;
+        challenge.boardSeed = uint256(keccak256(abi.encodePacked(block.prevrandao, msg.sender, opponent, challengeId)));
+        challenge.createdAt = block.timestamp;
+
+        playerChallenges[msg.sender].push(challengeId);
+        playerChallenges[opponent].push(challengeId);
+
+        emit ChallengeCreated(challengeId, msg.sender, opponent, difficulty);
+    }
+
+    /// @notice Start the caller's game of a challenge, on the challenge's board
+    /// @param challengeId Challenge id
+    /// @return sessionId Id to submit the result with (see submitGameResult)
+    /// @dev Each participant gets a single session, started within CHALLENGE_TIMEOUT of the
+    ///      challenge's creation. Its result is scored like any session, penalties included,
+    ///      but only counts towards the challenge.
+    function startChallengeSession(uint256 challengeId) external returns (uint256 sessionId) {
+        Challenge storage challenge = _getChallenge(challengeId);
+        require(!challenge.declined, "Challenge was declined");
+        require(block.timestamp <= challenge.createdAt + CHALLENGE_TIMEOUT, "Challenge expired");
+
+        bool isChallenger = msg.sender == challenge.challenger;
+        require(isChallenger || msg.sender == challenge.opponent, "Not a challenge participant");
+        require(!(isChallenger ? challenge.challengerStarted : challenge.opponentStarted), "Challenge already played");
+        if (isChallenger) {
+            challenge.challengerStarted = true;
+        } else {
+            challenge.opponentStarted = true;
+            pendingChallenges[msg.sender]--;
+        }
+
+        sessionId = _startSession(challenge.difficulty, challenge.boardSeed, false);
+        sessions[sessionId].challengeId = challengeId + 1;
+    }
+
+    /// @notice Decline a received challenge that has not been played yet
+    /// @param challengeId Challenge id
+    function declineChallenge(uint256 challengeId) external {
+        Challenge storage challenge = _getChallenge(challengeId);
+        require(msg.sender == challenge.opponent, "Not the challenged player");
+        require(!challenge.opponentStarted && !challenge.declined, "Challenge already answered");
+
+        challenge.declined = true;
+        pendingChallenges[msg.sender]--;
+
+        emit ChallengeDeclined(challengeId);
+    }
+
+    /// @dev Store the caller's score for a challenge; once both participants have submitted,
+    ///      the winner is computed over the encrypted scores and only the outcome is allowed
+    ///      to both of them. Each participant has a single session, so a score is stored once.
+    function _recordChallengeResult(uint256 challengeId, euint32 score) private {
+        Challenge storage challenge = challenges[challengeId];
+        if (msg.sender == challenge.challenger) {
+            challenge.challengerScore = score;
+            challenge.challengerSubmitted = true;
+        } else {
+            challenge.opponentScore = score;
+            challenge.opponentSubmitted = true;
+        }
+
+        emit ChallengeScoreSubmitted(challengeId, msg.sender);
+
+        if (challenge.challengerSubmitted && challenge.opponentSubmitted) {
+            _resolveChallenge(challengeId, challenge);
+        }
+    }
+
+    /// @dev Look up an existing challenge
+    function _getChallenge(uint256 challengeId) private view returns (Challenge storage) {
+        require(challengeId < challenges.length, "Challenge does not exist");
+        return challenges[challengeId];
+    }
+
+    /// @dev Compute the encrypted outcome of a challenge and share it with both participants
+    function _resolveChallenge(uint256 challengeId, Challenge storage challenge) private {
+        ebool challengerAhead = FHE.gt(challenge.challengerScore, challenge.opponentScore);
+        ebool opponentAhead = FHE.gt(challenge.opponentScore, challenge.challengerScore);
+
+        euint8 outcome = FHE.select(
+            challengerAhead,
+            FHE.asEuint8(CHALLENGER_WON),
+            FHE.select(opponentAhead, FHE.asEuint8(OPPONENT_WON), FHE.asEuint8(CHALLENGE_DRAW))
+        );
+
+        FHE.allowThis(outcome);
+        FHE.allow(outcome, challenge.challenger);
+        FHE.allow(outcome, challenge.opponent);
+        challenge.outcome = outcome;
+
+        emit ChallengeResolved(challengeId);
+    }
+
+    /// @notice Get the public details of a challenge
+    /// @param challengeId Challenge id
+    /// @return challenger Address of the player who created the challenge
+    /// @return opponent Address of the challenged player
+    /// @return difficulty Difficulty level of the duel
+    /// @return boardSeed Seed both players generate their board from
+    /// @return createdAt Creation timestamp
+    /// @return challengerSubmitted Whether the challenger has submitted a score
+    /// @return opponentSubmitted Whether the opponent has submitted a score
+    /// @return challengerStarted Whether the challenger has started their game
+    /// @return opponentStarted Whether the opponent has started their game
+    /// @return declined Whether the opponent declined the challenge
+    function getChallenge(uint256 challengeId)
+        external
+        view
+        returns (
+            address challenger,
+            address opponent,
+            uint8 difficulty,
+            uint256 boardSeed,
+            uint256 createdAt,
+            bool challengerSubmitted,
+            bool opponentSubmitted,
+            bool challengerStarted,
+            bool opponentStarted,
+            bool declined
+        )
+    {
+        Challenge storage challenge = _getChallenge(challengeId);
+        return (
+            challenge.challenger,
+            challenge.opponent,
+            challenge.difficulty,
+            challenge.boardSeed,
+            challenge.createdAt,
+            challenge.challengerSubmitted,
+            challenge.opponentSubmitted,
+            challenge.challengerStarted,
+            challenge.opponentStarted,
+            challenge.declined
+        );
+    }
+
+    /// @notice Get the encrypted outcome of a resolved challenge
+    /// @param challengeId Challenge id
+    /// @return outcome Encrypted outcome (only decryptable by the two participants)
+    function getChallengeOutcome(uint256 challengeId) external view returns (euint8 outcome) {
+        Challenge storage challenge = _getChallenge(challengeId);
+        require(challenge.challengerSubmitted && challenge.opponentSubmitted, "Challenge is not resolved");
+        return challenge.outcome;
+    }
+
+    /// @notice Get the ids of every challenge a player created or received
+    /// @param player Address of the player
+    /// @return Challenge ids, oldest first
+    function getPlayerChallenges(address player) external view returns (uint256[] memory) {
+        return playerChallenges[player];
     }
 
-    /// @notice Get encrypted game result for a player
+    /// @notice Get encrypted game result for a player in the current season
     /// @param player Address of the player
+    /// @param difficulty Difficulty level
     /// @return score Encrypted average matches per second
-    function getPlayerResult(address player) 
-        external 
-        view 
-        returns (euint32 score) 
+    function getPlayerResult(address player, uint8 difficulty) external view returns (euint32 score) {
+        return getSeasonPlayerResult(currentSeasonId(), player, difficulty);
+    }
+
+    /// @notice Get encrypted game result for a player in any season
+    /// @param seasonId Season id
+    /// @param player Address of the player
+    /// @param difficulty Difficulty level
+    /// @return score Encrypted average matches per second
+    function getSeasonPlayerResult(uint256 seasonId, address player, uint8 difficulty)
+        public
+        view
+        validDifficulty(difficulty)
+        returns (euint32 score)
+    {
+        Leaderboard storage board = leaderboards[seasonId][difficulty];
+        require(board.hasSubmitted[player], "Player has not submitted a result");
+        return board.results[player].score;
+    }
+
+    /// @notice Get the encrypted details of a player's best run in the current season
+    /// @param player Address of the player
+    /// @param difficulty Difficulty level
+    /// @return score Encrypted average matches per second (scaled by SCORE_SCALE)
+    /// @return matches Encrypted number of matches
+    /// @return timeSeconds Encrypted duration in seconds
+    function getPlayerResultDetails(address player, uint8 difficulty)
+        external
+        view
+        validDifficulty(difficulty)
+        returns (euint32 score, euint32 matches, euint32 timeSeconds)
+    {
+        Leaderboard storage board = leaderboards[currentSeasonId()][difficulty];
+        require(board.hasSubmitted[player], "Player has not submitted a result");
+        EncryptedGameResult storage result = board.results[player];
+        return (result.score, result.matches, result.timeSeconds);
+    }
+
+    /// @notice Get the number of runs a player has submitted
+    /// @param player Address of the player
+    /// @return Number of entries in the player's history
+    function getPlayerHistoryLength(address player) external view returns (uint256) {
+        return playerHistory[player].length;
+    }
+
+    /// @notice Get a page of a player's submission history (oldest first)
+    /// @dev Only runs submitted to the season leaderboards; daily runs are listed by day in
+    ///      getDailyEncryptedScores() and challenge runs in getChallenge()
+    /// @param player Address of the player
+    /// @param offset Index of the first run to return
+    /// @param limit Maximum number of runs to return
+    /// @return scores Encrypted scores (only decryptable by the player)
+    /// @return difficulties Difficulty level of each run
+    /// @return seasonIds Season of each run
+    /// @return timestamps Submission timestamp of each run
+    function getPlayerHistory(address player, uint256 offset, uint256 limit)
+        external
+        view
+        returns (
+            euint32[] memory scores,
+            uint8[] memory difficulties,
+            uint256[] memory seasonIds,
+            uint256[] memory timestamps
+        )
+    {
+        EncryptedRun[] storage history = playerHistory[player];
+        uint256 count = 0;
+        if (offset < history.length) {
+            count = history.length - offset;
+            if (count > limit) {
+                count = limit;
+            }
+        }
+
+        scores = new euint32[](count);
+        difficulties = new uint8[](count);
+        seasonIds = new uint256[](count);
+        timestamps = new uint256[](count);
+
+        for (uint256 i = 0; i < count; i++) {
+            EncryptedRun storage run = history[offset + i];
+            scores[i] = run.score;
+            difficulties[i] = run.difficulty;
+            seasonIds[i] = run.seasonId;
+            timestamps[i] = run.timestamp;
+        }
+
+        return (scores, difficulties, seasonIds, timestamps);
+    }
+
+    /// @notice Compute the caller's encrypted rank among all current-season scores of a difficulty
+    /// @param difficulty Difficulty level
+    /// @return rank Encrypted rank (1 + number of players with a strictly higher score)
+    /// @dev The rank is a snapshot: it is not updated when other players submit later.
+    ///      Cost grows linearly with the number of players. Only the caller may decrypt it.
+    function computeMyRank(uint8 difficulty) external validDifficulty(difficulty) returns (euint32 rank) {
+        Leaderboard storage board = leaderboards[currentSeasonId()][difficulty];
+        require(board.hasSubmitted[msg.sender], "Player has not submitted a result");
+
+        euint32 myScore = board.results[msg.sender].score;
+        rank = FHE.asEuint32(1);
+
+        for (uint256 i = 0; i < board.players.length; i++) {
+            address other = board.players[i];
+            if (other == msg.sender) {
+                continue;
+            }
+
+            // Count every stored score that beats the caller's score
+            ebool isHigher = FHE.gt(board.results[other].score, myScore);
+            rank = FHE.add(rank, FHE.asEuint32(isHigher));
+        }
+
+        // Only the contract and the caller may use the rank
+        FHE.allowThis(rank);
+        FHE.allow(rank, msg.sender);
+
+        board.ranks[msg.sender] = rank;
+        board.hasRank[msg.sender] = true;
+
+        emit RankComputed(msg.sender, difficulty, block.timestamp);
+    }
+
+    /// @notice Get the last computed encrypted rank for a player in the current season
+    /// @param player Address of the player
+    /// @param difficulty Difficulty level
+    /// @return rank Encrypted rank (only decryptable by the player)
+    function getPlayerRank(address player, uint8 difficulty)
+        external
+        view
+        validDifficulty(difficulty)
+        returns (euint32 rank)
+    {
+        Leaderboard storage board = leaderboards[currentSeasonId()][difficulty];
+        require(board.hasRank[player], "Player has not computed a rank");
+        return board.ranks[player];
+    }
+
+    /// @notice Opt in to making the caller's best scores publicly decryptable
+    /// @dev Covers every difficulty already played this season; future best scores are
+    ///      also made public until the player opts out
+    function optInPublicScore() external {
+        require(!isScorePublic[msg.sender], "Score is already public");
+
+        uint256 seasonId = currentSeasonId();
+        bool played = false;
+        for (uint8 difficulty = 0; difficulty < DIFFICULTY_COUNT; difficulty++) {
+            Leaderboard storage board = leaderboards[seasonId][difficulty];
+            if (board.hasSubmitted[msg.sender]) {
+                FHE.makePubliclyDecryptable(board.results[msg.sender].score);
+                board.revealed[msg.sender] = true;
+                played = true;
+            }
+        }
+        require(played, "Player has not submitted a result");
+
+        isScorePublic[msg.sender] = true;
+
+        emit PublicScoreOptIn(msg.sender);
+        emit LeaderboardUpdated();
+    }
+
+    /// @notice Opt out of the public leaderboard
+    /// @dev A handle that was already made public stays decryptable; opting out only
+    ///      removes the player from the public score lists and keeps future scores private.
+    function optOut() external {
+        require(isScorePublic[msg.sender], "Score is not public");
+
+        isScorePublic[msg.sender] = false;
+
+        emit PublicScoreOptOut(msg.sender);
+        emit LeaderboardUpdated();
+    }
+
+    /// @notice Let `friend` decrypt the caller's best scores
+    /// @param friend Address allowed to decrypt the scores
+    /// @dev Covers every difficulty already played this season; future best scores are
+    ///      also shared until the share is revoked. The caller shares with at most MAX_FRIENDS
+    ///      players, and a friend receives shares from at most MAX_SHARERS (see dropShare()).
+    function shareScoreWith(address friend) external {
+        require(friend != address(0) && friend != msg.sender, "Invalid friend");
+        require(!isSharedWith[msg.sender][friend], "Score is already shared");
+        require(friendsOf[msg.sender].length < MAX_FRIENDS, "Too many friends");
+        require(sharedWithMe[friend].length < MAX_SHARERS, "Friend has too many sharers");
+
+        uint256 seasonId = currentSeasonId();
+        for (uint8 difficulty = 0; difficulty < DIFFICULTY_COUNT; difficulty++) {
+            Leaderboard storage board = leaderboards[seasonId][difficulty];
+            if (board.hasSubmitted[msg.sender]) {
+                FHE.allow(board.results[msg.sender].score, friend);
+            }
+        }
+
+        isSharedWith[msg.sender][friend] = true;
+        friendsOf[msg.sender].push(friend);
+        sharedWithMe[friend].push(msg.sender);
+
+        emit ScoreShared(msg.sender, friend);
+    }
+
+    /// @notice Stop sharing the caller's best scores with `friend`
+    /// @param friend Address to stop sharing with
+    /// @dev ACL grants cannot be withdrawn: handles already shared stay decryptable by the
+    ///      friend. Revoking only keeps future best scores private and removes the listing.
+    function revokeShare(address friend) external {
+        _removeShare(msg.sender, friend);
+    }
+
+    /// @notice Drop `player`'s share from the caller's list of scores shared with them
+    /// @param player Address sharing their scores with the caller
+    /// @dev Frees a slot of MAX_SHARERS; the same ACL caveat as revokeShare() applies.
+    function dropShare(address player) external {
+        _removeShare(player, msg.sender);
+    }
+
+    /// @dev Stop `player` sharing with `friend` and remove both listings
+    function _removeShare(address player, address friend) private {
+        require(isSharedWith[player][friend], "Score is not shared");
+
+        isSharedWith[player][friend] = false;
+        _removeAddress(friendsOf[player], friend);
+        _removeAddress(sharedWithMe[friend], player);
+
+        emit ScoreShareRevoked(player, friend);
+    }
+
+    /// @dev Swap-and-pop removal of `value` from an address list (order is not kept)
+    function _removeAddress(address[] storage list, address value) private {
+        for (uint256 i = 0; i < list.length; i++) {
+            if (list[i] == value) {
+                list[i] = list[list.length - 1];
+                list.pop();
+                return;
+            }
+        }
+    }
+
+    /// @notice Get the addresses a player shares their scores with
+    /// @param player Address of the player
+    /// @return Friend addresses
+    function getFriends(address player) external view returns (address[] memory) {
+        return friendsOf[player];
+    }
+
+    /// @notice Get the current-season best scores shared with `friend` on a difficulty
+    /// @param friend Address the scores are shared with
+    /// @param difficulty Difficulty level
+    /// @return playerAddresses Players sharing a score on this difficulty
+    /// @return sharedScores Encrypted best scores (decryptable by `friend`)
+    function getScoresSharedWith(address friend, uint8 difficulty)
+        external
+        view
+        validDifficulty(difficulty)
+        returns (address[] memory playerAddresses, euint32[] memory sharedScores)
+    {
+        Leaderboard storage board = leaderboards[currentSeasonId()][difficulty];
+        address[] storage sharers = sharedWithMe[friend];
+
+        uint256 count = 0;
+        for (uint256 i = 0; i < sharers.length; i++) {
+            if (board.hasSubmitted[sharers[i]]) {
+                count++;
+            }
+        }
+
+        playerAddresses = new address[](count);
+        sharedScores = new euint32[](count);
+
+        uint256 j = 0;
+        for (uint256 i = 0; i < sharers.length; i++) {
+            address player = sharers[i];
+            if (board.hasSubmitted[player]) {
+                playerAddresses[j] = player;
+                sharedScores[j] = board.results[player].score;
+                j++;
+            }
+        }
+
+        return (playerAddresses, sharedScores);
+    }
+
+    /// @notice Get the publicly decryptable best scores of opted-in players in the current season
+    /// @param difficulty Difficulty level
+    /// @return playerAddresses Array of opted-in player addresses
+    /// @return publicScores Array of publicly decryptable score handles
+    function getPublicScores(uint8 difficulty)
+        external
+        view
+        returns (address[] memory playerAddresses, euint32[] memory publicScores)
     {
-        require(hasSubmitted[player], "Player has not submitted a result");
-        EncryptedGameResult memory result = playerResults[player];
-        return result.score;
+        return getSeasonPublicScores(currentSeasonId(), difficulty);
     }
 
-    /// @notice Get total number of players
+    /// @notice Get the publicly decryptable best scores of opted-in players in any season
+    /// @param seasonId Season id
+    /// @param difficulty Difficulty level
+    /// @return playerAddresses Array of opted-in player addresses
+    /// @return publicScores Array of publicly decryptable score handles
+    function getSeasonPublicScores(uint256 seasonId, uint8 difficulty)
+        public
+        view
+        validDifficulty(difficulty)
+        returns (address[] memory playerAddresses, euint32[] memory publicScores)
+    {
+        Leaderboard storage board = leaderboards[seasonId][difficulty];
+
+        uint256 publicCount = 0;
+        for (uint256 i = 0; i < board.players.length; i++) {
+            address player = board.players[i];
+            if (isScorePublic[player] && board.revealed[player]) {
+                publicCount++;
+            }
+        }
+
+        playerAddresses = new address[](publicCount);
+        publicScores = new euint32[](publicCount);
+
+        uint256 j = 0;
+        for (uint256 i = 0; i < board.players.length; i++) {
+            address player = board.players[i];
+            if (isScorePublic[player] && board.revealed[player]) {
+                playerAddresses[j] = player;
+                publicScores[j] = board.results[player].score;
+                j++;
+            }
+        }
+
+        return (playerAddresses, publicScores);
+    }
+
+    /// @notice Get total number of players on a difficulty in the current season
+    /// @param difficulty Difficulty level
     /// @return Total number of players who have submitted results
-    function getPlayerCount() external view returns (uint256) {
-        return players.length;
+    function getPlayerCount(uint8 difficulty) external view validDifficulty(difficulty) returns (uint256) {
+        return leaderboards[currentSeasonId()][difficulty].players.length;
     }
 
-    /// @notice Get player address by index
-    /// @param index Index in the players array
+    /// @notice Get current-season player address by index
+    /// @param difficulty Difficulty level
+    /// @param index Index in the leaderboard's players array
     /// @return Player address
-    function getPlayerByIndex(uint256 index) external view returns (address) {
-        require(index < players.length, "Index out of bounds");
-        return players[index];
+    function getPlayerByIndex(uint8 difficulty, uint256 index)
+        external
+        view
+        validDifficulty(difficulty)
+        returns (address)
+    {
+        Leaderboard storage board = leaderboards[currentSeasonId()][difficulty];
+        require(index < board.players.length, "Index out of bounds");
+        return board.players[index];
     }
 
-    /// @notice Check if a player has submitted a result
+    /// @notice Check if a player has submitted a result on a difficulty in the current season
+    /// @param difficulty Difficulty level
     /// @param player Address of the player
     /// @return True if player has submitted a result
-    function checkPlayerSubmitted(address player) external view returns (bool) {
-        return hasSubmitted[player];
+    function hasSubmitted(uint8 difficulty, address player) public view returns (bool) {
+        return leaderboards[currentSeasonId()][difficulty].hasSubmitted[player];
     }
 
-    /// @notice Get all players' encrypted scores for leaderboard
+    /// @notice Check if a player has computed a rank on a difficulty in the current season
+    /// @param difficulty Difficulty level
+    /// @param player Address of the player
+    /// @return True if player has computed a rank
+    function hasRank(uint8 difficulty, address player) external view returns (bool) {
+        return leaderboards[currentSeasonId()][difficulty].hasRank[player];
+    }
+
+    /// @notice Check if a player has submitted a result on a difficulty in the current season
+    /// @param player Address of the player
+    /// @param difficulty Difficulty level
+    /// @return True if player has submitted a result
+    function checkPlayerSubmitted(address player, uint8 difficulty) external view returns (bool) {
+        return hasSubmitted(difficulty, player);
+    }
+
+    /// @notice Get all current-season encrypted scores of a difficulty for leaderboard
+    /// @param difficulty Difficulty level
     /// @return playerAddresses Array of player addresses
     /// @return encryptedScores Array of encrypted scores
     /// @dev Frontend should decrypt and sort these scores to display top 10
-    function getAllEncryptedScores() 
-        external 
-        view 
-        returns (address[] memory playerAddresses, euint32[] memory encryptedScores) 
+    function getAllEncryptedScores(uint8 difficulty)
+        external
+        view
+        returns (address[] memory playerAddresses, euint32[] memory encryptedScores)
     {
-        uint256 count = players.length;
+        return getSeasonEncryptedScores(currentSeasonId(), difficulty);
+    }
+
+    /// @notice Get all encrypted scores of a difficulty in any season
+    /// @param seasonId Season id
+    /// @param difficulty Difficulty level
+    /// @return playerAddresses Array of player addresses
+    /// @return encryptedScores Array of encrypted scores
+    function getSeasonEncryptedScores(uint256 seasonId, uint8 difficulty)
+        public
+        view
+        validDifficulty(difficulty)
+        returns (address[] memory playerAddresses, euint32[] memory encryptedScores)
+    {
+        Leaderboard storage board = leaderboards[seasonId][difficulty];
+        uint256 count = board.players.length;
         playerAddresses = new address[](count);
         encryptedScores = new euint32[](count);
-        
+
         for (uint256 i = 0; i < count; i++) {
-            address player = players[i];
+            address player = board.players[i];
             playerAddresses[i] = player;
-            encryptedScores[i] = playerResults[player].score;
+            encryptedScores[i] = board.results[player].score;
         }
-        
+
         return (playerAddresses, encryptedScores);
     }
-}
 
+    /// @notice Get a page of current-season encrypted scores of a difficulty
+    /// @param difficulty Difficulty level
+    /// @param offset Index of the first player to return
+    /// @param limit Maximum number of players to return
+    /// @return playerAddresses Player addresses of the page
+    /// @return encryptedScores Encrypted best scores of the page
+    /// @return publicFlags Whether each score is publicly decryptable
+    /// @return nextCursor Offset of the next page (equal to total once the end is reached)
+    /// @return total Number of players on the leaderboard
+    function getEncryptedScoresPage(uint8 difficulty, uint256 offset, uint256 limit)
+        external
+        view
+        returns (
+            address[] memory playerAddresses,
+            euint32[] memory encryptedScores,
+            bool[] memory publicFlags,
+            uint256 nextCursor,
+            uint256 total
+        )
+    {
+        return getSeasonEncryptedScoresPage(currentSeasonId(), difficulty, offset, limit);
+    }
+
+    /// @notice Get a page of encrypted scores of a difficulty in any season
+    /// @param seasonId Season id
+    /// @param difficulty Difficulty level
+    /// @param offset Index of the first player to return
+    /// @param limit Maximum number of players to return
+    /// @return playerAddresses Player addresses of the page
+    /// @return encryptedScores Encrypted best scores of the page
+    /// @return publicFlags Whether each score is publicly decryptable
+    /// @return nextCursor Offset of the next page (equal to total once the end is reached)
+    /// @return total Number of players on the leaderboard
+    /// @dev Players are returned in submission order, so cursors stay valid as new players join
+    function getSeasonEncryptedScoresPage(uint256 seasonId, uint8 difficulty, uint256 offset, uint256 limit)
+        public
+        view
+        validDifficulty(difficulty)
+        returns (
+            address[] memory playerAddresses,
+            euint32[] memory encryptedScores,
+            bool[] memory publicFlags,
+            uint256 nextCursor,
+            uint256 total
+        )
+    {
+        Leaderboard storage board = leaderboards[seasonId][difficulty];
+        total = board.players.length;
+        uint256 count = 0;
+        if (offset < total) {
+            count = total - offset;
+            if (count > limit) {
+                count = limit;
+            }
+        }
+
+        playerAddresses = new address[](count);
+        encryptedScores = new euint32[](count);
+        publicFlags = new bool[](count);
+
+        for (uint256 i = 0; i < count; i++) {
+            address player = board.players[offset + i];
+            playerAddresses[i] = player;
+            encryptedScores[i] = board.results[player].score;
+            publicFlags[i] = isScorePublic[player] && board.revealed[player];
+        }
+
+        nextCursor = offset < total ? offset + count : total;
+
+        return (playerAddresses, encryptedScores, publicFlags, nextCursor, total);
+    }
+}
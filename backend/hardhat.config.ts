@@ -9,6 +9,8 @@ import type { HardhatUserConfig } from "hardhat/config";
 import { vars } from "hardhat/config";
 import "solidity-coverage";
 
+import "./tasks/verifyReplay";
+
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
 // Support environment variables via $env: (PowerShell) or process.env (Node.js)
 // Priority: environment variable > hardhat vars > default value
@@ -0,0 +1,161 @@
+import * as fs from "fs";
+import * as path from "path";
+import { task } from "hardhat/config";
+
+const DIFFICULTY_INDEX = { easy: 0, medium: 1, hard: 2 } as const;
+
+// The game modules live in the frontend and are loaded only when the task runs, so the
+// backend compiles and runs its other commands without the frontend installed. These
+// types mirror the parts of frontend/game the task uses.
+const GAME_DIR = path.join(__dirname, "..", "..", "frontend", "game");
+
+type Difficulty = keyof typeof DIFFICULTY_INDEX;
+type GameMode = "memory" | "link";
+type Move = { cell: number; atMs: number };
+
+type ReplayFile = {
+  version: 1;
+  sessionId?: string;
+  difficulty: Difficulty;
+  mode: GameMode;
+  seed: number;
+  layout?: { name: string; mask: string[] };
+  moves: Move[];
+};
+
+type GameModules = {
+  engine: {
+    GAME_MODE_CONFIG: Record<GameMode, unknown>;
+    RANKED_MODE: GameMode;
+  };
+  moveLog: { hashMoveLog: (moves: Move[]) => string };
+  replay: {
+    verifyReplay: (
+      board: { seed: number; layout?: ReplayFile["layout"] },
+      difficulty: Difficulty,
+      moves: Move[],
+      mode: GameMode
+    ) => {
+      matches: number;
+      mismatches: number;
+      durationSeconds: number;
+      completed: boolean;
+      penaltySeconds: number;
+    };
+  };
+};
+
+const loadGameModules = async (): Promise<GameModules> => ({
+  engine: await import(path.join(GAME_DIR, "engine")),
+  moveLog: await import(path.join(GAME_DIR, "moveLog")),
+  replay: await import(path.join(GAME_DIR, "replay")),
+});
+
+/**
+ * Re-simulate an exported replay and check it against its on-chain session.
+ *
+ * Example:
+ *   npx hardhat --network sepolia verify-replay --file ./linkmatch-replay-12.json
+ *   npx hardhat verify-replay --file ./replay.json --offline
+ */
+task(
+  "verify-replay",
+  "Re-simulates an exported LinkMatch replay and checks it against its session"
+)
+  .addParam("file", "Path to the exported replay JSON")
+  .addOptionalParam("address", "LinkMatch address (defaults to the deployment)")
+  .addFlag("offline", "Skip the on-chain session checks")
+  .setAction(async ({ file, address, offline }, hre) => {
+    const {
+      engine: { GAME_MODE_CONFIG, RANKED_MODE },
+      moveLog: { hashMoveLog },
+      replay: { verifyReplay },
+    } = await loadGameModules();
+
+    const replay = JSON.parse(fs.readFileSync(file, "utf8")) as ReplayFile;
+    if (
+      replay.version !== 1 ||
+      !(replay.difficulty in DIFFICULTY_INDEX) ||
+      !(replay.mode in GAME_MODE_CONFIG) ||
+      !Array.isArray(replay.moves)
+    ) {
+      throw new Error(`Unsupported replay file: ${file}`);
+    }
+
+    // Sessions do not record a mode: a replay of a session is re-simulated under the rule
+    // every ranked run is scored by, whatever mode the file claims
+    const onChain = !offline && replay.sessionId !== undefined;
+    const mode = onChain ? RANKED_MODE : replay.mode;
+    const result = verifyReplay(
+      { seed: replay.seed, layout: replay.layout },
+      replay.difficulty,
+      replay.moves,
+      mode
+    );
+    const moveLogHash = hashMoveLog(replay.moves);
+
+    console.log(`Difficulty:    ${replay.difficulty}`);
+    console.log(`Mode:          ${mode}`);
+    console.log(`Layout:        ${replay.layout?.name ?? "Full"}`);
+    console.log(`Clicks:        ${replay.moves.length}`);
+    console.log(`Matches:       ${result.matches}`);
+    console.log(`Mismatches:    ${result.mismatches}`);
+    console.log(`Duration:      ${result.durationSeconds}s`);
+    console.log(`Completed:     ${result.completed}`);
+    console.log(`Penalty:       ${result.penaltySeconds}s`);
+    console.log(`Move log hash: ${moveLogHash}`);
+
+    if (!onChain) {
+      return;
+    }
+
+    const contractAddress: string =
+      address ?? (await hre.deployments.get("LinkMatch")).address;
+    const linkMatch = await hre.ethers.getContractAt(
+      "LinkMatch",
+      contractAddress
+    );
+    const [
+      player,
+      difficulty,
+      boardSeed,
+      startedAt,
+      used,
+      sessionMoveLogHash,
+      ,
+      penaltySeconds,
+    ] = await linkMatch.getSession(replay.sessionId);
+
+    const checks: [string, boolean][] = [
+      [
+        "difficulty matches the session",
+        Number(difficulty) === DIFFICULTY_INDEX[replay.difficulty],
+      ],
+      [
+        "seed matches the session",
+        Number(boardSeed & 0xffffffffn) === replay.seed,
+      ],
+      ["board is the full grid", replay.layout === undefined],
+      ["mode is the ranked rule", replay.mode === RANKED_MODE],
+      ["session was submitted", used],
+      [
+        "move log hash matches the submission",
+        sessionMoveLogHash === moveLogHash,
+      ],
+      [
+        "power-up penalty matches the submission",
+        Number(penaltySeconds) === result.penaltySeconds,
+      ],
+    ];
+
+    console.log(
+      `\nSession #${replay.sessionId} of ${player}, started ${new Date(Number(startedAt) * 1000).toISOString()}`
+    );
+    for (const [label, ok] of checks) {
+      console.log(`  ${ok ? "✔" : "✘"} ${label}`);
+    }
+
+    if (checks.some(([, ok]) => !ok)) {
+      throw new Error("Replay does not match its on-chain session");
+    }
+  });
@@ -3,6 +3,7 @@ import { ethers, fhevm } from "hardhat";
 import { LinkMatch, LinkMatch__factory } from "../types";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 
 type Signers = {
   deployer: HardhatEthersSigner;
@@ -18,6 +19,87 @@ async function deployFixture() {
   return { linkMatchContract, linkMatchContractAddress };
 }
 
+const EASY = 0;
+const MEDIUM = 1;
+const HARD = 2;
+
+const MOVE_LOG_HASH = ethers.id("move log");
+
+async function startSession(contract: LinkMatch, signer: HardhatEthersSigner, difficulty = MEDIUM) {
+  const sessionId = await contract.sessionCount();
+  await (await contract.connect(signer).startSession(difficulty)).wait();
+  return sessionId;
+}
+
+async function submitSession(
+  contract: LinkMatch,
+  contractAddress: string,
+  signer: HardhatEthersSigner,
+  sessionId: bigint,
+  matches: number,
+  timeSeconds: number,
+  penaltySeconds = 0,
+  mismatches = 0
+) {
+  const encryptedMatches = await fhevm
+    .createEncryptedInput(contractAddress, signer.address)
+    .add32(matches)
+    .encrypt();
+
+  // The mismatches share the time's input and proof
+  const encryptedTime = await fhevm
+    .createEncryptedInput(contractAddress, signer.address)
+    .add32(timeSeconds)
+    .add32(mismatches)
+    .encrypt();
+
+  const tx = await contract
+    .connect(signer)
+    .submitGameResult(
+      sessionId,
+      encryptedMatches.handles[0],
+      encryptedTime.handles[0],
+      encryptedTime.handles[1],
+      MOVE_LOG_HASH,
+      penaltySeconds,
+      encryptedMatches.inputProof,
+      encryptedTime.inputProof
+    );
+  await tx.wait();
+}
+
+// Play a full session: start it, wait the minimum game duration, then submit
+async function submitRun(
+  contract: LinkMatch,
+  contractAddress: string,
+  signer: HardhatEthersSigner,
+  matches: number,
+  timeSeconds: number,
+  difficulty = MEDIUM
+) {
+  const sessionId = await startSession(contract, signer, difficulty);
+  await time.increase(await contract.minGameDuration(difficulty));
+  await submitSession(contract, contractAddress, signer, sessionId, matches, timeSeconds);
+}
+
+// Play a challenge: start the caller's challenge session, wait the minimum game duration, then submit
+async function submitChallengeRun(
+  contract: LinkMatch,
+  contractAddress: string,
+  signer: HardhatEthersSigner,
+  challengeId: number,
+  matches: number,
+  timeSeconds: number,
+  penaltySeconds = 0,
+  mismatches = 0
+) {
+  const sessionId = await contract.sessionCount();
+  await (await contract.connect(signer).startChallengeSession(challengeId)).wait();
+  const [, , difficulty] = await contract.getChallenge(challengeId);
+  await time.increase(await contract.minGameDuration(difficulty));
+  await submitSession(contract, contractAddress, signer, sessionId, matches, timeSeconds, penaltySeconds, mismatches);
+}
+
 describe("LinkMatch", function () {
   let signers: Signers;
   let linkMatchContract: LinkMatch;
@@ -39,123 +121,627 @@ describe("LinkMatch", function () {
   });
 
   it("should allow player to submit encrypted game result", async function () {
-    const matches = 10;
-    const timeSeconds = 120;
-
-    // Encrypt game result
-    const encryptedMatches = await fhevm
-      .createEncryptedInput(linkMatchContractAddress, signers.alice.address)
-      .add32(matches)
-      .encrypt();
-
-    const encryptedTime = await fhevm
-      .createEncryptedInput(linkMatchContractAddress, signers.alice.address)
-      .add32(timeSeconds)
-      .encrypt();
-
-    // Submit game result
-    const tx = await linkMatchContract
-      .connect(signers.alice)
-      .submitGameResult(
-        encryptedMatches.handles[0],
-        encryptedTime.handles[0],
-        encryptedMatches.inputProof,
-        encryptedTime.inputProof
-      );
-    await tx.wait();
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 10, 120);
 
     // Verify submission
-    expect(await linkMatchContract.hasSubmitted(signers.alice.address)).to.be.true;
-    expect(await linkMatchContract.getPlayerCount()).to.eq(1);
-  });
-
-  it("should prevent duplicate submissions", async function () {
-    const matches = 10;
-    const timeSeconds = 120;
-
-    const encryptedMatches = await fhevm
-      .createEncryptedInput(linkMatchContractAddress, signers.alice.address)
-      .add32(matches)
-      .encrypt();
-
-    const encryptedTime = await fhevm
-      .createEncryptedInput(linkMatchContractAddress, signers.alice.address)
-      .add32(timeSeconds)
-      .encrypt();
-
-    // First submission
-    await linkMatchContract
-      .connect(signers.alice)
-      .submitGameResult(
-        encryptedMatches.handles[0],
-        encryptedTime.handles[0],
-        encryptedMatches.inputProof,
-        encryptedTime.inputProof
-      );
-
-    // Second submission should fail
-    await expect(
-      linkMatchContract
-        .connect(signers.alice)
-        .submitGameResult(
-          encryptedMatches.handles[0],
-          encryptedTime.handles[0],
-          encryptedMatches.inputProof,
-          encryptedTime.inputProof
-        )
-    ).to.be.revertedWith("Player has already submitted a result");
+    expect(await linkMatchContract.hasSubmitted(MEDIUM, signers.alice.address)).to.be.true;
+    expect(await linkMatchContract.getPlayerCount(MEDIUM)).to.eq(1n);
+  });
+
+  it("should keep the best run when a player submits again", async function () {
+    // 10 matches in 120s scores 83, then 12 matches in 60s scores 200, then 5 in 100s scores 50
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 10, 120);
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 12, 60);
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 5, 100);
+
+    expect(await linkMatchContract.getPlayerCount(MEDIUM)).to.eq(1);
+
+    const [score, matches, timeSeconds] = await linkMatchContract.getPlayerResultDetails(
+      signers.alice.address,
+      MEDIUM
+    );
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, score, linkMatchContractAddress, signers.alice)
+    ).to.eq(200n);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, matches, linkMatchContractAddress, signers.alice)
+    ).to.eq(12n);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, timeSeconds, linkMatchContractAddress, signers.alice)
+    ).to.eq(60n);
   });
 
   it("should allow multiple players to submit results", async function () {
-    const aliceMatches = 10;
-    const aliceTime = 120;
-    const bobMatches = 15;
-    const bobTime = 100;
-
-    // Alice submits
-    const aliceEncryptedMatches = await fhevm
-      .createEncryptedInput(linkMatchContractAddress, signers.alice.address)
-      .add32(aliceMatches)
-      .encrypt();
-
-    const aliceEncryptedTime = await fhevm
-      .createEncryptedInput(linkMatchContractAddress, signers.alice.address)
-      .add32(aliceTime)
-      .encrypt();
-
-    await linkMatchContract
-      .connect(signers.alice)
-      .submitGameResult(
-        aliceEncryptedMatches.handles[0],
-        aliceEncryptedTime.handles[0],
-        aliceEncryptedMatches.inputProof,
-        aliceEncryptedTime.inputProof
-      );
-
-    // Bob submits
-    const bobEncryptedMatches = await fhevm
-      .createEncryptedInput(linkMatchContractAddress, signers.bob.address)
-      .add32(bobMatches)
-      .encrypt();
-
-    const bobEncryptedTime = await fhevm
-      .createEncryptedInput(linkMatchContractAddress, signers.bob.address)
-      .add32(bobTime)
-      .encrypt();
-
-    await linkMatchContract
-      .connect(signers.bob)
-      .submitGameResult(
-        bobEncryptedMatches.handles[0],
-        bobEncryptedTime.handles[0],
-        bobEncryptedMatches.inputProof,
-        bobEncryptedTime.inputProof
-      );
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 10, 120);
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.bob, 15, 100);
 
     // Verify both players are registered
-    expect(await linkMatchContract.getPlayerCount()).to.eq(2);
-    expect(await linkMatchContract.hasSubmitted(signers.alice.address)).to.be.true;
-    expect(await linkMatchContract.hasSubmitted(signers.bob.address)).to.be.true;
+    expect(await linkMatchContract.getPlayerCount(MEDIUM)).to.eq(2n);
+    expect(await linkMatchContract.hasSubmitted(MEDIUM, signers.alice.address)).to.be.true;
+    expect(await linkMatchContract.hasSubmitted(MEDIUM, signers.bob.address)).to.be.true;
+  });
+
+  it("should compute encrypted ranks only decryptable by their owner", async function () {
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 6, 4);
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.bob, 10, 4);
+
+    await (await linkMatchContract.connect(signers.alice).computeMyRank(MEDIUM)).wait();
+    await (await linkMatchContract.connect(signers.bob).computeMyRank(MEDIUM)).wait();
+
+    const aliceRank = await linkMatchContract.getPlayerRank(signers.alice.address, MEDIUM);
+    const bobRank = await linkMatchContract.getPlayerRank(signers.bob.address, MEDIUM);
+
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, aliceRank, linkMatchContractAddress, signers.alice)
+    ).to.eq(2n);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, bobRank, linkMatchContractAddress, signers.bob)
+    ).to.eq(1n);
+
+    // Bob is not ACL-allowed to read Alice's rank
+    let bobCanDecrypt = true;
+    try {
+      await fhevm.userDecryptEuint(FhevmType.euint32, aliceRank, linkMatchContractAddress, signers.bob);
+    } catch {
+      bobCanDecrypt = false;
+    }
+    expect(bobCanDecrypt).to.be.false;
+  });
+
+  it("should reject rank computation before any submission", async function () {
+    await expect(linkMatchContract.connect(signers.alice).computeMyRank(MEDIUM)).to.be.revertedWith(
+      "Player has not submitted a result"
+    );
+  });
+
+  it("should publicly reveal the best score of opted-in players only", async function () {
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 6, 4);
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.bob, 10, 4);
+
+    await (await linkMatchContract.connect(signers.alice).optInPublicScore()).wait();
+
+    const [playerAddresses, publicScores] = await linkMatchContract.getPublicScores(MEDIUM);
+    expect(playerAddresses).to.deep.eq([signers.alice.address]);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint32, publicScores[0])).to.eq(1500n);
+
+    // A better run while opted in stays public
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 12, 4);
+    const [, updatedScores] = await linkMatchContract.getPublicScores(MEDIUM);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint32, updatedScores[0])).to.eq(3000n);
+
+    await (await linkMatchContract.connect(signers.alice).optOut()).wait();
+    const [remainingPlayers] = await linkMatchContract.getPublicScores(MEDIUM);
+    expect(remainingPlayers.length).to.eq(0);
+    expect(await linkMatchContract.isScorePublic(signers.alice.address)).to.be.false;
+  });
+
+  it("should keep separate leaderboards per difficulty", async function () {
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 16, 4, MEDIUM);
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.bob, 8, 8, HARD);
+
+    expect(await linkMatchContract.getPlayerCount(MEDIUM)).to.eq(1);
+    expect(await linkMatchContract.getPlayerCount(HARD)).to.eq(1);
+    expect(await linkMatchContract.hasSubmitted(HARD, signers.alice.address)).to.be.false;
+
+    const [hardPlayers, hardScores] = await linkMatchContract.getAllEncryptedScores(HARD);
+    expect(hardPlayers).to.deep.eq([signers.bob.address]);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, hardScores[0], linkMatchContractAddress, signers.bob)
+    ).to.eq(1000n);
+
+    // Bob is first on hard even though Alice's medium score is higher
+    await (await linkMatchContract.connect(signers.bob).computeMyRank(HARD)).wait();
+    const bobRank = await linkMatchContract.getPlayerRank(signers.bob.address, HARD);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, bobRank, linkMatchContractAddress, signers.bob)
+    ).to.eq(1n);
+  });
+
+  it("should reject unknown difficulty levels", async function () {
+    await expect(linkMatchContract.connect(signers.alice).startSession(3)).to.be.revertedWith(
+      "Invalid difficulty"
+    );
+  });
+
+  it("should only let the owner start a season", async function () {
+    const endTimestamp = (await time.latest()) + 30 * 24 * 3600;
+
+    await expect(linkMatchContract.connect(signers.alice).startSeason(endTimestamp)).to.be.revertedWith(
+      "Only owner"
+    );
+    await expect(linkMatchContract.connect(signers.deployer).startSeason((await time.latest()) - 1)).to.be.revertedWith(
+      "Season must end in the future"
+    );
+  });
+
+  it("should store results per season and keep past seasons readable", async function () {
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 6, 4);
+    expect(await linkMatchContract.currentSeasonId()).to.eq(0);
+
+    const seasonLength = 7 * 24 * 3600;
+    await (
+      await linkMatchContract.connect(signers.deployer).startSeason((await time.latest()) + seasonLength + 1)
+    ).wait();
+    expect(await linkMatchContract.currentSeasonId()).to.eq(1);
+
+    // The new season starts empty
+    expect(await linkMatchContract.getPlayerCount(MEDIUM)).to.eq(0);
+    expect(await linkMatchContract.hasSubmitted(MEDIUM, signers.alice.address)).to.be.false;
+
+    // Season 0 is closed but still readable
+    const [pastPlayers, pastScores] = await linkMatchContract.getSeasonEncryptedScores(0, MEDIUM);
+    expect(pastPlayers).to.deep.eq([signers.alice.address]);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, pastScores[0], linkMatchContractAddress, signers.alice)
+    ).to.eq(1500n);
+    const [, season0End] = await linkMatchContract.getSeason(0);
+    const [season1Start, season1End] = await linkMatchContract.getSeason(1);
+    expect(season0End).to.eq(season1Start);
+    expect(season1End - season1Start).to.eq(seasonLength);
+  });
+
+  it("should roll over to the next season automatically", async function () {
+    const seasonLength = 24 * 3600;
+    await (
+      await linkMatchContract.connect(signers.deployer).startSeason((await time.latest()) + seasonLength + 1)
+    ).wait();
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 6, 4);
+
+    await time.increase(seasonLength);
+    expect(await linkMatchContract.currentSeasonId()).to.eq(2);
+
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.bob, 10, 4);
+    const [season1Players] = await linkMatchContract.getSeasonEncryptedScores(1, MEDIUM);
+    const [season2Players] = await linkMatchContract.getSeasonEncryptedScores(2, MEDIUM);
+    expect(season1Players).to.deep.eq([signers.alice.address]);
+    expect(season2Players).to.deep.eq([signers.bob.address]);
+
+    const [season1Start, season1End] = await linkMatchContract.getSeason(1);
+    const [season2Start, season2End] = await linkMatchContract.getSeason(2);
+    expect(season2Start).to.eq(season1End);
+    expect(season2End - season2Start).to.eq(season1End - season1Start);
+  });
+
+  it("should keep every submission in the player's history", async function () {
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 6, 4, MEDIUM);
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 6, 5, MEDIUM);
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 9, 10, HARD);
+
+    expect(await linkMatchContract.getPlayerHistoryLength(signers.alice.address)).to.eq(3);
+
+    const [scores, difficulties] = await linkMatchContract.getPlayerHistory(signers.alice.address, 1, 10);
+    expect(difficulties).to.deep.eq([BigInt(MEDIUM), BigInt(HARD)]);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, scores[0], linkMatchContractAddress, signers.alice)
+    ).to.eq(1200n);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, scores[1], linkMatchContractAddress, signers.alice)
+    ).to.eq(900n);
+
+    // Paging past the end returns an empty page
+    const [emptyPage] = await linkMatchContract.getPlayerHistory(signers.alice.address, 3, 10);
+    expect(emptyPage.length).to.eq(0);
+  });
+
+  it("should derive the scaled score from encrypted matches and time", async function () {
+    // 18 matches in 7s: floor(18 * 1000 / 7) = 2571
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 18, 7);
+    // A duration below the minimum plausible one (4s on medium) counts as the minimum
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.bob, 3, 0);
+
+    const aliceScore = await linkMatchContract.getPlayerResult(signers.alice.address, MEDIUM);
+    const bobScore = await linkMatchContract.getPlayerResult(signers.bob.address, MEDIUM);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, aliceScore, linkMatchContractAddress, signers.alice)
+    ).to.eq(2571n);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, bobScore, linkMatchContractAddress, signers.bob)
+    ).to.eq(750n);
+  });
+
+  it("should add the power-up penalty to the scored time", async function () {
+    const sessionId = await startSession(linkMatchContract, signers.alice);
+    await time.increase(await linkMatchContract.minGameDuration(MEDIUM));
+    // 18 matches in 5s plus a 15s penalty: floor(18 * 1000 / 20) = 900
+    await submitSession(linkMatchContract, linkMatchContractAddress, signers.alice, sessionId, 18, 5, 15);
+
+    const [score, , timeSeconds] = await linkMatchContract.getPlayerResultDetails(signers.alice.address, MEDIUM);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, score, linkMatchContractAddress, signers.alice)
+    ).to.eq(900n);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, timeSeconds, linkMatchContractAddress, signers.alice)
+    ).to.eq(20n);
+
+    const [, , , , , , , penaltySeconds] = await linkMatchContract.getSession(sessionId);
+    expect(penaltySeconds).to.eq(15n);
+  });
+
+  it("should add a time penalty for each mismatch", async function () {
+    const sessionId = await startSession(linkMatchContract, signers.alice);
+    await time.increase(await linkMatchContract.minGameDuration(MEDIUM));
+    // 18 matches in 6s with 3 mismatches: floor(18 * 1000 / (6 + 3)) = 2000
+    await submitSession(linkMatchContract, linkMatchContractAddress, signers.alice, sessionId, 18, 6, 0, 3);
+
+    const [score, , timeSeconds] = await linkMatchContract.getPlayerResultDetails(signers.alice.address, MEDIUM);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, score, linkMatchContractAddress, signers.alice)
+    ).to.eq(2000n);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, timeSeconds, linkMatchContractAddress, signers.alice)
+    ).to.eq(9n);
+  });
+
+  it("should clamp matches to the number of pairs on the board", async function () {
+    // An easy 4x4 board only has 8 pairs
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 1000, 2, EASY);
+
+    const [score, matches] = await linkMatchContract.getPlayerResultDetails(signers.alice.address, EASY);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, matches, linkMatchContractAddress, signers.alice)
+    ).to.eq(8n);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, score, linkMatchContractAddress, signers.alice)
+    ).to.eq(4000n);
+  });
+
+  it("should page through encrypted scores with a cursor", async function () {
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.deployer, 4, 4);
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 6, 4);
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.bob, 10, 4);
+    await (await linkMatchContract.connect(signers.bob).optInPublicScore()).wait();
+
+    const [firstPlayers, , firstFlags, cursor, total] = await linkMatchContract.getEncryptedScoresPage(MEDIUM, 0, 2);
+    expect(firstPlayers).to.deep.eq([signers.deployer.address, signers.alice.address]);
+    expect(firstFlags).to.deep.eq([false, false]);
+    expect(cursor).to.eq(2);
+    expect(total).to.eq(3);
+
+    const [lastPlayers, lastScores, lastFlags, lastCursor] = await linkMatchContract.getEncryptedScoresPage(
+      MEDIUM,
+      cursor,
+      2
+    );
+    expect(lastPlayers).to.deep.eq([signers.bob.address]);
+    expect(lastFlags).to.deep.eq([true]);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint32, lastScores[0])).to.eq(2500n);
+    expect(lastCursor).to.eq(total);
+
+    // Reading past the end returns an empty page
+    const [emptyPage, , , endCursor] = await linkMatchContract.getEncryptedScoresPage(MEDIUM, 10, 2);
+    expect(emptyPage.length).to.eq(0);
+    expect(endCursor).to.eq(total);
   });
-});
 
+  it("should let a player share their best score with a friend", async function () {
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 6, 4);
+    await (await linkMatchContract.connect(signers.alice).shareScoreWith(signers.bob.address)).wait();
+
+    expect(await linkMatchContract.isSharedWith(signers.alice.address, signers.bob.address)).to.be.true;
+    expect(await linkMatchContract.getFriends(signers.alice.address)).to.deep.eq([signers.bob.address]);
+
+    const [sharers, sharedScores] = await linkMatchContract.getScoresSharedWith(signers.bob.address, MEDIUM);
+    expect(sharers).to.deep.eq([signers.alice.address]);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, sharedScores[0], linkMatchContractAddress, signers.bob)
+    ).to.eq(1500n);
+
+    // A new best score is shared as well
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 12, 4);
+    const [, updatedScores] = await linkMatchContract.getScoresSharedWith(signers.bob.address, MEDIUM);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, updatedScores[0], linkMatchContractAddress, signers.bob)
+    ).to.eq(3000n);
+
+    await (await linkMatchContract.connect(signers.alice).revokeShare(signers.bob.address)).wait();
+    const [remaining] = await linkMatchContract.getScoresSharedWith(signers.bob.address, MEDIUM);
+    expect(remaining.length).to.eq(0);
+
+    // Scores submitted after revoking are no longer readable by the friend
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 16, 4);
+    const latestScore = await linkMatchContract.getPlayerResult(signers.alice.address, MEDIUM);
+    let bobCanDecrypt = true;
+    try {
+      await fhevm.userDecryptEuint(FhevmType.euint32, latestScore, linkMatchContractAddress, signers.bob);
+    } catch {
+      bobCanDecrypt = false;
+    }
+    expect(bobCanDecrypt).to.be.false;
+
+    await expect(
+      linkMatchContract.connect(signers.alice).revokeShare(signers.bob.address)
+    ).to.be.revertedWith("Score is not shared");
+  });
+
+  it("should cap incoming shares and let a player drop them", async function () {
+    await (await linkMatchContract.connect(signers.alice).shareScoreWith(signers.bob.address)).wait();
+
+    // The player drops an unwanted share; only a shared score can be dropped
+    await (await linkMatchContract.connect(signers.bob).dropShare(signers.alice.address)).wait();
+    expect(await linkMatchContract.isSharedWith(signers.alice.address, signers.bob.address)).to.be.false;
+    expect(await linkMatchContract.getFriends(signers.alice.address)).to.deep.eq([]);
+    const [sharers] = await linkMatchContract.getScoresSharedWith(signers.bob.address, MEDIUM);
+    expect(sharers.length).to.eq(0);
+    await expect(linkMatchContract.connect(signers.bob).dropShare(signers.alice.address)).to.be.revertedWith(
+      "Score is not shared"
+    );
+
+    // Fill bob's list up to the cap with throwaway addresses
+    const maxSharers = await linkMatchContract.MAX_SHARERS();
+    for (let i = 0n; i < maxSharers; i++) {
+      const sharer = ethers.Wallet.createRandom().connect(ethers.provider);
+      await (await signers.deployer.sendTransaction({ to: sharer.address, value: ethers.parseEther("1") })).wait();
+      await (await linkMatchContract.connect(sharer).shareScoreWith(signers.bob.address)).wait();
+    }
+    await expect(linkMatchContract.connect(signers.alice).shareScoreWith(signers.bob.address)).to.be.revertedWith(
+      "Friend has too many sharers"
+    );
+  });
+
+  it("should resolve a challenge and share only the outcome", async function () {
+    await (await linkMatchContract.connect(signers.alice).createChallenge(signers.bob.address, HARD)).wait();
+    expect(await linkMatchContract.getPlayerChallenges(signers.bob.address)).to.deep.eq([0n]);
+
+    await expect(linkMatchContract.getChallengeOutcome(0)).to.be.revertedWith("Challenge is not resolved");
+
+    await submitChallengeRun(linkMatchContract, linkMatchContractAddress, signers.alice, 0, 3, 2);
+    await expect(linkMatchContract.connect(signers.deployer).startChallengeSession(0)).to.be.revertedWith(
+      "Not a challenge participant"
+    );
+    await expect(linkMatchContract.connect(signers.alice).startChallengeSession(0)).to.be.revertedWith(
+      "Challenge already played"
+    );
+    await submitChallengeRun(linkMatchContract, linkMatchContractAddress, signers.bob, 0, 5, 2);
+
+    const [challenger, opponent, difficulty, , , challengerSubmitted, opponentSubmitted] =
+      await linkMatchContract.getChallenge(0);
+    expect(challenger).to.eq(signers.alice.address);
+    expect(opponent).to.eq(signers.bob.address);
+    expect(difficulty).to.eq(HARD);
+    expect(challengerSubmitted && opponentSubmitted).to.be.true;
+
+    // Both participants can read the outcome: the opponent won
+    const outcome = await linkMatchContract.getChallengeOutcome(0);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint8, outcome, linkMatchContractAddress, signers.alice)
+    ).to.eq(2n);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint8, outcome, linkMatchContractAddress, signers.bob)
+    ).to.eq(2n);
+
+    // Challenge runs do not count towards the leaderboard
+    expect(await linkMatchContract.getPlayerCount(HARD)).to.eq(0);
+  });
+
+  it("should score challenge runs with the session penalties", async function () {
+    await (await linkMatchContract.connect(signers.alice).createChallenge(signers.bob.address, MEDIUM)).wait();
+
+    // Alice: 9 matches in 6s scores 1500; Bob: 18 matches in 6s, +10s power-ups and 2 mismatches
+    // (18s) scores 1000, so the penalties hand Alice the win
+    await submitChallengeRun(linkMatchContract, linkMatchContractAddress, signers.alice, 0, 9, 6);
+    await submitChallengeRun(linkMatchContract, linkMatchContractAddress, signers.bob, 0, 18, 6, 10, 2);
+
+    // Bob's challenge session records the penalty like any other session
+    const [, , , , , , , penaltySeconds] = await linkMatchContract.getSession(1);
+    expect(penaltySeconds).to.eq(10);
+
+    const outcome = await linkMatchContract.getChallengeOutcome(0);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint8, outcome, linkMatchContractAddress, signers.alice)
+    ).to.eq(1n);
+  });
+
+  it("should expire, decline and cap pending challenges", async function () {
+    const maxPending = Number(await linkMatchContract.MAX_PENDING_CHALLENGES());
+    for (let i = 0; i < maxPending; i++) {
+      await (await linkMatchContract.connect(signers.alice).createChallenge(signers.bob.address, EASY)).wait();
+    }
+    await expect(
+      linkMatchContract.connect(signers.alice).createChallenge(signers.bob.address, EASY)
+    ).to.be.revertedWith("Too many pending challenges");
+
+    // Declining frees a slot; only the challenged player can decline, once
+    await expect(linkMatchContract.connect(signers.alice).declineChallenge(0)).to.be.revertedWith(
+      "Not the challenged player"
+    );
+    await (await linkMatchContract.connect(signers.bob).declineChallenge(0)).wait();
+    await expect(linkMatchContract.connect(signers.bob).declineChallenge(0)).to.be.revertedWith(
+      "Challenge already answered"
+    );
+    await expect(linkMatchContract.connect(signers.bob).startChallengeSession(0)).to.be.revertedWith(
+      "Challenge was declined"
+    );
+    await (await linkMatchContract.connect(signers.deployer).createChallenge(signers.bob.address, EASY)).wait();
+
+    // Playing answers a challenge too
+    await (await linkMatchContract.connect(signers.bob).startChallengeSession(1)).wait();
+    await (await linkMatchContract.connect(signers.deployer).createChallenge(signers.bob.address, EASY)).wait();
+
+    // Expired challenges cannot be played any more
+    await time.increase(await linkMatchContract.CHALLENGE_TIMEOUT());
+    await expect(linkMatchContract.connect(signers.alice).startChallengeSession(2)).to.be.revertedWith(
+      "Challenge expired"
+    );
+  });
+
+  it("should publish threshold badges without revealing the score", async function () {
+    // 6 matches in 4s: 1.500 matches/sec reaches bronze and silver, not gold
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 6, 4);
+    await expect(linkMatchContract.getBadges(signers.alice.address, MEDIUM)).to.be.revertedWith(
+      "Player has not claimed badges"
+    );
+
+    await (await linkMatchContract.connect(signers.alice).claimBadges(MEDIUM)).wait();
+
+    const badges = await linkMatchContract.getBadges(signers.alice.address, MEDIUM);
+    const reached: boolean[] = [];
+    for (const badge of badges) {
+      reached.push(await fhevm.publicDecryptEbool(badge));
+    }
+    expect(reached).to.deep.eq([true, true, false]);
+
+    await expect(linkMatchContract.connect(signers.bob).claimBadges(MEDIUM)).to.be.revertedWith(
+      "Player has not submitted a result"
+    );
+  });
+
+  it("should publish encrypted community statistics on a schedule", async function () {
+    await expect(linkMatchContract.publishStats()).to.be.revertedWith("Too few new submissions");
+
+    // Scores 1500, 2500 and 400
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 6, 4);
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.bob, 10, 4);
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.bob, 4, 10, HARD);
+    expect(await linkMatchContract.statsSubmissionCount()).to.eq(3);
+    await expect(linkMatchContract.publishStats()).to.be.revertedWith("Too few new submissions");
+
+    // Scores 500 and 2000 complete the first batch
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 3, 6);
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.bob, 8, 4);
+    await (await linkMatchContract.publishStats()).wait();
+
+    const [scoreSum, scoresAtLeast, submissionCount] = await linkMatchContract.getPublishedStats();
+    expect(submissionCount).to.eq(5);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint64, scoreSum)).to.eq(6900n);
+
+    // Boundaries 500, 1000, 1500, 2000
+    const cumulative: bigint[] = [];
+    for (const handle of scoresAtLeast) {
+      cumulative.push(await fhevm.publicDecryptEuint(FhevmType.euint32, handle));
+    }
+    expect(cumulative).to.deep.eq([4n, 3n, 3n, 2n]);
+
+    // A new batch still waits for the interval to pass
+    for (let i = 0; i < 5; i++) {
+      await submitRun(linkMatchContract, linkMatchContractAddress, signers.bob, 6, 4);
+    }
+    await expect(linkMatchContract.publishStats()).to.be.revertedWith("Stats were published recently");
+    await time.increase(24 * 60 * 60);
+    await (await linkMatchContract.publishStats()).wait();
+
+    // A single new run is never published on its own, however old the last snapshot is
+    await submitRun(linkMatchContract, linkMatchContractAddress, signers.alice, 6, 4);
+    await time.increase(24 * 60 * 60);
+    await expect(linkMatchContract.publishStats()).to.be.revertedWith("Too few new submissions");
+  });
+
+  it("should only accept fresh, unused sessions of the caller", async function () {
+    const sessionId = await startSession(linkMatchContract, signers.alice);
+    const [player, difficulty, boardSeed] = await linkMatchContract.getSession(sessionId);
+    expect(player).to.eq(signers.alice.address);
+    expect(difficulty).to.eq(MEDIUM);
+    expect(boardSeed).to.not.eq(0n);
+
+    // Submitting right away is faster than any plausible game
+    await expect(
+      submitSession(linkMatchContract, linkMatchContractAddress, signers.alice, sessionId, 6, 4)
+    ).to.be.revertedWith("Game finished too fast");
+
+    await time.increase(await linkMatchContract.minGameDuration(MEDIUM));
+    await expect(
+      submitSession(linkMatchContract, linkMatchContractAddress, signers.bob, sessionId, 6, 4)
+    ).to.be.revertedWith("Not your session");
+
+    await submitSession(linkMatchContract, linkMatchContractAddress, signers.alice, sessionId, 6, 4);
+    const [, , , , used, moveLogHash] = await linkMatchContract.getSession(sessionId);
+    expect(used).to.be.true;
+    expect(moveLogHash).to.eq(MOVE_LOG_HASH);
+
+    await expect(
+      submitSession(linkMatchContract, linkMatchContractAddress, signers.alice, sessionId, 6, 4)
+    ).to.be.revertedWith("Session already used");
+
+    const staleSessionId = await startSession(linkMatchContract, signers.alice);
+    await time.increase(2 * 60 * 60);
+    await expect(
+      submitSession(linkMatchContract, linkMatchContractAddress, signers.alice, staleSessionId, 6, 4)
+    ).to.be.revertedWith("Session expired");
+  });
+
+  it("should rank one daily attempt per day and keep streaks", async function () {
+    const DAY = 24 * 60 * 60;
+
+    // Play today's board; 4 matches in 8s is valid and scores 500 on every difficulty
+    async function playDaily(signer: HardhatEthersSigner) {
+      const sessionId = await linkMatchContract.sessionCount();
+      await (await linkMatchContract.connect(signer).startDailySession()).wait();
+      await time.increase(8);
+      await submitSession(linkMatchContract, linkMatchContractAddress, signer, sessionId, 4, 8);
+      return sessionId;
+    }
+
+    // Start right after midnight UTC so the attempts stay within one day
+    await time.increaseTo((Math.floor((await time.latest()) / DAY) + 1) * DAY);
+    const day = await linkMatchContract.currentDay();
+    const difficulty = await linkMatchContract.dailyDifficulty(day);
+    expect(difficulty).to.eq(day % 3n);
+
+    const sessionId = await playDaily(signers.alice);
+    const [, sessionDifficulty, boardSeed, , , , daily] = await linkMatchContract.getSession(sessionId);
+    expect(daily).to.be.true;
+    expect(sessionDifficulty).to.eq(difficulty);
+    expect(boardSeed).to.eq(await linkMatchContract.dailySeed(day));
+
+    expect(await linkMatchContract.hasPlayedDaily(signers.alice.address)).to.be.true;
+    await expect(linkMatchContract.connect(signers.alice).startDailySession()).to.be.revertedWith(
+      "Daily attempt already used"
+    );
+
+    // The result lands on the daily leaderboard only
+    const [players, scores] = await linkMatchContract.getDailyEncryptedScores(day);
+    expect(players).to.deep.eq([signers.alice.address]);
+    const clearScore = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      scores[0],
+      linkMatchContractAddress,
+      signers.alice
+    );
+    expect(clearScore).to.eq(500);
+    expect(await linkMatchContract.hasSubmitted(Number(difficulty), signers.alice.address)).to.be.false;
+
+    expect(await linkMatchContract.getDailyStreak(signers.alice.address)).to.eq(1);
+    await time.increase(DAY);
+    await playDaily(signers.alice);
+    expect(await linkMatchContract.getDailyStreak(signers.alice.address)).to.eq(2);
+
+    // Missing a whole day breaks the streak
+    await time.increase(2 * DAY);
+    expect(await linkMatchContract.getDailyStreak(signers.alice.address)).to.eq(0);
+    await playDaily(signers.alice);
+    expect(await linkMatchContract.getDailyStreak(signers.alice.address)).to.eq(1);
+
+    // Only the owner commits seeds, and only for days that have not started
+    const today = await linkMatchContract.currentDay();
+    const seedHash = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [1234]));
+    await expect(linkMatchContract.connect(signers.bob).commitDailySeed(today + 1n, seedHash)).to.be.revertedWith(
+      "Only owner"
+    );
+    await expect(linkMatchContract.commitDailySeed(today, seedHash)).to.be.revertedWith(
+      "Daily board already revealed"
+    );
+    await (await linkMatchContract.commitDailySeed(today + 1n, seedHash)).wait();
+
+    // The seed stays hidden until its day starts and the owner reveals it
+    await expect(linkMatchContract.dailySeed(today + 1n)).to.be.revertedWith("Daily board not started");
+    await expect(linkMatchContract.revealDailySeed(today + 1n, 1234)).to.be.revertedWith("Daily board not started");
+    await time.increase(DAY);
+    await expect(linkMatchContract.dailySeed(today + 1n)).to.be.revertedWith("Daily seed not revealed");
+    await expect(linkMatchContract.connect(signers.alice).startDailySession()).to.be.revertedWith(
+      "Daily seed not revealed"
+    );
+    await expect(linkMatchContract.revealDailySeed(today + 1n, 4321)).to.be.revertedWith("Invalid seed");
+    await (await linkMatchContract.revealDailySeed(today + 1n, 1234)).wait();
+    expect(await linkMatchContract.dailySeed(today + 1n)).to.eq(1234);
+    await playDaily(signers.alice);
+  });
+
+  it("should count daily runs in the community statistics but not in the run history", async function () {
+    const sessionId = await linkMatchContract.sessionCount();
+    await (await linkMatchContract.connect(signers.alice).startDailySession()).wait();
+    await time.increase(8);
+    await submitSession(linkMatchContract, linkMatchContractAddress, signers.alice, sessionId, 4, 8);
+
+    expect(await linkMatchContract.statsSubmissionCount()).to.eq(1);
+    expect(await linkMatchContract.getPlayerHistoryLength(signers.alice.address)).to.eq(0);
+  });
+});
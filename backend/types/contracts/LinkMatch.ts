@@ -26,107 +26,823 @@ import type {
 export interface LinkMatchInterface extends Interface {
   getFunction(
     nameOrSignature:
+      | "BADGE_TIER_COUNT"
+      | "CHALLENGER_WON"
+      | "CHALLENGE_DRAW"
+      | "CHALLENGE_TIMEOUT"
+      | "DIFFICULTY_COUNT"
+      | "HISTOGRAM_BOUNDARY_COUNT"
+      | "MAX_FRIENDS"
+      | "MAX_PENDING_CHALLENGES"
+      | "MAX_SHARERS"
+      | "MIN_STATS_BATCH"
+      | "MISMATCH_PENALTY_SECONDS"
+      | "OPPONENT_WON"
+      | "SCORE_SCALE"
+      | "SESSION_TIMEOUT"
+      | "STATS_PUBLISH_INTERVAL"
+      | "badgeThreshold"
       | "checkPlayerSubmitted"
+      | "claimBadges"
+      | "commitDailySeed"
+      | "computeMyRank"
       | "confidentialProtocolId"
+      | "createChallenge"
+      | "currentDay"
+      | "currentSeasonId"
+      | "dailyDifficulty"
+      | "dailySeed"
+      | "declineChallenge"
+      | "dropShare"
       | "getAllEncryptedScores"
+      | "getBadges"
+      | "getChallenge"
+      | "getChallengeOutcome"
+      | "getDailyEncryptedScores"
+      | "getDailyStreak"
+      | "getEncryptedScoresPage"
+      | "getFriends"
       | "getPlayerByIndex"
+      | "getPlayerChallenges"
       | "getPlayerCount"
+      | "getPlayerHistory"
+      | "getPlayerHistoryLength"
+      | "getPlayerRank"
       | "getPlayerResult"
+      | "getPlayerResultDetails"
+      | "getPublicScores"
+      | "getPublishedStats"
+      | "getScoresSharedWith"
+      | "getSeason"
+      | "getSeasonEncryptedScores"
+      | "getSeasonEncryptedScoresPage"
+      | "getSeasonPlayerResult"
+      | "getSeasonPublicScores"
+      | "getSession"
+      | "hasBadges"
+      | "hasPlayedDaily"
+      | "hasRank"
       | "hasSubmitted"
-      | "playerResults"
-      | "players"
+      | "histogramBoundary"
+      | "isScorePublic"
+      | "isSharedWith"
+      | "minGameDuration"
+      | "optInPublicScore"
+      | "optOut"
+      | "owner"
+      | "publishStats"
+      | "revealDailySeed"
+      | "revokeShare"
+      | "sessionCount"
+      | "shareScoreWith"
+      | "startChallengeSession"
+      | "startDailySession"
+      | "startSeason"
+      | "startSession"
+      | "statsSubmissionCount"
       | "submitGameResult"
   ): FunctionFragment;
 
   getEvent(
-    nameOrSignatureOrTopic: "GameResultSubmitted" | "LeaderboardUpdated"
+    nameOrSignatureOrTopic:
+      | "BadgesClaimed"
+      | "ChallengeCreated"
+      | "ChallengeDeclined"
+      | "ChallengeResolved"
+      | "ChallengeScoreSubmitted"
+      | "DailyResultSubmitted"
+      | "DailySeedCommitted"
+      | "DailySeedRevealed"
+      | "GameResultSubmitted"
+      | "LeaderboardUpdated"
+      | "PublicScoreOptIn"
+      | "PublicScoreOptOut"
+      | "RankComputed"
+      | "ScoreShareRevoked"
+      | "ScoreShared"
+      | "SeasonStarted"
+      | "SessionStarted"
+      | "StatsPublished"
   ): EventFragment;
 
+  encodeFunctionData(
+    functionFragment: "BADGE_TIER_COUNT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "CHALLENGER_WON",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "CHALLENGE_DRAW",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "CHALLENGE_TIMEOUT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DIFFICULTY_COUNT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "HISTOGRAM_BOUNDARY_COUNT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_FRIENDS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PENDING_CHALLENGES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_SHARERS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_STATS_BATCH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MISMATCH_PENALTY_SECONDS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "OPPONENT_WON",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SCORE_SCALE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SESSION_TIMEOUT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "STATS_PUBLISH_INTERVAL",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "badgeThreshold",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "checkPlayerSubmitted",
-    values: [AddressLike]
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimBadges",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "commitDailySeed",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "computeMyRank",
+    values: [BigNumberish]
   ): string;
   encodeFunctionData(
     functionFragment: "confidentialProtocolId",
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "getAllEncryptedScores",
+    functionFragment: "createChallenge",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentDay",
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "getPlayerByIndex",
+    functionFragment: "currentSeasonId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "dailyDifficulty",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "dailySeed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "declineChallenge",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "dropShare",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAllEncryptedScores",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBadges",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getChallenge",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getChallengeOutcome",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDailyEncryptedScores",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDailyStreak",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedScoresPage",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFriends",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPlayerByIndex",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPlayerChallenges",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "getPlayerCount",
-    values?: undefined
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPlayerHistory",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPlayerHistoryLength",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPlayerRank",
+    values: [AddressLike, BigNumberish]
   ): string;
   encodeFunctionData(
     functionFragment: "getPlayerResult",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPlayerResultDetails",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPublicScores",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPublishedStats",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getScoresSharedWith",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSeason",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSeasonEncryptedScores",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSeasonEncryptedScoresPage",
+    values: [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSeasonPlayerResult",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSeasonPublicScores",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSession",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasBadges",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasPlayedDaily",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "hasRank",
+    values: [BigNumberish, AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "hasSubmitted",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "histogramBoundary",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isScorePublic",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isSharedWith",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minGameDuration",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "optInPublicScore",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "optOut", values?: undefined): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "publishStats",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealDailySeed",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeShare",
     values: [AddressLike]
   ): string;
   encodeFunctionData(
-    functionFragment: "playerResults",
+    functionFragment: "sessionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "shareScoreWith",
     values: [AddressLike]
   ): string;
   encodeFunctionData(
-    functionFragment: "players",
+    functionFragment: "startChallengeSession",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "startDailySession",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "startSeason",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "startSession",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "statsSubmissionCount",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "submitGameResult",
-    values: [BytesLike, BytesLike]
+    values: [
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BigNumberish,
+      BytesLike,
+      BytesLike
+    ]
   ): string;
 
+  decodeFunctionResult(
+    functionFragment: "BADGE_TIER_COUNT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "CHALLENGER_WON",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "CHALLENGE_DRAW",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "CHALLENGE_TIMEOUT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DIFFICULTY_COUNT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "HISTOGRAM_BOUNDARY_COUNT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_FRIENDS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PENDING_CHALLENGES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_SHARERS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_STATS_BATCH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MISMATCH_PENALTY_SECONDS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "OPPONENT_WON",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SCORE_SCALE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SESSION_TIMEOUT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "STATS_PUBLISH_INTERVAL",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "badgeThreshold",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "checkPlayerSubmitted",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimBadges",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "commitDailySeed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "computeMyRank",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "confidentialProtocolId",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "createChallenge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "currentDay", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "currentSeasonId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "dailyDifficulty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "dailySeed", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "declineChallenge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "dropShare", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "getAllEncryptedScores",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "getBadges", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "getPlayerByIndex",
+    functionFragment: "getChallenge",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "getPlayerCount",
+    functionFragment: "getChallengeOutcome",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "getPlayerResult",
+    functionFragment: "getDailyEncryptedScores",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "hasSubmitted",
+    functionFragment: "getDailyStreak",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "playerResults",
+    functionFragment: "getEncryptedScoresPage",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "players", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getFriends", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "submitGameResult",
+    functionFragment: "getPlayerByIndex",
     data: BytesLike
   ): Result;
-}
-
-export namespace GameResultSubmittedEvent {
-  export type InputTuple = [player: AddressLike, timestamp: BigNumberish];
-  export type OutputTuple = [player: string, timestamp: bigint];
-  export interface OutputObject {
+  decodeFunctionResult(
+    functionFragment: "getPlayerChallenges",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPlayerCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPlayerHistory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPlayerHistoryLength",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPlayerRank",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPlayerResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPlayerResultDetails",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPublicScores",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPublishedStats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getScoresSharedWith",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getSeason", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getSeasonEncryptedScores",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSeasonEncryptedScoresPage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSeasonPlayerResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSeasonPublicScores",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getSession", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasBadges", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "hasPlayedDaily",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasRank", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "hasSubmitted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "histogramBoundary",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isScorePublic",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isSharedWith",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "minGameDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "optInPublicScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "optOut", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "publishStats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealDailySeed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeShare",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "sessionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "shareScoreWith",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "startChallengeSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "startDailySession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "startSeason",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "startSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "statsSubmissionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitGameResult",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BadgesClaimedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    difficulty: BigNumberish,
+    seasonId: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    difficulty: bigint,
+    seasonId: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    difficulty: bigint;
+    seasonId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ChallengeCreatedEvent {
+  export type InputTuple = [
+    challengeId: BigNumberish,
+    challenger: AddressLike,
+    opponent: AddressLike,
+    difficulty: BigNumberish
+  ];
+  export type OutputTuple = [
+    challengeId: bigint,
+    challenger: string,
+    opponent: string,
+    difficulty: bigint
+  ];
+  export interface OutputObject {
+    challengeId: bigint;
+    challenger: string;
+    opponent: string;
+    difficulty: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ChallengeDeclinedEvent {
+  export type InputTuple = [challengeId: BigNumberish];
+  export type OutputTuple = [challengeId: bigint];
+  export interface OutputObject {
+    challengeId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ChallengeResolvedEvent {
+  export type InputTuple = [challengeId: BigNumberish];
+  export type OutputTuple = [challengeId: bigint];
+  export interface OutputObject {
+    challengeId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ChallengeScoreSubmittedEvent {
+  export type InputTuple = [challengeId: BigNumberish, player: AddressLike];
+  export type OutputTuple = [challengeId: bigint, player: string];
+  export interface OutputObject {
+    challengeId: bigint;
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DailyResultSubmittedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    day: BigNumberish,
+    streak: BigNumberish
+  ];
+  export type OutputTuple = [player: string, day: bigint, streak: bigint];
+  export interface OutputObject {
+    player: string;
+    day: bigint;
+    streak: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DailySeedCommittedEvent {
+  export type InputTuple = [day: BigNumberish, seedHash: BytesLike];
+  export type OutputTuple = [day: bigint, seedHash: string];
+  export interface OutputObject {
+    day: bigint;
+    seedHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DailySeedRevealedEvent {
+  export type InputTuple = [day: BigNumberish, boardSeed: BigNumberish];
+  export type OutputTuple = [day: bigint, boardSeed: bigint];
+  export interface OutputObject {
+    day: bigint;
+    boardSeed: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GameResultSubmittedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    seasonId: BigNumberish,
+    difficulty: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    seasonId: bigint,
+    difficulty: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
     player: string;
+    seasonId: bigint;
+    difficulty: bigint;
     timestamp: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
@@ -145,6 +861,141 @@ export namespace LeaderboardUpdatedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace PublicScoreOptInEvent {
+  export type InputTuple = [player: AddressLike];
+  export type OutputTuple = [player: string];
+  export interface OutputObject {
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PublicScoreOptOutEvent {
+  export type InputTuple = [player: AddressLike];
+  export type OutputTuple = [player: string];
+  export interface OutputObject {
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RankComputedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    difficulty: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    difficulty: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    difficulty: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScoreShareRevokedEvent {
+  export type InputTuple = [player: AddressLike, friend: AddressLike];
+  export type OutputTuple = [player: string, friend: string];
+  export interface OutputObject {
+    player: string;
+    friend: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScoreSharedEvent {
+  export type InputTuple = [player: AddressLike, friend: AddressLike];
+  export type OutputTuple = [player: string, friend: string];
+  export interface OutputObject {
+    player: string;
+    friend: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SeasonStartedEvent {
+  export type InputTuple = [
+    seasonId: BigNumberish,
+    startTimestamp: BigNumberish,
+    endTimestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    seasonId: bigint,
+    startTimestamp: bigint,
+    endTimestamp: bigint
+  ];
+  export interface OutputObject {
+    seasonId: bigint;
+    startTimestamp: bigint;
+    endTimestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionStartedEvent {
+  export type InputTuple = [
+    sessionId: BigNumberish,
+    player: AddressLike,
+    difficulty: BigNumberish,
+    boardSeed: BigNumberish
+  ];
+  export type OutputTuple = [
+    sessionId: bigint,
+    player: string,
+    difficulty: bigint,
+    boardSeed: bigint
+  ];
+  export interface OutputObject {
+    sessionId: bigint;
+    player: string;
+    difficulty: bigint;
+    boardSeed: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StatsPublishedEvent {
+  export type InputTuple = [
+    submissionCount: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [submissionCount: bigint, timestamp: bigint];
+  export interface OutputObject {
+    submissionCount: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export interface LinkMatch extends BaseContract {
   connect(runner?: ContractRunner | null): LinkMatch;
   waitForDeployment(): Promise<this>;
@@ -188,115 +1039,948 @@ export interface LinkMatch extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
-  checkPlayerSubmitted: TypedContractMethod<
-    [player: AddressLike],
-    [boolean],
-    "view"
-  >;
+  BADGE_TIER_COUNT: TypedContractMethod<[], [bigint], "view">;
 
-  confidentialProtocolId: TypedContractMethod<[], [bigint], "view">;
+  CHALLENGER_WON: TypedContractMethod<[], [bigint], "view">;
 
-  getAllEncryptedScores: TypedContractMethod<
-    [],
+  CHALLENGE_DRAW: TypedContractMethod<[], [bigint], "view">;
+
+  CHALLENGE_TIMEOUT: TypedContractMethod<[], [bigint], "view">;
+
+  DIFFICULTY_COUNT: TypedContractMethod<[], [bigint], "view">;
+
+  HISTOGRAM_BOUNDARY_COUNT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_FRIENDS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_PENDING_CHALLENGES: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_SHARERS: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_STATS_BATCH: TypedContractMethod<[], [bigint], "view">;
+
+  MISMATCH_PENALTY_SECONDS: TypedContractMethod<[], [bigint], "view">;
+
+  OPPONENT_WON: TypedContractMethod<[], [bigint], "view">;
+
+  SCORE_SCALE: TypedContractMethod<[], [bigint], "view">;
+
+  SESSION_TIMEOUT: TypedContractMethod<[], [bigint], "view">;
+
+  STATS_PUBLISH_INTERVAL: TypedContractMethod<[], [bigint], "view">;
+
+  badgeThreshold: TypedContractMethod<[tier: BigNumberish], [bigint], "view">;
+
+  checkPlayerSubmitted: TypedContractMethod<
+    [player: AddressLike, difficulty: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  claimBadges: TypedContractMethod<
+    [difficulty: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  commitDailySeed: TypedContractMethod<
+    [day: BigNumberish, seedHash: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  computeMyRank: TypedContractMethod<
+    [difficulty: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+
+  confidentialProtocolId: TypedContractMethod<[], [bigint], "view">;
+
+  createChallenge: TypedContractMethod<
+    [opponent: AddressLike, difficulty: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  currentDay: TypedContractMethod<[], [bigint], "view">;
+
+  currentSeasonId: TypedContractMethod<[], [bigint], "view">;
+
+  dailyDifficulty: TypedContractMethod<[day: BigNumberish], [bigint], "view">;
+
+  dailySeed: TypedContractMethod<[day: BigNumberish], [bigint], "view">;
+
+  declineChallenge: TypedContractMethod<
+    [challengeId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  dropShare: TypedContractMethod<[player: AddressLike], [void], "nonpayable">;
+
+  getAllEncryptedScores: TypedContractMethod<
+    [difficulty: BigNumberish],
+    [
+      [string[], string[]] & {
+        playerAddresses: string[];
+        encryptedScores: string[];
+      }
+    ],
+    "view"
+  >;
+
+  getBadges: TypedContractMethod<
+    [player: AddressLike, difficulty: BigNumberish],
+    [[string, string, string]],
+    "view"
+  >;
+
+  getChallenge: TypedContractMethod<
+    [challengeId: BigNumberish],
+    [
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        boolean,
+        boolean,
+        boolean
+      ] & {
+        challenger: string;
+        opponent: string;
+        difficulty: bigint;
+        boardSeed: bigint;
+        createdAt: bigint;
+        challengerSubmitted: boolean;
+        opponentSubmitted: boolean;
+        challengerStarted: boolean;
+        opponentStarted: boolean;
+        declined: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getChallengeOutcome: TypedContractMethod<
+    [challengeId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getDailyEncryptedScores: TypedContractMethod<
+    [day: BigNumberish],
+    [
+      [string[], string[]] & {
+        playerAddresses: string[];
+        encryptedScores: string[];
+      }
+    ],
+    "view"
+  >;
+
+  getDailyStreak: TypedContractMethod<[player: AddressLike], [bigint], "view">;
+
+  getEncryptedScoresPage: TypedContractMethod<
+    [difficulty: BigNumberish, offset: BigNumberish, limit: BigNumberish],
+    [
+      [string[], string[], boolean[], bigint, bigint] & {
+        playerAddresses: string[];
+        encryptedScores: string[];
+        publicFlags: boolean[];
+        nextCursor: bigint;
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getFriends: TypedContractMethod<[player: AddressLike], [string[]], "view">;
+
+  getPlayerByIndex: TypedContractMethod<
+    [difficulty: BigNumberish, index: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getPlayerChallenges: TypedContractMethod<
+    [player: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getPlayerCount: TypedContractMethod<
+    [difficulty: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getPlayerHistory: TypedContractMethod<
+    [player: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [
+      [string[], bigint[], bigint[], bigint[]] & {
+        scores: string[];
+        difficulties: bigint[];
+        seasonIds: bigint[];
+        timestamps: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  getPlayerHistoryLength: TypedContractMethod<
+    [player: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getPlayerRank: TypedContractMethod<
+    [player: AddressLike, difficulty: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getPlayerResult: TypedContractMethod<
+    [player: AddressLike, difficulty: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getPlayerResultDetails: TypedContractMethod<
+    [player: AddressLike, difficulty: BigNumberish],
+    [
+      [string, string, string] & {
+        score: string;
+        matches: string;
+        timeSeconds: string;
+      }
+    ],
+    "view"
+  >;
+
+  getPublicScores: TypedContractMethod<
+    [difficulty: BigNumberish],
+    [
+      [string[], string[]] & {
+        playerAddresses: string[];
+        publicScores: string[];
+      }
+    ],
+    "view"
+  >;
+
+  getPublishedStats: TypedContractMethod<
+    [],
+    [
+      [string, [string, string, string, string], bigint, bigint] & {
+        scoreSum: string;
+        scoresAtLeast: [string, string, string, string];
+        submissionCount: bigint;
+        publishedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getScoresSharedWith: TypedContractMethod<
+    [friend: AddressLike, difficulty: BigNumberish],
+    [
+      [string[], string[]] & {
+        playerAddresses: string[];
+        sharedScores: string[];
+      }
+    ],
+    "view"
+  >;
+
+  getSeason: TypedContractMethod<
+    [seasonId: BigNumberish],
+    [[bigint, bigint] & { startTimestamp: bigint; endTimestamp: bigint }],
+    "view"
+  >;
+
+  getSeasonEncryptedScores: TypedContractMethod<
+    [seasonId: BigNumberish, difficulty: BigNumberish],
+    [
+      [string[], string[]] & {
+        playerAddresses: string[];
+        encryptedScores: string[];
+      }
+    ],
+    "view"
+  >;
+
+  getSeasonEncryptedScoresPage: TypedContractMethod<
+    [
+      seasonId: BigNumberish,
+      difficulty: BigNumberish,
+      offset: BigNumberish,
+      limit: BigNumberish
+    ],
+    [
+      [string[], string[], boolean[], bigint, bigint] & {
+        playerAddresses: string[];
+        encryptedScores: string[];
+        publicFlags: boolean[];
+        nextCursor: bigint;
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getSeasonPlayerResult: TypedContractMethod<
+    [seasonId: BigNumberish, player: AddressLike, difficulty: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getSeasonPublicScores: TypedContractMethod<
+    [seasonId: BigNumberish, difficulty: BigNumberish],
+    [
+      [string[], string[]] & {
+        playerAddresses: string[];
+        publicScores: string[];
+      }
+    ],
+    "view"
+  >;
+
+  getSession: TypedContractMethod<
+    [sessionId: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, boolean, string, boolean, bigint] & {
+        player: string;
+        difficulty: bigint;
+        boardSeed: bigint;
+        startedAt: bigint;
+        used: boolean;
+        moveLogHash: string;
+        daily: boolean;
+        penaltySeconds: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  hasBadges: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  hasPlayedDaily: TypedContractMethod<[player: AddressLike], [boolean], "view">;
+
+  hasRank: TypedContractMethod<
+    [difficulty: BigNumberish, player: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  hasSubmitted: TypedContractMethod<
+    [difficulty: BigNumberish, player: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  histogramBoundary: TypedContractMethod<
+    [index: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  isScorePublic: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  isSharedWith: TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  minGameDuration: TypedContractMethod<
+    [difficulty: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  optInPublicScore: TypedContractMethod<[], [void], "nonpayable">;
+
+  optOut: TypedContractMethod<[], [void], "nonpayable">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  publishStats: TypedContractMethod<[], [void], "nonpayable">;
+
+  revealDailySeed: TypedContractMethod<
+    [day: BigNumberish, boardSeed: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeShare: TypedContractMethod<[friend: AddressLike], [void], "nonpayable">;
+
+  sessionCount: TypedContractMethod<[], [bigint], "view">;
+
+  shareScoreWith: TypedContractMethod<
+    [friend: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  startChallengeSession: TypedContractMethod<
+    [challengeId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  startDailySession: TypedContractMethod<[], [bigint], "nonpayable">;
+
+  startSeason: TypedContractMethod<
+    [endTimestamp: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  startSession: TypedContractMethod<
+    [difficulty: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  statsSubmissionCount: TypedContractMethod<[], [bigint], "view">;
+
+  submitGameResult: TypedContractMethod<
+    [
+      sessionId: BigNumberish,
+      encryptedMatches: BytesLike,
+      encryptedTime: BytesLike,
+      encryptedMismatches: BytesLike,
+      moveLogHash: BytesLike,
+      penaltySeconds: BigNumberish,
+      matchesProof: BytesLike,
+      timeProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "BADGE_TIER_COUNT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "CHALLENGER_WON"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "CHALLENGE_DRAW"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "CHALLENGE_TIMEOUT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "DIFFICULTY_COUNT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "HISTOGRAM_BOUNDARY_COUNT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_FRIENDS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_PENDING_CHALLENGES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_SHARERS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_STATS_BATCH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MISMATCH_PENALTY_SECONDS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "OPPONENT_WON"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SCORE_SCALE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SESSION_TIMEOUT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "STATS_PUBLISH_INTERVAL"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "badgeThreshold"
+  ): TypedContractMethod<[tier: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "checkPlayerSubmitted"
+  ): TypedContractMethod<
+    [player: AddressLike, difficulty: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "claimBadges"
+  ): TypedContractMethod<[difficulty: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "commitDailySeed"
+  ): TypedContractMethod<
+    [day: BigNumberish, seedHash: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "computeMyRank"
+  ): TypedContractMethod<[difficulty: BigNumberish], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "confidentialProtocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createChallenge"
+  ): TypedContractMethod<
+    [opponent: AddressLike, difficulty: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "currentDay"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "currentSeasonId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "dailyDifficulty"
+  ): TypedContractMethod<[day: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "dailySeed"
+  ): TypedContractMethod<[day: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "declineChallenge"
+  ): TypedContractMethod<[challengeId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "dropShare"
+  ): TypedContractMethod<[player: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getAllEncryptedScores"
+  ): TypedContractMethod<
+    [difficulty: BigNumberish],
+    [
+      [string[], string[]] & {
+        playerAddresses: string[];
+        encryptedScores: string[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBadges"
+  ): TypedContractMethod<
+    [player: AddressLike, difficulty: BigNumberish],
+    [[string, string, string]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getChallenge"
+  ): TypedContractMethod<
+    [challengeId: BigNumberish],
+    [
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        boolean,
+        boolean,
+        boolean
+      ] & {
+        challenger: string;
+        opponent: string;
+        difficulty: bigint;
+        boardSeed: bigint;
+        createdAt: bigint;
+        challengerSubmitted: boolean;
+        opponentSubmitted: boolean;
+        challengerStarted: boolean;
+        opponentStarted: boolean;
+        declined: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getChallengeOutcome"
+  ): TypedContractMethod<[challengeId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getDailyEncryptedScores"
+  ): TypedContractMethod<
+    [day: BigNumberish],
+    [
+      [string[], string[]] & {
+        playerAddresses: string[];
+        encryptedScores: string[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDailyStreak"
+  ): TypedContractMethod<[player: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedScoresPage"
+  ): TypedContractMethod<
+    [difficulty: BigNumberish, offset: BigNumberish, limit: BigNumberish],
     [
-      [string[], string[]] & {
+      [string[], string[], boolean[], bigint, bigint] & {
         playerAddresses: string[];
         encryptedScores: string[];
+        publicFlags: boolean[];
+        nextCursor: bigint;
+        total: bigint;
       }
     ],
     "view"
   >;
-
-  getPlayerByIndex: TypedContractMethod<
-    [index: BigNumberish],
+  getFunction(
+    nameOrSignature: "getFriends"
+  ): TypedContractMethod<[player: AddressLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getPlayerByIndex"
+  ): TypedContractMethod<
+    [difficulty: BigNumberish, index: BigNumberish],
     [string],
     "view"
   >;
-
-  getPlayerCount: TypedContractMethod<[], [bigint], "view">;
-
-  getPlayerResult: TypedContractMethod<[player: AddressLike], [string], "view">;
-
-  hasSubmitted: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
-
-  playerResults: TypedContractMethod<
-    [arg0: AddressLike],
+  getFunction(
+    nameOrSignature: "getPlayerChallenges"
+  ): TypedContractMethod<[player: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getPlayerCount"
+  ): TypedContractMethod<[difficulty: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getPlayerHistory"
+  ): TypedContractMethod<
+    [player: AddressLike, offset: BigNumberish, limit: BigNumberish],
     [
-      [string, string, bigint] & {
-        score: string;
-        player: string;
-        timestamp: bigint;
+      [string[], bigint[], bigint[], bigint[]] & {
+        scores: string[];
+        difficulties: bigint[];
+        seasonIds: bigint[];
+        timestamps: bigint[];
       }
     ],
     "view"
   >;
-
-  players: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
-
-  submitGameResult: TypedContractMethod<
-    [encryptedScore: BytesLike, scoreProof: BytesLike],
-    [void],
-    "nonpayable"
+  getFunction(
+    nameOrSignature: "getPlayerHistoryLength"
+  ): TypedContractMethod<[player: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getPlayerRank"
+  ): TypedContractMethod<
+    [player: AddressLike, difficulty: BigNumberish],
+    [string],
+    "view"
   >;
-
-  getFunction<T extends ContractMethod = ContractMethod>(
-    key: string | FunctionFragment
-  ): T;
-
   getFunction(
-    nameOrSignature: "checkPlayerSubmitted"
-  ): TypedContractMethod<[player: AddressLike], [boolean], "view">;
+    nameOrSignature: "getPlayerResult"
+  ): TypedContractMethod<
+    [player: AddressLike, difficulty: BigNumberish],
+    [string],
+    "view"
+  >;
   getFunction(
-    nameOrSignature: "confidentialProtocolId"
-  ): TypedContractMethod<[], [bigint], "view">;
+    nameOrSignature: "getPlayerResultDetails"
+  ): TypedContractMethod<
+    [player: AddressLike, difficulty: BigNumberish],
+    [
+      [string, string, string] & {
+        score: string;
+        matches: string;
+        timeSeconds: string;
+      }
+    ],
+    "view"
+  >;
   getFunction(
-    nameOrSignature: "getAllEncryptedScores"
+    nameOrSignature: "getPublicScores"
+  ): TypedContractMethod<
+    [difficulty: BigNumberish],
+    [
+      [string[], string[]] & {
+        playerAddresses: string[];
+        publicScores: string[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPublishedStats"
   ): TypedContractMethod<
     [],
+    [
+      [string, [string, string, string, string], bigint, bigint] & {
+        scoreSum: string;
+        scoresAtLeast: [string, string, string, string];
+        submissionCount: bigint;
+        publishedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getScoresSharedWith"
+  ): TypedContractMethod<
+    [friend: AddressLike, difficulty: BigNumberish],
     [
       [string[], string[]] & {
         playerAddresses: string[];
-        encryptedScores: string[];
+        sharedScores: string[];
       }
     ],
     "view"
   >;
   getFunction(
-    nameOrSignature: "getPlayerByIndex"
-  ): TypedContractMethod<[index: BigNumberish], [string], "view">;
+    nameOrSignature: "getSeason"
+  ): TypedContractMethod<
+    [seasonId: BigNumberish],
+    [[bigint, bigint] & { startTimestamp: bigint; endTimestamp: bigint }],
+    "view"
+  >;
   getFunction(
-    nameOrSignature: "getPlayerCount"
-  ): TypedContractMethod<[], [bigint], "view">;
+    nameOrSignature: "getSeasonEncryptedScores"
+  ): TypedContractMethod<
+    [seasonId: BigNumberish, difficulty: BigNumberish],
+    [
+      [string[], string[]] & {
+        playerAddresses: string[];
+        encryptedScores: string[];
+      }
+    ],
+    "view"
+  >;
   getFunction(
-    nameOrSignature: "getPlayerResult"
-  ): TypedContractMethod<[player: AddressLike], [string], "view">;
+    nameOrSignature: "getSeasonEncryptedScoresPage"
+  ): TypedContractMethod<
+    [
+      seasonId: BigNumberish,
+      difficulty: BigNumberish,
+      offset: BigNumberish,
+      limit: BigNumberish
+    ],
+    [
+      [string[], string[], boolean[], bigint, bigint] & {
+        playerAddresses: string[];
+        encryptedScores: string[];
+        publicFlags: boolean[];
+        nextCursor: bigint;
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
   getFunction(
-    nameOrSignature: "hasSubmitted"
-  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+    nameOrSignature: "getSeasonPlayerResult"
+  ): TypedContractMethod<
+    [seasonId: BigNumberish, player: AddressLike, difficulty: BigNumberish],
+    [string],
+    "view"
+  >;
   getFunction(
-    nameOrSignature: "playerResults"
+    nameOrSignature: "getSeasonPublicScores"
   ): TypedContractMethod<
-    [arg0: AddressLike],
+    [seasonId: BigNumberish, difficulty: BigNumberish],
     [
-      [string, string, bigint] & {
-        score: string;
+      [string[], string[]] & {
+        playerAddresses: string[];
+        publicScores: string[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSession"
+  ): TypedContractMethod<
+    [sessionId: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, boolean, string, boolean, bigint] & {
         player: string;
-        timestamp: bigint;
+        difficulty: bigint;
+        boardSeed: bigint;
+        startedAt: bigint;
+        used: boolean;
+        moveLogHash: string;
+        daily: boolean;
+        penaltySeconds: bigint;
       }
     ],
     "view"
   >;
   getFunction(
-    nameOrSignature: "players"
-  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+    nameOrSignature: "hasBadges"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasPlayedDaily"
+  ): TypedContractMethod<[player: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "hasRank"
+  ): TypedContractMethod<
+    [difficulty: BigNumberish, player: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasSubmitted"
+  ): TypedContractMethod<
+    [difficulty: BigNumberish, player: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "histogramBoundary"
+  ): TypedContractMethod<[index: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "isScorePublic"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isSharedWith"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "minGameDuration"
+  ): TypedContractMethod<[difficulty: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "optInPublicScore"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "optOut"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "publishStats"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealDailySeed"
+  ): TypedContractMethod<
+    [day: BigNumberish, boardSeed: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeShare"
+  ): TypedContractMethod<[friend: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "sessionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "shareScoreWith"
+  ): TypedContractMethod<[friend: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "startChallengeSession"
+  ): TypedContractMethod<[challengeId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "startDailySession"
+  ): TypedContractMethod<[], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "startSeason"
+  ): TypedContractMethod<[endTimestamp: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "startSession"
+  ): TypedContractMethod<[difficulty: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "statsSubmissionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "submitGameResult"
   ): TypedContractMethod<
-    [encryptedScore: BytesLike, scoreProof: BytesLike],
+    [
+      sessionId: BigNumberish,
+      encryptedMatches: BytesLike,
+      encryptedTime: BytesLike,
+      encryptedMismatches: BytesLike,
+      moveLogHash: BytesLike,
+      penaltySeconds: BigNumberish,
+      matchesProof: BytesLike,
+      timeProof: BytesLike
+    ],
     [void],
     "nonpayable"
   >;
 
+  getEvent(
+    key: "BadgesClaimed"
+  ): TypedContractEvent<
+    BadgesClaimedEvent.InputTuple,
+    BadgesClaimedEvent.OutputTuple,
+    BadgesClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ChallengeCreated"
+  ): TypedContractEvent<
+    ChallengeCreatedEvent.InputTuple,
+    ChallengeCreatedEvent.OutputTuple,
+    ChallengeCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ChallengeDeclined"
+  ): TypedContractEvent<
+    ChallengeDeclinedEvent.InputTuple,
+    ChallengeDeclinedEvent.OutputTuple,
+    ChallengeDeclinedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ChallengeResolved"
+  ): TypedContractEvent<
+    ChallengeResolvedEvent.InputTuple,
+    ChallengeResolvedEvent.OutputTuple,
+    ChallengeResolvedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ChallengeScoreSubmitted"
+  ): TypedContractEvent<
+    ChallengeScoreSubmittedEvent.InputTuple,
+    ChallengeScoreSubmittedEvent.OutputTuple,
+    ChallengeScoreSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DailyResultSubmitted"
+  ): TypedContractEvent<
+    DailyResultSubmittedEvent.InputTuple,
+    DailyResultSubmittedEvent.OutputTuple,
+    DailyResultSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DailySeedCommitted"
+  ): TypedContractEvent<
+    DailySeedCommittedEvent.InputTuple,
+    DailySeedCommittedEvent.OutputTuple,
+    DailySeedCommittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DailySeedRevealed"
+  ): TypedContractEvent<
+    DailySeedRevealedEvent.InputTuple,
+    DailySeedRevealedEvent.OutputTuple,
+    DailySeedRevealedEvent.OutputObject
+  >;
   getEvent(
     key: "GameResultSubmitted"
   ): TypedContractEvent<
@@ -311,9 +1995,153 @@ export interface LinkMatch extends BaseContract {
     LeaderboardUpdatedEvent.OutputTuple,
     LeaderboardUpdatedEvent.OutputObject
   >;
+  getEvent(
+    key: "PublicScoreOptIn"
+  ): TypedContractEvent<
+    PublicScoreOptInEvent.InputTuple,
+    PublicScoreOptInEvent.OutputTuple,
+    PublicScoreOptInEvent.OutputObject
+  >;
+  getEvent(
+    key: "PublicScoreOptOut"
+  ): TypedContractEvent<
+    PublicScoreOptOutEvent.InputTuple,
+    PublicScoreOptOutEvent.OutputTuple,
+    PublicScoreOptOutEvent.OutputObject
+  >;
+  getEvent(
+    key: "RankComputed"
+  ): TypedContractEvent<
+    RankComputedEvent.InputTuple,
+    RankComputedEvent.OutputTuple,
+    RankComputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScoreShareRevoked"
+  ): TypedContractEvent<
+    ScoreShareRevokedEvent.InputTuple,
+    ScoreShareRevokedEvent.OutputTuple,
+    ScoreShareRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScoreShared"
+  ): TypedContractEvent<
+    ScoreSharedEvent.InputTuple,
+    ScoreSharedEvent.OutputTuple,
+    ScoreSharedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SeasonStarted"
+  ): TypedContractEvent<
+    SeasonStartedEvent.InputTuple,
+    SeasonStartedEvent.OutputTuple,
+    SeasonStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionStarted"
+  ): TypedContractEvent<
+    SessionStartedEvent.InputTuple,
+    SessionStartedEvent.OutputTuple,
+    SessionStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StatsPublished"
+  ): TypedContractEvent<
+    StatsPublishedEvent.InputTuple,
+    StatsPublishedEvent.OutputTuple,
+    StatsPublishedEvent.OutputObject
+  >;
 
   filters: {
-    "GameResultSubmitted(address,uint256)": TypedContractEvent<
+    "BadgesClaimed(address,uint8,uint256)": TypedContractEvent<
+      BadgesClaimedEvent.InputTuple,
+      BadgesClaimedEvent.OutputTuple,
+      BadgesClaimedEvent.OutputObject
+    >;
+    BadgesClaimed: TypedContractEvent<
+      BadgesClaimedEvent.InputTuple,
+      BadgesClaimedEvent.OutputTuple,
+      BadgesClaimedEvent.OutputObject
+    >;
+
+    "ChallengeCreated(uint256,address,address,uint8)": TypedContractEvent<
+      ChallengeCreatedEvent.InputTuple,
+      ChallengeCreatedEvent.OutputTuple,
+      ChallengeCreatedEvent.OutputObject
+    >;
+    ChallengeCreated: TypedContractEvent<
+      ChallengeCreatedEvent.InputTuple,
+      ChallengeCreatedEvent.OutputTuple,
+      ChallengeCreatedEvent.OutputObject
+    >;
+
+    "ChallengeDeclined(uint256)": TypedContractEvent<
+      ChallengeDeclinedEvent.InputTuple,
+      ChallengeDeclinedEvent.OutputTuple,
+      ChallengeDeclinedEvent.OutputObject
+    >;
+    ChallengeDeclined: TypedContractEvent<
+      ChallengeDeclinedEvent.InputTuple,
+      ChallengeDeclinedEvent.OutputTuple,
+      ChallengeDeclinedEvent.OutputObject
+    >;
+
+    "ChallengeResolved(uint256)": TypedContractEvent<
+      ChallengeResolvedEvent.InputTuple,
+      ChallengeResolvedEvent.OutputTuple,
+      ChallengeResolvedEvent.OutputObject
+    >;
+    ChallengeResolved: TypedContractEvent<
+      ChallengeResolvedEvent.InputTuple,
+      ChallengeResolvedEvent.OutputTuple,
+      ChallengeResolvedEvent.OutputObject
+    >;
+
+    "ChallengeScoreSubmitted(uint256,address)": TypedContractEvent<
+      ChallengeScoreSubmittedEvent.InputTuple,
+      ChallengeScoreSubmittedEvent.OutputTuple,
+      ChallengeScoreSubmittedEvent.OutputObject
+    >;
+    ChallengeScoreSubmitted: TypedContractEvent<
+      ChallengeScoreSubmittedEvent.InputTuple,
+      ChallengeScoreSubmittedEvent.OutputTuple,
+      ChallengeScoreSubmittedEvent.OutputObject
+    >;
+
+    "DailyResultSubmitted(address,uint256,uint256)": TypedContractEvent<
+      DailyResultSubmittedEvent.InputTuple,
+      DailyResultSubmittedEvent.OutputTuple,
+      DailyResultSubmittedEvent.OutputObject
+    >;
+    DailyResultSubmitted: TypedContractEvent<
+      DailyResultSubmittedEvent.InputTuple,
+      DailyResultSubmittedEvent.OutputTuple,
+      DailyResultSubmittedEvent.OutputObject
+    >;
+
+    "DailySeedCommitted(uint256,bytes32)": TypedContractEvent<
+      DailySeedCommittedEvent.InputTuple,
+      DailySeedCommittedEvent.OutputTuple,
+      DailySeedCommittedEvent.OutputObject
+    >;
+    DailySeedCommitted: TypedContractEvent<
+      DailySeedCommittedEvent.InputTuple,
+      DailySeedCommittedEvent.OutputTuple,
+      DailySeedCommittedEvent.OutputObject
+    >;
+
+    "DailySeedRevealed(uint256,uint256)": TypedContractEvent<
+      DailySeedRevealedEvent.InputTuple,
+      DailySeedRevealedEvent.OutputTuple,
+      DailySeedRevealedEvent.OutputObject
+    >;
+    DailySeedRevealed: TypedContractEvent<
+      DailySeedRevealedEvent.InputTuple,
+      DailySeedRevealedEvent.OutputTuple,
+      DailySeedRevealedEvent.OutputObject
+    >;
+
+    "GameResultSubmitted(address,uint256,uint8,uint256)": TypedContractEvent<
       GameResultSubmittedEvent.InputTuple,
       GameResultSubmittedEvent.OutputTuple,
       GameResultSubmittedEvent.OutputObject
@@ -334,5 +2162,93 @@ export interface LinkMatch extends BaseContract {
       LeaderboardUpdatedEvent.OutputTuple,
       LeaderboardUpdatedEvent.OutputObject
     >;
+
+    "PublicScoreOptIn(address)": TypedContractEvent<
+      PublicScoreOptInEvent.InputTuple,
+      PublicScoreOptInEvent.OutputTuple,
+      PublicScoreOptInEvent.OutputObject
+    >;
+    PublicScoreOptIn: TypedContractEvent<
+      PublicScoreOptInEvent.InputTuple,
+      PublicScoreOptInEvent.OutputTuple,
+      PublicScoreOptInEvent.OutputObject
+    >;
+
+    "PublicScoreOptOut(address)": TypedContractEvent<
+      PublicScoreOptOutEvent.InputTuple,
+      PublicScoreOptOutEvent.OutputTuple,
+      PublicScoreOptOutEvent.OutputObject
+    >;
+    PublicScoreOptOut: TypedContractEvent<
+      PublicScoreOptOutEvent.InputTuple,
+      PublicScoreOptOutEvent.OutputTuple,
+      PublicScoreOptOutEvent.OutputObject
+    >;
+
+    "RankComputed(address,uint8,uint256)": TypedContractEvent<
+      RankComputedEvent.InputTuple,
+      RankComputedEvent.OutputTuple,
+      RankComputedEvent.OutputObject
+    >;
+    RankComputed: TypedContractEvent<
+      RankComputedEvent.InputTuple,
+      RankComputedEvent.OutputTuple,
+      RankComputedEvent.OutputObject
+    >;
+
+    "ScoreShareRevoked(address,address)": TypedContractEvent<
+      ScoreShareRevokedEvent.InputTuple,
+      ScoreShareRevokedEvent.OutputTuple,
+      ScoreShareRevokedEvent.OutputObject
+    >;
+    ScoreShareRevoked: TypedContractEvent<
+      ScoreShareRevokedEvent.InputTuple,
+      ScoreShareRevokedEvent.OutputTuple,
+      ScoreShareRevokedEvent.OutputObject
+    >;
+
+    "ScoreShared(address,address)": TypedContractEvent<
+      ScoreSharedEvent.InputTuple,
+      ScoreSharedEvent.OutputTuple,
+      ScoreSharedEvent.OutputObject
+    >;
+    ScoreShared: TypedContractEvent<
+      ScoreSharedEvent.InputTuple,
+      ScoreSharedEvent.OutputTuple,
+      ScoreSharedEvent.OutputObject
+    >;
+
+    "SeasonStarted(uint256,uint256,uint256)": TypedContractEvent<
+      SeasonStartedEvent.InputTuple,
+      SeasonStartedEvent.OutputTuple,
+      SeasonStartedEvent.OutputObject
+    >;
+    SeasonStarted: TypedContractEvent<
+      SeasonStartedEvent.InputTuple,
+      SeasonStartedEvent.OutputTuple,
+      SeasonStartedEvent.OutputObject
+    >;
+
+    "SessionStarted(uint256,address,uint8,uint256)": TypedContractEvent<
+      SessionStartedEvent.InputTuple,
+      SessionStartedEvent.OutputTuple,
+      SessionStartedEvent.OutputObject
+    >;
+    SessionStarted: TypedContractEvent<
+      SessionStartedEvent.InputTuple,
+      SessionStartedEvent.OutputTuple,
+      SessionStartedEvent.OutputObject
+    >;
+
+    "StatsPublished(uint256,uint256)": TypedContractEvent<
+      StatsPublishedEvent.InputTuple,
+      StatsPublishedEvent.OutputTuple,
+      StatsPublishedEvent.OutputObject
+    >;
+    StatsPublished: TypedContractEvent<
+      StatsPublishedEvent.InputTuple,
+      StatsPublishedEvent.OutputTuple,
+      StatsPublishedEvent.OutputObject
+    >;
   };
 }
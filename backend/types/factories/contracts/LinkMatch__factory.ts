@@ -12,35 +12,1568 @@ import type { NonPayableOverrides } from "../../common";
 import type { LinkMatch, LinkMatchInterface } from "../../contracts/LinkMatch";
 
 const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
   {
     inputs: [],
     name: "ZamaProtocolUnsupported",
     type: "error",
   },
   {
-    anonymous: false,
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "seasonId",
+        type: "uint256",
+      },
+    ],
+    name: "BadgesClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "challenger",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "opponent",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "ChallengeCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+    ],
+    name: "ChallengeDeclined",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+    ],
+    name: "ChallengeResolved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "ChallengeScoreSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "day",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "streak",
+        type: "uint256",
+      },
+    ],
+    name: "DailyResultSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "day",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "seedHash",
+        type: "bytes32",
+      },
+    ],
+    name: "DailySeedCommitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "day",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "boardSeed",
+        type: "uint256",
+      },
+    ],
+    name: "DailySeedRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "seasonId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "GameResultSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "LeaderboardUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "PublicScoreOptIn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "PublicScoreOptOut",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "RankComputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "friend",
+        type: "address",
+      },
+    ],
+    name: "ScoreShareRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "friend",
+        type: "address",
+      },
+    ],
+    name: "ScoreShared",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "seasonId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "startTimestamp",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "endTimestamp",
+        type: "uint256",
+      },
+    ],
+    name: "SeasonStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "boardSeed",
+        type: "uint256",
+      },
+    ],
+    name: "SessionStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "submissionCount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "StatsPublished",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "BADGE_TIER_COUNT",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "CHALLENGER_WON",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "CHALLENGE_DRAW",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "CHALLENGE_TIMEOUT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DIFFICULTY_COUNT",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "HISTOGRAM_BOUNDARY_COUNT",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_FRIENDS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PENDING_CHALLENGES",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_SHARERS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_STATS_BATCH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MISMATCH_PENALTY_SECONDS",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "OPPONENT_WON",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SCORE_SCALE",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SESSION_TIMEOUT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "STATS_PUBLISH_INTERVAL",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "tier",
+        type: "uint8",
+      },
+    ],
+    name: "badgeThreshold",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "checkPlayerSubmitted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "claimBadges",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "day",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "seedHash",
+        type: "bytes32",
+      },
+    ],
+    name: "commitDailySeed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "computeMyRank",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "rank",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "confidentialProtocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "opponent",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "createChallenge",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentDay",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentSeasonId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "day",
+        type: "uint256",
+      },
+    ],
+    name: "dailyDifficulty",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "day",
+        type: "uint256",
+      },
+    ],
+    name: "dailySeed",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+    ],
+    name: "declineChallenge",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "dropShare",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "getAllEncryptedScores",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "playerAddresses",
+        type: "address[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "encryptedScores",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "getBadges",
+    outputs: [
+      {
+        internalType: "ebool[3]",
+        name: "",
+        type: "bytes32[3]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+    ],
+    name: "getChallenge",
+    outputs: [
+      {
+        internalType: "address",
+        name: "challenger",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "opponent",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "boardSeed",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "challengerSubmitted",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "opponentSubmitted",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "challengerStarted",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "opponentStarted",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "declined",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+    ],
+    name: "getChallengeOutcome",
+    outputs: [
+      {
+        internalType: "euint8",
+        name: "outcome",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "day",
+        type: "uint256",
+      },
+    ],
+    name: "getDailyEncryptedScores",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "playerAddresses",
+        type: "address[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "encryptedScores",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "getDailyStreak",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedScoresPage",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "playerAddresses",
+        type: "address[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "encryptedScores",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bool[]",
+        name: "publicFlags",
+        type: "bool[]",
+      },
+      {
+        internalType: "uint256",
+        name: "nextCursor",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "getFriends",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "getPlayerByIndex",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "getPlayerChallenges",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "getPlayerCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getPlayerHistory",
+    outputs: [
+      {
+        internalType: "euint32[]",
+        name: "scores",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "uint8[]",
+        name: "difficulties",
+        type: "uint8[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "seasonIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "timestamps",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "getPlayerHistoryLength",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "getPlayerRank",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "rank",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "getPlayerResult",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "score",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "getPlayerResultDetails",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "score",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "matches",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "timeSeconds",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "getPublicScores",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "playerAddresses",
+        type: "address[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "publicScores",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getPublishedStats",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "scoreSum",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32[4]",
+        name: "scoresAtLeast",
+        type: "bytes32[4]",
+      },
+      {
+        internalType: "uint256",
+        name: "submissionCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "publishedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "friend",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "getScoresSharedWith",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "playerAddresses",
+        type: "address[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "sharedScores",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "seasonId",
+        type: "uint256",
+      },
+    ],
+    name: "getSeason",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "startTimestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "endTimestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "seasonId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "getSeasonEncryptedScores",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "playerAddresses",
+        type: "address[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "encryptedScores",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "seasonId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getSeasonEncryptedScoresPage",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "playerAddresses",
+        type: "address[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "encryptedScores",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bool[]",
+        name: "publicFlags",
+        type: "bool[]",
+      },
+      {
+        internalType: "uint256",
+        name: "nextCursor",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "seasonId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "getSeasonPlayerResult",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "score",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "seasonId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "getSeasonPublicScores",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "playerAddresses",
+        type: "address[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "publicScores",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    name: "getSession",
+    outputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "boardSeed",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "startedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "used",
+        type: "bool",
+      },
+      {
+        internalType: "bytes32",
+        name: "moveLogHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "daily",
+        type: "bool",
+      },
+      {
+        internalType: "uint16",
+        name: "penaltySeconds",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
     inputs: [
       {
-        indexed: true,
         internalType: "address",
-        name: "player",
+        name: "",
         type: "address",
       },
       {
-        indexed: false,
-        internalType: "uint256",
-        name: "timestamp",
-        type: "uint256",
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
       },
     ],
-    name: "GameResultSubmitted",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [],
-    name: "LeaderboardUpdated",
-    type: "event",
+    name: "hasBadges",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
   },
   {
     inputs: [
@@ -50,7 +1583,7 @@ const _abi = [
         type: "address",
       },
     ],
-    name: "checkPlayerSubmitted",
+    name: "hasPlayedDaily",
     outputs: [
       {
         internalType: "bool",
@@ -62,31 +1595,48 @@ const _abi = [
     type: "function",
   },
   {
-    inputs: [],
-    name: "confidentialProtocolId",
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "hasRank",
     outputs: [
       {
-        internalType: "uint256",
+        internalType: "bool",
         name: "",
-        type: "uint256",
+        type: "bool",
       },
     ],
     stateMutability: "view",
     type: "function",
   },
   {
-    inputs: [],
-    name: "getAllEncryptedScores",
-    outputs: [
+    inputs: [
       {
-        internalType: "address[]",
-        name: "playerAddresses",
-        type: "address[]",
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
       },
       {
-        internalType: "euint32[]",
-        name: "encryptedScores",
-        type: "bytes32[]",
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "hasSubmitted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
       },
     ],
     stateMutability: "view",
@@ -95,30 +1645,36 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "uint256",
+        internalType: "uint8",
         name: "index",
-        type: "uint256",
+        type: "uint8",
       },
     ],
-    name: "getPlayerByIndex",
+    name: "histogramBoundary",
     outputs: [
       {
-        internalType: "address",
+        internalType: "uint32",
         name: "",
-        type: "address",
+        type: "uint32",
       },
     ],
-    stateMutability: "view",
+    stateMutability: "pure",
     type: "function",
   },
   {
-    inputs: [],
-    name: "getPlayerCount",
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isScorePublic",
     outputs: [
       {
-        internalType: "uint256",
+        internalType: "bool",
         name: "",
-        type: "uint256",
+        type: "bool",
       },
     ],
     stateMutability: "view",
@@ -128,16 +1684,21 @@ const _abi = [
     inputs: [
       {
         internalType: "address",
-        name: "player",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
         type: "address",
       },
     ],
-    name: "getPlayerResult",
+    name: "isSharedWith",
     outputs: [
       {
-        internalType: "euint32",
-        name: "score",
-        type: "bytes32",
+        internalType: "bool",
+        name: "",
+        type: "bool",
       },
     ],
     stateMutability: "view",
@@ -146,65 +1707,185 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "address",
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "minGameDuration",
+    outputs: [
+      {
+        internalType: "uint32",
         name: "",
-        type: "address",
+        type: "uint32",
       },
     ],
-    name: "hasSubmitted",
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "optInPublicScore",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "optOut",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
     outputs: [
       {
-        internalType: "bool",
+        internalType: "address",
         name: "",
-        type: "bool",
+        type: "address",
       },
     ],
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "publishStats",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "day",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "boardSeed",
+        type: "uint256",
+      },
+    ],
+    name: "revealDailySeed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
         internalType: "address",
-        name: "",
+        name: "friend",
         type: "address",
       },
     ],
-    name: "playerResults",
+    name: "revokeShare",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "sessionCount",
     outputs: [
       {
-        internalType: "euint32",
-        name: "score",
-        type: "bytes32",
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "address",
-        name: "player",
+        name: "friend",
         type: "address",
       },
+    ],
+    name: "shareScoreWith",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "timestamp",
+        name: "challengeId",
         type: "uint256",
       },
     ],
-    stateMutability: "view",
+    name: "startChallengeSession",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "startDailySession",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
       {
         internalType: "uint256",
-        name: "",
+        name: "endTimestamp",
         type: "uint256",
       },
     ],
-    name: "players",
+    name: "startSeason",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+    ],
+    name: "startSession",
     outputs: [
       {
-        internalType: "address",
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "statsSubmissionCount",
+    outputs: [
+      {
+        internalType: "uint256",
         name: "",
-        type: "address",
+        type: "uint256",
       },
     ],
     stateMutability: "view",
@@ -212,14 +1893,44 @@ const _abi = [
   },
   {
     inputs: [
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedMatches",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedTime",
+        type: "bytes32",
+      },
       {
         internalType: "externalEuint32",
-        name: "encryptedScore",
+        name: "encryptedMismatches",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "moveLogHash",
         type: "bytes32",
       },
+      {
+        internalType: "uint16",
+        name: "penaltySeconds",
+        type: "uint16",
+      },
+      {
+        internalType: "bytes",
+        name: "matchesProof",
+        type: "bytes",
+      },
       {
         internalType: "bytes",
-        name: "scoreProof",
+        name: "timeProof",
         type: "bytes",
       },
     ],
@@ -231,7 +1942,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x608060405234801561000f575f5ffd5b506100c461001b6100c9565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054909216921691909117905550565b610238565b604080516060810182525f808252602082018190529181019190915246600103610122575060408051606080820183525f8083526020808401829052928401819052835191820184528082529181018290529182015290565b4662aa36a7036101a1575060408051606080820183525f8083526020808401829052928401528251908101835273f0ffdc93b7e186bc2f8cb3daa75d86d1930a433d81527392c920834ec8941d2c77d188936e1f7a6f49c1279181019190915273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a9181019190915290565b46617a690361021f575060408051606080820183525f8083526020808401829052928401528251908101835273f0ffdc93b7e186bc2f8cb3daa75d86d1930a433d81527392c920834ec8941d2c77d188936e1f7a6f49c1279181019190915273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a9181019190915290565b6040516373cac13b60e01b815260040160405180910390fd5b610cb9806102455f395ff3fe608060405234801561000f575f5ffd5b50600436106100b9575f3560e01c80639c03b71211610072578063ca64f00f11610058578063ca64f00f146101ae578063f48f0d8d146101d9578063f71d96cb14610204575f5ffd5b80639c03b71214610193578063c2e52206146101a6575f5ffd5b8063388044b3116100a2578063388044b3146100f15780638668ea04146101235780638927b0301461017d575f5ffd5b80630755cee8146100bd5780631ebb4e09146100d2575b5f5ffd5b6100d06100cb366004610aa2565b610217565b005b6100da610408565b6040516100e8929190610b19565b60405180910390f35b6101136100ff366004610ba2565b60026020525f908152604090205460ff1681565b60405190151581526020016100e8565b61015a610131366004610ba2565b5f6020819052908152604090208054600182015460029092015490916001600160a01b03169083565b604080519384526001600160a01b039092166020840152908201526060016100e8565b610185610540565b6040519081526020016100e8565b6101856101a1366004610ba2565b61054e565b600154610185565b6101136101bc366004610ba2565b6001600160a01b03165f9081526002602052604090205460ff1690565b6101ec6101e7366004610bc8565b610605565b6040516001600160a01b0390911681526020016100e8565b6101ec610212366004610bc8565b610685565b5f6102578484848080601f0160208091040260200160405190810160405280939291908181526020018383808284375f920191909152506106ad92505050565b9050610262816106c1565b5061026d81336106d0565b50335f9081526002602052604090205460ff16610334576001805480820182557fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf60180543373ffffffffffffffffffffffffffffffffffffffff1991821681179092555f828152600260208181526040808420805460ff191688179055805160608101825288815280830187815242828401908152978652928590529320925183555194820180549093166001600160a01b039095169490941790915590519101556103cd565b335f908152602081905260408120549061034e83836106e2565b60408051606081018252828152336020808301828152428486019081525f938452918390529390912091518255915160018201805473ffffffffffffffffffffffffffffffffffffffff19166001600160a01b03909216919091179055905160029091015590506103be816106c1565b506103c981336106d0565b5050505b60405142815233907f8cae6b8524674026cf093405a12b6b5eb4cddba202fe337bf18fdd10f6eb045e9060200160405180910390a250505050565b60015460609081908067ffffffffffffffff81111561042957610429610bdf565b604051908082528060200260200182016040528015610452578160200160208202803683370190505b5092508067ffffffffffffffff81111561046e5761046e610bdf565b604051908082528060200260200182016040528015610497578160200160208202803683370190505b5091505f5b8181101561053a575f600182815481106104b8576104b8610bf3565b905f5260205f20015f9054906101000a90046001600160a01b03169050808583815181106104e8576104e8610bf3565b6001600160a01b039283166020918202929092018101919091529082165f908152908190526040902054845185908490811061052657610526610bf3565b60209081029190910101525060010161049c565b50509091565b5f610549610710565b905090565b6001600160a01b0381165f9081526002602052604081205460ff166105c45760405162461bcd60e51b815260206004820152602160248201527f506c6179657220686173206e6f74207375626d6974746564206120726573756c6044820152601d60fa1b60648201526084015b60405180910390fd5b506001600160a01b039081165f9081526020818152604091829020825160608101845281548082526001830154909516928101929092526002015491015290565b6001545f9082106106585760405162461bcd60e51b815260206004820152601360248201527f496e646578206f7574206f6620626f756e64730000000000000000000000000060448201526064016105bb565b6001828154811061066b5761066b610bf3565b5f918252602090912001546001600160a01b031692915050565b60018181548110610694575f80fd5b5f918252602090912001546001600160a01b0316905081565b5f6106ba83836004610744565b9392505050565b5f6106cc8230610864565b5090565b5f6106db8383610864565b5090919050565b5f826106f4576106f15f6108ed565b92505b81610705576107025f6108ed565b91505b6106ba83835f610905565b5f4660010361071f5750600190565b4662aa36a703610730575061271190565b46617a690361073f57505f1990565b505f90565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163045fc19560e11b81525f917f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b03909116906308bf832a906107bd908890339089908990600401610c27565b6020604051808303815f875af11580156107d9573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906107fd9190610c81565b8154604051630f8e573b60e21b8152600481018390523360248201529193506001600160a01b031690633e395cec906044015f604051808303815f87803b158015610846575f5ffd5b505af1158015610858573d5f5f3e3d5ffd5b50505050509392505050565b5f7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497008054604051635ca4b5b160e11b8152600481018690526001600160a01b03858116602483015292935091169063b9496b62906044015f604051808303815f87803b1580156108d2575f5ffd5b505af11580156108e4573d5f5f3e3d5ffd5b50505050505050565b5f6108ff8263ffffffff1660046109e5565b92915050565b5f5f82156109185750600160f81b61091b565b505f5b5f7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497006001810154604051630d8c635960e21b815260048101899052602481018890527fff00000000000000000000000000000000000000000000000000000000000000851660448201529192506001600160a01b0316906336318d64906064016020604051808303815f875af11580156109b7573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906109db9190610c81565b9695505050505050565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f917f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b0390911690639cd07acb90610a5a9087908790600401610c98565b6020604051808303815f875af1158015610a76573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610a9a9190610c81565b949350505050565b5f5f5f60408486031215610ab4575f5ffd5b83359250602084013567ffffffffffffffff811115610ad1575f5ffd5b8401601f81018613610ae1575f5ffd5b803567ffffffffffffffff811115610af7575f5ffd5b866020828401011115610b08575f5ffd5b939660209190910195509293505050565b604080825283519082018190525f9060208501906060840190835b81811015610b5b5783516001600160a01b0316835260209384019390920191600101610b34565b5050838103602080860191909152855180835291810192508501905f5b81811015610b96578251845260209384019390920191600101610b78565b50919695505050505050565b5f60208284031215610bb2575f5ffd5b81356001600160a01b03811681146106ba575f5ffd5b5f60208284031215610bd8575f5ffd5b5035919050565b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52603260045260245ffd5b60548110610c2357634e487b7160e01b5f52602160045260245ffd5b9052565b8481526001600160a01b0384166020820152608060408201525f8351806080840152806020860160a085015e5f60a0828501015260a0601f19601f830116840101915050610c786060830184610c07565b95945050505050565b5f60208284031215610c91575f5ffd5b5051919050565b828152604081016106ba6020830184610c0756fea164736f6c634300081b000a";
+  "0x608060405234801561000f575f5ffd5b506100c461001b61017a565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054909216921691909117905550565b5f80546001600160a01b031916331781556040805160608101825282815242602082019081529181018381526001805480820182559452905160039093027fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf681019390935590517fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf7830155517fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf8909101556102e9565b604080516060810182525f8082526020820181905291810191909152466001036101d3575060408051606080820183525f8083526020808401829052928401819052835191820184528082529181018290529182015290565b4662aa36a703610252575060408051606080820183525f8083526020808401829052928401528251908101835273f0ffdc93b7e186bc2f8cb3daa75d86d1930a433d81527392c920834ec8941d2c77d188936e1f7a6f49c1279181019190915273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a9181019190915290565b46617a69036102d0575060408051606080820183525f808352602080840182905292840152825190810183527350157cffd6bbfa2dece204a89ec419c23ef5755d815273e3a9105a3a932253a70f126eb1e3b589c643dd249181019190915273901f8942346f7ab3a01f6d7613119bca447bb0309181019190915290565b6040516373cac13b60e01b815260040160405180910390fd5b615fc6806102f65f395ff3fe608060405234801561000f575f5ffd5b50600436106104db575f3560e01c806373cd833611610291578063af400eff11610162578063d73fb94a116100dd578063e91721d811610093578063f698c32411610079578063f698c32414610b47578063fa5d6adc14610b4f578063fe20330014610b57575f5ffd5b8063e91721d814610b14578063eb884d5014610b27575f5ffd5b8063e2fe5b92116100c3578063e2fe5b9214610af9578063e778de1514610b01578063e7a3997e1461088e575f5ffd5b8063d73fb94a14610acf578063dc29338214610af1575f5ffd5b8063c083ad9911610132578063c8ff208811610118578063c8ff208814610a91578063d46588bf14610aa4578063d4eec5a614610ac7575f5ffd5b8063c083ad9914610a68578063c2c5851114610a71575f5ffd5b8063af400eff14610a26578063b6fa065414610a2f578063bbc4a27814610a42578063be9825dd14610a55575f5ffd5b80638da5cb5b1161020c578063a16b8816116101c2578063a43d8654116101a8578063a43d8654146109e2578063a5b7c25014610a0a578063ac44da5214610a1d575f5ffd5b8063a16b8816146109b7578063a35b303f146109ca575f5ffd5b806397335956116101f2578063973359561461095d5780639bdd554d1461098b5780639d1f2e2c14610993575f5ffd5b80638da5cb5b1461091e578063905084be14610930575f5ffd5b806383aae6fc116102615780638927b030116102475780638927b030146108fb57806389a63ba5146109035780638c5752431461090b575f5ffd5b806383aae6fc146108d557806385a7ebc1146108e8575f5ffd5b806373cd83361461089e57806381aef648146108a7578063821d5313146108ba57806382321865146108cd575f5ffd5b8063402ff0db116103cb5780635c9302c9116103465780636d5f841d116102fc57806371d948e2116102e257806371d948e21461087b57806372e771e91461088e578063732f87f714610896575f5ffd5b80636d5f841d14610855578063703dbfe414610868575f5ffd5b806363cc406c1161032c57806363cc406c1461081c57806365aad1b11461082f57806369b1980514610842575f5ffd5b80635c9302c9146107f45780635cbb7caa146107fc575f5ffd5b80634e5dcd971161039b5780635857c331116103815780635857c331146107a65780635a67b632146107ce5780635c4610a1146107e1575f5ffd5b80634e5dcd971461078957806350981ec71461079c575f5ffd5b8063402ff0db146106f9578063461d590f1461075b5780634779266f1461076e5780634e0bf4f114610781575f5ffd5b8063200280491161045b57806332f2188e1161042b578063378675801161041157806337867580146106d6578063390ea349146106e95780633d96d019146106f1575f5ffd5b806332f2188e146106bb578063360aa72d146106ce575f5ffd5b8063200280491461066157806320ab98371461067457806322189e6914610695578063247538bf146106a8575f5ffd5b8063120269cd116104b05780631bdd4b74116104965780631bdd4b74146105ae5780631cff2586146106265780631d4d73f714610639575f5ffd5b8063120269cd146105605780631bc234901461058d575f5ffd5b80620cb891146104df57806212462a1461050757806302312d761461051c57806305fd1e6314610547575b5f5ffd5b6104f26104ed36600461580d565b610b61565b60405190151581526020015b60405180910390f35b61051a61051536600461583e565b610b75565b005b61052f61052a366004615855565b610cba565b6040516001600160a01b0390911681526020016104fe565b61054e5f81565b60405160ff90911681526020016104fe565b6104f261056e36600461587d565b600760209081525f928352604080842090915290825290205460ff1681565b6105a061059b3660046158a5565b610d76565b6040516104fe929190615939565b6105c16105bc36600461583e565b610fac565b604080516001600160a01b039b8c1681529a90991660208b015260ff9097169789019790975260608801949094526080870192909252151560a0860152151560c0850152151560e08401529015156101008301521515610120820152610140016104fe565b6104f261063436600461595d565b611038565b61064c610647366004615976565b61106e565b60405163ffffffff90911681526020016104fe565b61051a61066f36600461595d565b6110f2565b61068761068236600461580d565b6110ff565b6040519081526020016104fe565b6104f26106a336600461598f565b61138b565b6106876106b636600461595d565b6113d5565b6105a06106c93660046158a5565b61142d565b610687600a81565b6106876106e436600461580d565b611590565b610687611653565b61054e600181565b61070c61070736600461583e565b611702565b604080516001600160a01b03909916895260ff90971660208901529587019490945260608601929092521515608085015260a0840152151560c083015261ffff1660e0820152610100016104fe565b61054e61076936600461583e565b6117be565b61064c61077c366004615976565b6117ca565b61051a611838565b6106876107973660046159a9565b611a03565b61068762093a8081565b6106876107b436600461595d565b6001600160a01b03165f9081526003602052604090205490565b6106876107dc36600461583e565b611abf565b6106876107ef36600461580d565b611cfa565b610687611d0d565b61080f61080a36600461595d565b611d20565b6040516104fe91906159e2565b6105a061082a366004615976565b611d93565b61051a61083d366004615976565b611db0565b61068761085036600461583e565b611f30565b61051a6108633660046159f4565b611fb9565b61051a61087636600461583e565b6120a6565b610687610889366004615976565b6121d0565b61054e600381565b61064c600181565b610687600b5481565b6104f26108b536600461598f565b612238565b6106876108c836600461583e565b612282565b61054e600481565b61051a6108e33660046159f4565b61239d565b61051a6108f6366004615a59565b6124b9565b6106876128d6565b610687601481565b61051a61091936600461595d565b6128df565b5f5461052f906001600160a01b031681565b6104f261093e36600461580d565b600960209081525f928352604080842090915290825290205460ff1681565b61097061096b36600461580d565b6128e9565b604080519384526020840192909252908201526060016104fe565b61054e600281565b6109a66109a1366004615b12565b6129c9565b6040516104fe959493929190615b4a565b61064c6109c5366004615976565b612c21565b6109d2612c37565b6040516104fe9493929190615bbf565b6109f56109f036600461583e565b612c92565b604080519283526020830191909152016104fe565b6105a0610a1836600461583e565b612e3b565b61064c6103e881565b61068760115481565b610687610a3d366004615976565b612f70565b6109a6610a50366004615c01565b613131565b61051a610a6336600461595d565b61315f565b610687610e1081565b610a84610a7f36600461580d565b61341f565b6040516104fe9190615c31565b6105a0610a9f36600461580d565b6134fe565b610ab7610ab2366004615c61565b61370f565b6040516104fe9493929190615c7c565b61051a613949565b6104f2610add36600461595d565b60046020525f908152604090205460ff1681565b610687613a0d565b610687603281565b6105a0610b0f366004615976565b613a79565b610687610b22366004615976565b613a8d565b610b3a610b3536600461595d565b613acb565b6040516104fe9190615cff565b61051a613b33565b610687600581565b6106876201518081565b5f610b6c828461138b565b90505b92915050565b5f610b7f82613ce6565b60018101549091506001600160a01b03163314610be35760405162461bcd60e51b815260206004820152601960248201527f4e6f7420746865206368616c6c656e67656420706c617965720000000000000060448201526064015b60405180910390fd5b6006810154610100900460ff16158015610c0a57506006810154640100000000900460ff16155b610c565760405162461bcd60e51b815260206004820152601a60248201527f4368616c6c656e676520616c726561647920616e7377657265640000000000006044820152606401610bda565b60068101805464ff000000001916640100000000179055335f908152602260205260408120805491610c8783615d25565b909155505060405182907f34becb93570114ad8c0119b10d770f01ea010fa85c9b32c8cbaf30bb78d1a65a905f90a25050565b5f82610cc581613d5f565b5f60025f610cd1613a0d565b815260208082019290925260409081015f90812060ff89168252909252902080549091508410610d435760405162461bcd60e51b815260206004820152601360248201527f496e646578206f7574206f6620626f756e6473000000000000000000000000006044820152606401610bda565b805f018481548110610d5757610d57615d3a565b5f918252602090912001546001600160a01b03169250505b5092915050565b60608082610d8381613d5f565b5f85815260026020908152604080832060ff88168452909152812090805b8254811015610e2a575f835f018281548110610dbf57610dbf615d3a565b5f9182526020808320909101546001600160a01b0316808352600490915260409091205490915060ff168015610e0e57506001600160a01b0381165f90815260058501602052604090205460ff165b15610e215782610e1d81615d4e565b9350505b50600101610da1565b508067ffffffffffffffff811115610e4457610e44615d66565b604051908082528060200260200182016040528015610e6d578160200160208202803683370190505b5094508067ffffffffffffffff811115610e8957610e89615d66565b604051908082528060200260200182016040528015610eb2578160200160208202803683370190505b5093505f805b8354811015610fa0575f845f018281548110610ed657610ed6615d3a565b5f9182526020808320909101546001600160a01b0316808352600490915260409091205490915060ff168015610f2557506001600160a01b0381165f90815260058601602052604090205460ff165b15610f975780888481518110610f3d57610f3d615d3a565b6001600160a01b039283166020918202929092018101919091529082165f9081526001870190915260409020548751889085908110610f7e57610f7e615d3a565b602090810291909101015282610f9381615d4e565b9350505b50600101610eb8565b50505050509250929050565b5f5f5f5f5f5f5f5f5f5f5f610fc08c613ce6565b80546001820154600283015460038401546006909401546001600160a01b039384169f509282169d5060ff600160a01b90920482169c509a5091985062010000810482169750630100000081048216965080821695506101008104821694506401000000009004169150509193959799509193959799565b5f611041611d0d565b61104c906001615d7a565b6001600160a01b039092165f908152601d602052604090205491909114919050565b5f600360ff8316106110c25760405162461bcd60e51b815260206004820152601260248201527f496e76616c6964206261646765207469657200000000000000000000000000006044820152606401610bda565b8160ff165f036110d557506101f4919050565b8160ff166001036110e957506103e8919050565b506107d0919050565b6110fc3382613db2565b50565b5f8161110a81613d5f565b6001600160a01b0384161580159061112b57506001600160a01b0384163314155b6111775760405162461bcd60e51b815260206004820152601060248201527f496e76616c6964206f70706f6e656e74000000000000000000000000000000006044820152606401610bda565b6001600160a01b0384165f90815260226020526040902054600a116111de5760405162461bcd60e51b815260206004820152601b60248201527f546f6f206d616e792070656e64696e67206368616c6c656e67657300000000006044820152606401610bda565b6001600160a01b0384165f90815260226020526040812080549161120183615d4e565b9091555050602080546001810182555f829052600881027fc97bfaf2f8ee708c303a06d134f5ecd8389ae0432af62dc132a24118292866bb810180546001600160a01b0319163390811782557fc97bfaf2f8ee708c303a06d134f5ecd8389ae0432af62dc132a24118292866bc909201805460ff8916600160a01b0274ffffffffffffffffffffffffffffffffffffffffff199091166001600160a01b038b1617179055604051929550926112eb924492918991889101938452606092831b6bffffffffffffffffffffffff1990811660208601529190921b166034830152604882015260680190565b60408051808303601f1901815282825280516020918201206002850155426003850155335f81815260218352838120805460018082018355918352848320018990556001600160a01b038b16808352948220805491820181558252908390200187905560ff88168452919286917f8434eba3b2b55c184eaad8518ce8b87e52ff5f7167be33e739724e8dbb0fcebc910160405180910390a4505092915050565b5f60025f611397613a0d565b815260208082019290925260409081015f90812060ff80881683529084528282206001600160a01b0387168352600201909352205416905092915050565b6001600160a01b0381165f908152601e6020526040812054801580159061140357506113ff611d0d565b8110155b61140d575f611426565b6001600160a01b0383165f908152601f60205260409020545b9392505050565b6060808261143a81613d5f565b5f85815260026020908152604080832060ff88168452909152902080548067ffffffffffffffff81111561147057611470615d66565b604051908082528060200260200182016040528015611499578160200160208202803683370190505b5094508067ffffffffffffffff8111156114b5576114b5615d66565b6040519080825280602002602001820160405280156114de578160200160208202803683370190505b5093505f5b81811015611585575f835f01828154811061150057611500615d3a565b905f5260205f20015f9054906101000a90046001600160a01b031690508087838151811061153057611530615d3a565b6001600160a01b039283166020918202929092018101919091529082165f908152600186019091526040902054865187908490811061157157611571615d3a565b6020908102919091010152506001016114e3565b505050509250929050565b5f8161159b81613d5f565b5f60025f6115a7613a0d565b815260208082019290925260409081015f90812060ff80891683529084528282206001600160a01b038a16835260048101909452919020549192501661162f5760405162461bcd60e51b815260206004820152601e60248201527f506c6179657220686173206e6f7420636f6d707574656420612072616e6b00006044820152606401610bda565b6001600160a01b0385165f9081526003909101602052604090205491505092915050565b5f5f61165d611d0d565b905061166a816001615d7a565b335f908152601d6020526040902054036116c65760405162461bcd60e51b815260206004820152601a60248201527f4461696c7920617474656d707420616c726561647920757365640000000000006044820152606401610bda565b6116d1816001615d7a565b335f908152601d60205260409020556116fc6116ec826117be565b6116f583612282565b6001613ecc565b91505090565b5f5f5f5f5f5f5f5f600b54891061175b5760405162461bcd60e51b815260206004820152601660248201527f53657373696f6e20646f6573206e6f74206578697374000000000000000000006044820152606401610bda565b5050505f9586525050600a60205250506040909120805460018201546002830154600384015460048501546005909501546001600160a01b03851697600160a01b90950460ff9081169750939592949184169381169161010090910461ffff1690565b5f610b6f600383615da1565b5f600460ff83161061181e5760405162461bcd60e51b815260206004820152601a60248201527f496e76616c696420686973746f6772616d20626f756e646172790000000000006044820152606401610bda565b61182c60ff83166001615db4565b610b6f906101f4615dd0565b60175461184790600590615d7a565b60115410156118985760405162461bcd60e51b815260206004820152601760248201527f546f6f20666577206e6577207375626d697373696f6e730000000000000000006044820152606401610bda565b6018546118a9906201518090615d7a565b4210156118f85760405162461bcd60e51b815260206004820152601d60248201527f53746174732077657265207075626c697368656420726563656e746c790000006044820152606401610bda565b611903600c54614038565b505f5b600460ff8216101561193b57611932600d8260ff166004811061192b5761192b615d3a565b0154614038565b50600101611906565b506040805160808082018352600c5482528251908101928390529091602083019190600d9060049082845b815481526020019060010190808311611966575050505050815260200160115481526020014281525060125f820151815f01556020820151816001019060046119b0929190615758565b50604082810151600583015560609092015160069091015560115481519081524260208201527f153a7ff9f86319e1a0dd2307636b7896087b66945ab1bdfdb5467a7dd0dbff8d910160405180910390a1565b5f81611a0e81613d5f565b5f85815260026020818152604080842060ff80891686529083528185206001600160a01b038a16865293840190925290922054909116611a9a5760405162461bcd60e51b815260206004820152602160248201527f506c6179657220686173206e6f74207375626d6974746564206120726573756c6044820152601d60fa1b6064820152608401610bda565b6001600160a01b0385165f908152600190910160205260409020549150509392505050565b5f5f611aca83613ce6565b6006810154909150640100000000900460ff1615611b2a5760405162461bcd60e51b815260206004820152601660248201527f4368616c6c656e676520776173206465636c696e6564000000000000000000006044820152606401610bda565b62093a808160030154611b3d9190615d7a565b421115611b8c5760405162461bcd60e51b815260206004820152601160248201527f4368616c6c656e676520657870697265640000000000000000000000000000006044820152606401610bda565b80546001600160a01b031633148080611bb1575060018201546001600160a01b031633145b611bfd5760405162461bcd60e51b815260206004820152601b60248201527f4e6f742061206368616c6c656e6765207061727469636970616e7400000000006044820152606401610bda565b80611c14576006820154610100900460ff16611c1d565b600682015460ff165b15611c6a5760405162461bcd60e51b815260206004820152601860248201527f4368616c6c656e676520616c726561647920706c6179656400000000000000006044820152606401610bda565b8015611c845760068201805460ff19166001179055611cb5565b60068201805461ff001916610100179055335f908152602260205260408120805491611caf83615d25565b91905055505b60018201546002830154611cd491600160a01b900460ff16905f613ecc565b9250611ce1846001615d7a565b5f848152600a6020526040902060060155509092915050565b5f610b6c611d06613a0d565b8484611a03565b5f611d1b6201518042615def565b905090565b6001600160a01b0381165f90815260056020908152604091829020805483518184028101840190945280845260609392830182828015611d8757602002820191905f5260205f20905b81546001600160a01b03168152600190910190602001808311611d69575b50505050509050919050565b606080611da7611da1613a0d565b8461142d565b91509150915091565b80611dba81613d5f565b5f611dc3613a0d565b5f81815260026020818152604080842060ff808a168652908352818520338652938401909252909220549293509116611e485760405162461bcd60e51b815260206004820152602160248201527f506c6179657220686173206e6f74207375626d6974746564206120726573756c6044820152601d60fa1b6064820152608401610bda565b335f908152600182016020526040812054905b600360ff82161015611ecc575f611e7a83611e758461106e565b614046565b9050611e858161406a565b50611e8f81614038565b50335f90815260086020908152604080832060ff808c16855292529091208291841660038110611ec157611ec1615d3a565b015550600101611e5b565b50335f81815260096020908152604080832060ff8a1680855290835292819020805460ff19166001179055518681529192917fdd2ae4693b0e125ee3ad0139c03ef824ae51c92d5364bcecad9789a42cc0d378910160405180910390a35050505050565b5f5f611f3b83613ce6565b600681015490915062010000900460ff168015611f63575060068101546301000000900460ff165b611faf5760405162461bcd60e51b815260206004820152601960248201527f4368616c6c656e6765206973206e6f74207265736f6c766564000000000000006044820152606401610bda565b6007015492915050565b611fc1614075565b611fc9611d0d565b82116120175760405162461bcd60e51b815260206004820152601c60248201527f4461696c7920626f61726420616c72656164792072657665616c6564000000006044820152606401610bda565b5f8190036120565760405162461bcd60e51b815260206004820152600c60248201526b125b9d985b1a59081cd9595960a21b6044820152606401610bda565b5f82815260196020526040908190208290555182907fe50d1c38133552b0473e54e65bcfb3c80775ce0d2f7be928bf135c80df268d569061209a9084815260200190565b60405180910390a25050565b6120ae614075565b4281116120fd5760405162461bcd60e51b815260206004820152601d60248201527f536561736f6e206d75737420656e6420696e20746865206675747572650000006044820152606401610bda565b5f612106613a0d565b612111906001615d7a565b90506001604051806060016040528083815260200142815260200142856121389190615e02565b90528154600180820184555f93845260209384902083516003909302019182558284015190820155604091820151600290910155805142815291820184905282917f140b0d71aeb7929ef4342c1cf14dc9b6c83b015cf00b0442ff0d4f916abdd295910160405180910390a26040517fe1f4cf2e47a4efbf06b4001dab264f9632dc0f1b5192111ecb9821d96aaad581905f90a15050565b5f816121db81613d5f565b600b5460408051446020808301919091523360601b6bffffffffffffffffffffffff1916828401526054808301859052835180840390910181526074909201909252805191012090925061223084825f613ecc565b505050919050565b5f60025f612244613a0d565b815260208082019290925260409081015f90812060ff80881683529084528282206001600160a01b0387168352600401909352205416905092915050565b5f61228b611d0d565b8211156122da5760405162461bcd60e51b815260206004820152601760248201527f4461696c7920626f617264206e6f7420737461727465640000000000000000006044820152606401610bda565b5f82815260196020526040812054900361233f576040517f4c696e6b4d61746368206461696c7900000000000000000000000000000000006020820152602f8101839052604f0160408051601f19818403018152919052805160209091012092915050565b5f828152601a602052604081205490819003610b6f5760405162461bcd60e51b815260206004820152601760248201527f4461696c792073656564206e6f742072657665616c65640000000000000000006044820152606401610bda565b6123a5614075565b6123ad611d0d565b8211156123fc5760405162461bcd60e51b815260206004820152601760248201527f4461696c7920626f617264206e6f7420737461727465640000000000000000006044820152606401610bda565b801580159061243a57505f82815260196020908152604091829020548251918201849052910160405160208183030381529060405280519060200120145b6124755760405162461bcd60e51b815260206004820152600c60248201526b125b9d985b1a59081cd9595960a21b6044820152606401610bda565b5f828152601a6020526040908190208290555182907f0b9bc9e371a4035c2462cb729fae19b6301bbcfd0b91211dc0ed4207410114289061209a9084815260200190565b600b548a1061250a5760405162461bcd60e51b815260206004820152601660248201527f53657373696f6e20646f6573206e6f74206578697374000000000000000000006044820152606401610bda565b5f8a8152600a6020526040902080546001600160a01b031633146125705760405162461bcd60e51b815260206004820152601060248201527f4e6f7420796f75722073657373696f6e000000000000000000000000000000006044820152606401610bda565b600381015460ff16156125c55760405162461bcd60e51b815260206004820152601460248201527f53657373696f6e20616c726561647920757365640000000000000000000000006044820152606401610bda565b610e1081600201546125d79190615d7a565b4211156126265760405162461bcd60e51b815260206004820152600f60248201527f53657373696f6e206578706972656400000000000000000000000000000000006044820152606401610bda565b8054600160a01b900460ff1661263b81612c21565b63ffffffff1682600201546126509190615d7a565b42101561269f5760405162461bcd60e51b815260206004820152601660248201527f47616d652066696e697368656420746f6f2066617374000000000000000000006044820152606401610bda565b60038201805460ff191660011790556004820188905560058201805461ffff89166101000262ffff0019909116179055604080516020601f88018190048102820181019092528681525f9161270f918e918a908a90819084018382808284375f920191909152506140d092505050565b90505f6127518c87878080601f0160208091040260200160405190810160405280939291908181526020018383808284375f920191909152506140d092505050565b90505f61279e6127968d89898080601f0160208091040260200160405190810160405280939291908181526020018383808284375f920191909152506140d092505050565b6127106140dd565b90506127b2836127ad86614101565b6140dd565b92506127d16127c9836127c487612c21565b61412f565b610e106140dd565b91506127f46127ea836127e5846001614153565b614177565b8b61ffff166141a5565b91505f61280184846141c9565b905061280c8161406a565b50612817813361429b565b506128218461406a565b5061282c843361429b565b506128368361406a565b50612841833361429b565b5061284b8261406a565b50612856823361429b565b506006860154156128805761287b600187600601546128759190615e02565b826142ad565b6128c4565b600586015460ff16156128ae576128a96201518087600201546128a39190615def565b82614385565b6128bb565b6128bb8582868686614483565b6128c4816149bf565b50505050505050505050505050505050565b5f611d1b614a7e565b6110fc8133613db2565b5f5f5f836128f681613d5f565b5f60025f612902613a0d565b815260208082019290925260409081015f90812060ff808b1683529084528282206001600160a01b038c1683526002810190945291902054919250166129945760405162461bcd60e51b815260206004820152602160248201527f506c6179657220686173206e6f74207375626d6974746564206120726573756c6044820152601d60fa1b6064820152608401610bda565b6001600160a01b0387165f90815260019182016020526040902080549181015460029091015491955093509150509250925092565b60608060605f5f876129da81613d5f565b5f8a815260026020908152604080832060ff8d16845290915281208054935090838a1015612a1957612a0c8a85615e02565b905088811115612a195750875b8067ffffffffffffffff811115612a3257612a32615d66565b604051908082528060200260200182016040528015612a5b578160200160208202803683370190505b5097508067ffffffffffffffff811115612a7757612a77615d66565b604051908082528060200260200182016040528015612aa0578160200160208202803683370190505b5096508067ffffffffffffffff811115612abc57612abc615d66565b604051908082528060200260200182016040528015612ae5578160200160208202803683370190505b5095505f5b81811015612bf9575f83612afe838e615d7a565b81548110612b0e57612b0e615d3a565b905f5260205f20015f9054906101000a90046001600160a01b03169050808a8381518110612b3e57612b3e615d3a565b6001600160a01b039283166020918202929092018101919091529082165f90815260018601909152604090205489518a9084908110612b7f57612b7f615d3a565b6020908102919091018101919091526001600160a01b0382165f9081526004909152604090205460ff168015612bce57506001600160a01b0381165f90815260058501602052604090205460ff165b888381518110612be057612be0615d3a565b9115156020928302919091019091015250600101612aea565b50838a10612c075783612c11565b612c11818b615d7a565b9450505050945094509450945094565b5f6004612c2d83614101565b610b6f9190615e15565b5f612c40615792565b60125460175460185460408051608081019091525f93849390926013928360048282826020028201915b815481526020019060010190808311612c6a5750505050509250935093509350935090919293565b5f5f612c9c613a0d565b831115612ceb5760405162461bcd60e51b815260206004820152601660248201527f536561736f6e20686173206e6f742073746172746564000000000000000000006044820152606401610bda565b600180545f91612cfa91615e02565b90505b8360018281548110612d1157612d11615d3a565b905f5260205f2090600302015f01541115612d385780612d3081615d25565b915050612cfd565b5f60018281548110612d4c57612d4c615d3a565b905f5260205f209060030201905080600201545f03612d715780600101549350612db0565b60028101548154612d829087615e02565b612d8c9190615e3c565b8160010154612d9b9190615d7a565b9350806002015484612dad9190615d7a565b92505b6001805490612dc0908490615d7a565b108015612e005750612dd3856001615d7a565b6001612ddf8482615d7a565b81548110612def57612def615d3a565b905f5260205f2090600302015f0154145b15612e34576001612e118382615d7a565b81548110612e2157612e21615d3a565b905f5260205f2090600302016001015492505b5050915091565b606080601b5f8481526020019081526020015f20805480602002602001604051908101604052809291908181526020018280548015612ea157602002820191905f5260205f20905b81546001600160a01b03168152600190910190602001808311612e83575b50505050509150815167ffffffffffffffff811115612ec257612ec2615d66565b604051908082528060200260200182016040528015612eeb578160200160208202803683370190505b5090505f5b8251811015612f6a57601c5f8581526020019081526020015f205f848381518110612f1d57612f1d615d3a565b60200260200101516001600160a01b03166001600160a01b031681526020019081526020015f2054828281518110612f5757612f57615d3a565b6020908102919091010152600101612ef0565b50915091565b5f81612f7b81613d5f565b5f60025f612f87613a0d565b815260208082019290925260409081015f90812060ff80891683529084528282203383526002810190945291902054919250166130105760405162461bcd60e51b815260206004820152602160248201527f506c6179657220686173206e6f74207375626d6974746564206120726573756c6044820152601d60fa1b6064820152608401610bda565b335f90815260018083016020526040909120549061302d90614ab2565b93505f5b82548110156130b2575f835f01828154811061304f5761304f615d3a565b5f918252602090912001546001600160a01b0316905033810361307257506130aa565b6001600160a01b0381165f9081526001850160205260408120546130969085614ac4565b90506130a5876127e583614af2565b965050505b600101613031565b506130bc8461406a565b506130c7843361429b565b50335f818152600384016020908152604080832088905560048601825291829020805460ff19166001179055905142815260ff881692917f0878dedab0cbf0cb64a70a264276e35a569bc8864aeea7786cff14189b893c0f910160405180910390a3505050919050565b60608060605f5f61314b613143613a0d565b8989896129c9565b939c929b5090995097509095509350505050565b6001600160a01b0381161580159061318057506001600160a01b0381163314155b6131cc5760405162461bcd60e51b815260206004820152600e60248201527f496e76616c696420667269656e640000000000000000000000000000000000006044820152606401610bda565b335f9081526007602090815260408083206001600160a01b038516845290915290205460ff161561323f5760405162461bcd60e51b815260206004820152601760248201527f53636f726520697320616c7265616479207368617265640000000000000000006044820152606401610bda565b335f9081526005602052604090205460141161329d5760405162461bcd60e51b815260206004820152601060248201527f546f6f206d616e7920667269656e6473000000000000000000000000000000006044820152606401610bda565b6001600160a01b0381165f908152600660205260409020546032116133045760405162461bcd60e51b815260206004820152601b60248201527f467269656e642068617320746f6f206d616e79207368617265727300000000006044820152606401610bda565b5f61330d613a0d565b90505f5b600360ff82161015613375575f82815260026020818152604080842060ff8087168652908352818520338652938401909252909220549091161561336c57335f90815260018201602052604090205461336a908561429b565b505b50600101613311565b50335f8181526007602090815260408083206001600160a01b038716808552908352818420805460ff1916600190811790915585855260058452828520805480830182559086528486200180546001600160a01b03199081168417909155828652600685528386208054928301815586529385200180549093168517909255519092917fa4c3bc6aa55bb61c4041f9ce177d71792bdab2d72589da36249f9176c977f61291a35050565b6134276157b0565b8161343181613d5f565b6001600160a01b0384165f90815260096020908152604080832060ff8088168552925290912054166134a55760405162461bcd60e51b815260206004820152601d60248201527f506c6179657220686173206e6f7420636c61696d6564206261646765730000006044820152606401610bda565b6001600160a01b0384165f90815260086020908152604080832060ff8716845290915290819020815160608101928390529160039082845b8154815260200190600101908083116134dd57505050505091505092915050565b6060808261350b81613d5f565b5f60025f613517613a0d565b815260208082019290925260409081015f90812060ff8916825283528181206001600160a01b038a1682526006909352908120919250805b82548110156135b157836002015f84838154811061356f5761356f615d3a565b5f9182526020808320909101546001600160a01b0316835282019290925260400190205460ff16156135a957816135a581615d4e565b9250505b60010161354f565b508067ffffffffffffffff8111156135cb576135cb615d66565b6040519080825280602002602001820160405280156135f4578160200160208202803683370190505b5095508067ffffffffffffffff81111561361057613610615d66565b604051908082528060200260200182016040528015613639578160200160208202803683370190505b5094505f805b8354811015613702575f84828154811061365b5761365b615d3a565b5f9182526020808320909101546001600160a01b03168083526002890190915260409091205490915060ff16156136f9578089848151811061369f5761369f615d3a565b6001600160a01b039283166020918202929092018101919091529082165f90815260018801909152604090205488518990859081106136e0576136e0615d3a565b6020908102919091010152826136f581615d4e565b9350505b5060010161363f565b5050505050509250929050565b6001600160a01b0383165f908152600360205260408120805460609283928392839290881015613753578154613746908990615e02565b9050868111156137535750855b8067ffffffffffffffff81111561376c5761376c615d66565b604051908082528060200260200182016040528015613795578160200160208202803683370190505b5095508067ffffffffffffffff8111156137b1576137b1615d66565b6040519080825280602002602001820160405280156137da578160200160208202803683370190505b5094508067ffffffffffffffff8111156137f6576137f6615d66565b60405190808252806020026020018201604052801561381f578160200160208202803683370190505b5093508067ffffffffffffffff81111561383b5761383b615d66565b604051908082528060200260200182016040528015613864578160200160208202803683370190505b5092505f5b8181101561393d575f8361387d838c615d7a565b8154811061388d5761388d615d3a565b905f5260205f2090600702019050805f01548883815181106138b1576138b1615d3a565b60209081029190910101526004810154875160ff909116908890849081106138db576138db615d3a565b602002602001019060ff16908160ff1681525050806005015486838151811061390657613906615d3a565b602002602001018181525050806006015485838151811061392957613929615d3a565b602090810291909101015250600101613869565b50505093509350935093565b335f9081526004602052604090205460ff166139a75760405162461bcd60e51b815260206004820152601360248201527f53636f7265206973206e6f74207075626c6963000000000000000000000000006044820152606401610bda565b335f81815260046020526040808220805460ff19169055517f0936cd2cdba01e614c214ac357461eb168de7074527f9cd0bf37e83fa26b016f9190a26040517fe1f4cf2e47a4efbf06b4001dab264f9632dc0f1b5192111ecb9821d96aaad581905f90a1565b600180545f918291613a20908290615e02565b81548110613a3057613a30615d3a565b905f5260205f209060030201905080600201545f03613a4f5754919050565b60028101546001820154613a639042615e02565b613a6d9190615def565b81546116fc9190615d7a565b606080611da7613a87613a0d565b84610d76565b5f81613a9881613d5f565b60025f613aa3613a0d565b815260208082019290925260409081015f90812060ff87168252909252902054915050919050565b6001600160a01b0381165f90815260216020908152604091829020805483518184028101840190945280845260609392830182828015611d8757602002820191905f5260205f20905b815481526020019060010190808311613b145750505050509050919050565b335f9081526004602052604090205460ff1615613b925760405162461bcd60e51b815260206004820152601760248201527f53636f726520697320616c7265616479207075626c69630000000000000000006044820152606401610bda565b5f613b9b613a0d565b90505f805b600360ff82161015613c23575f83815260026020818152604080842060ff80871686529083528185203386529384019092529092205490911615613c1a57335f908152600182016020526040902054613bf890614038565b50335f9081526005820160205260409020805460ff1916600190811790915592505b50600101613ba0565b5080613c7b5760405162461bcd60e51b815260206004820152602160248201527f506c6179657220686173206e6f74207375626d6974746564206120726573756c6044820152601d60fa1b6064820152608401610bda565b335f81815260046020526040808220805460ff19166001179055517f7d9dc8f02163b8fc4943a2c0168f05dafefc863b483d8dfc01613417ff22e80e9190a26040517fe1f4cf2e47a4efbf06b4001dab264f9632dc0f1b5192111ecb9821d96aaad581905f90a15050565b6020545f908210613d395760405162461bcd60e51b815260206004820152601860248201527f4368616c6c656e676520646f6573206e6f7420657869737400000000000000006044820152606401610bda565b60208281548110613d4c57613d4c615d3a565b905f5260205f2090600802019050919050565b600360ff8216106110fc5760405162461bcd60e51b815260206004820152601260248201527f496e76616c696420646966666963756c747900000000000000000000000000006044820152606401610bda565b6001600160a01b038083165f9081526007602090815260408083209385168352929052205460ff16613e265760405162461bcd60e51b815260206004820152601360248201527f53636f7265206973206e6f7420736861726564000000000000000000000000006044820152606401610bda565b6001600160a01b038083165f8181526007602090815260408083209486168352938152838220805460ff19169055918152600590915220613e679082614afe565b6001600160a01b0381165f908152600660205260409020613e889083614afe565b806001600160a01b0316826001600160a01b03167faa9e547cfab27d11ac4baaba43257d91c6422baeaa6477f023da977d95634ae460405160405180910390a35050565b600b80545f9182613edc83615d4e565b9091555060408051610120810182523380825260ff80891660208085019182528486018a815242606087019081525f6080880181815260a089018281528d151560c08b0190815260e08b01848152610100808d018681528f8752600a909952948d90209b518c549951909a16600160a01b0274ffffffffffffffffffffffffffffffffffffffffff199099166001600160a01b039a909a1699909917979097178a55935160018a015591516002890155905160038801805491151560ff1992909216919091179055905160048701559151600586018054945161ffff1690930262ffff00199115159190911662ffffff19909416939093179290921790555160069092019190915590519192509082907f3c65d9ac99768b59b056156e52950a2a2dc745d4f69e85ab9f9524a05b7d044390614029908890889060ff929092168252602082015260400190565b60405180910390a39392505050565b5f61404282614bf3565b5090565b5f82614058576140555f614ab2565b92505b610b6c8363ffffffff84166001614ca3565b5f6140428230614d60565b5f546001600160a01b031633146140ce5760405162461bcd60e51b815260206004820152600a60248201527f4f6e6c79206f776e6572000000000000000000000000000000000000000000006044820152606401610bda565b565b5f610b6c83836004614da6565b5f826140ef576140ec5f614ab2565b92505b610b6c8363ffffffff84166001614ea0565b5f8160ff165f0361411457506008919050565b8160ff1660010361412757506012919050565b506020919050565b5f826141415761413e5f614ab2565b92505b610b6c8363ffffffff84166001614f17565b5f82614165576141625f614ab2565b92505b610b6c8363ffffffff84166001614f8e565b5f82614189576141865f614ab2565b92505b8161419a576141975f614ab2565b91505b610b6c83835f615005565b5f826141b7576141b45f614ab2565b92505b610b6c8363ffffffff84166001615005565b5f5f6141d7846103e8614153565b90505f6141e584600161412f565b90505f6141f15f614ab2565b90506141fc5f614ab2565b9350600f5b60ff811615614291575f614216600183615e53565b905061423f61422684600161507c565b61423a614233888561509d565b60016150be565b6150e2565b92505f61424c8486615110565b90506142628161425c868861513e565b8661516c565b935061427a8761423a61427484614af2565b8561507c565b96505050808061428990615e6c565b915050614201565b5050505092915050565b5f6142a68383614d60565b5090919050565b5f602083815481106142c1576142c1615d3a565b5f918252602090912060089091020180549091506001600160a01b03163303614303576004810182905560068101805462ff0000191662010000179055614320565b6005810182905560068101805463ff000000191663010000001790555b604051339084907f98ecfb74a2b6353b192d5f3d89dc083a21d1deebaeed02f91180da6f3719a11b905f90a3600681015462010000900460ff168015614371575060068101546301000000900460ff165b156143805761438083826151b3565b505050565b5f828152601b6020908152604080832080546001810182559084528284200180546001600160a01b03191633908117909155858452601c83528184209084528252808320849055601e90915281205483146143e15760016143fb565b335f908152601f60205260409020546143fb906001615d7a565b335f908152601f602052604090208190559050614419836001615d7a565b335f908152601e602090815260408083209390935560049052205460ff16156144475761444582614038565b505b604051818152839033907f5a8523d6b89d1287011f1a38f522ca498da1bf8b570edfd5abe8b88e1d367ba39060200160405180910390a3505050565b5f61448c613a0d565b90505f60025f8381526020019081526020015f205f8860ff1660ff1681526020019081526020015f20905060035f336001600160a01b03166001600160a01b031681526020019081526020015f206040518060e001604052808881526020018781526020018681526020018581526020018960ff16815260200184815260200142815250908060018154018082558091505060019003905f5260205f2090600702015f909190919091505f820151815f01556020820151816001015560408201518160020155606082015181600301556080820151816004015f6101000a81548160ff021916908360ff16021790555060a0820151816005015560c082015181600601555050806002015f336001600160a01b03166001600160a01b031681526020019081526020015f205f9054906101000a900460ff1661472457805f0133908060018154018082558091505060019003905f5260205f20015f9091909190916101000a8154816001600160a01b0302191690836001600160a01b031602179055506001816002015f336001600160a01b03166001600160a01b031681526020019081526020015f205f6101000a81548160ff0219169083151502179055506040518060c00160405280878152602001868152602001858152602001336001600160a01b031681526020014281526020018860ff16815250816001015f336001600160a01b03166001600160a01b031681526020019081526020015f205f820151815f015560208201518160010155604082015181600201556060820151816003015f6101000a8154816001600160a01b0302191690836001600160a01b031602179055506080820151816004015560a0820151816005015f6101000a81548160ff021916908360ff160217905550905050614893565b335f90815260018201602052604081208054909190614744908990614ac4565b90505f614755828a855f015461516c565b90505f614767838a866001015461516c565b90505f614779848a876002015461516c565b90506147848361406a565b5061478f833361429b565b506147998261406a565b506147a4823361429b565b506147ae8161406a565b506147b9813361429b565b506040518060c00160405280848152602001838152602001828152602001336001600160a01b031681526020014281526020018d60ff16815250866001015f336001600160a01b03166001600160a01b031681526020019081526020015f205f820151815f015560208201518160010155604082015181600201556060820151816003015f6101000a8154816001600160a01b0302191690836001600160a01b031602179055506080820151816004015560a0820151816005015f6101000a81548160ff021916908360ff16021790555090505050505050505b335f908152600560205260408120905b81548110156148f857335f90815260018401602052604090205482546148ef91908490849081106148d6576148d6615d3a565b5f918252602090912001546001600160a01b031661429b565b506001016148a3565b50335f9081526004602052604090205460ff161561496d57335f90815260018301602052604090205461492a90614038565b50335f908152600583016020526040808220805460ff19166001179055517fe1f4cf2e47a4efbf06b4001dab264f9632dc0f1b5192111ecb9821d96aaad5819190a15b8760ff1683336001600160a01b03167fc2c802fdd3e7757252e370957da952f8ca5bd8f3cbc6595b8bf4e5cd90471487426040516149ad91815260200190565b60405180910390a45050505050505050565b6149d3600c546149ce8361527d565b615289565b600c8190556149e19061406a565b505f5b600460ff82161015614a66575f6149fe83611e75846117ca565b9050614a24600d8360ff1660048110614a1957614a19615d3a565b01546127e583614af2565b600d8360ff1660048110614a3a57614a3a615d3a565b0155614a5c600d60ff841660048110614a5557614a55615d3a565b015461406a565b50506001016149e4565b5060118054905f614a7683615d4e565b919050555050565b5f46600103614a8d5750600190565b4662aa36a703614a9e575061271190565b46617a6903614aad57505f1990565b505f90565b5f610b6f8263ffffffff1660046152a9565b5f82614ad657614ad35f614ab2565b92505b81614ae757614ae45f614ab2565b91505b610b6c83835f615338565b5f610b6f8260046153af565b5f5b825481101561438057816001600160a01b0316838281548110614b2557614b25615d3a565b5f918252602090912001546001600160a01b031603614beb5782548390614b4e90600190615e02565b81548110614b5e57614b5e615d3a565b905f5260205f20015f9054906101000a90046001600160a01b0316838281548110614b8b57614b8b615d3a565b905f5260205f20015f6101000a8154816001600160a01b0302191690836001600160a01b0316021790555082805480614bc657614bc6615e87565b5f8281526020902081015f1990810180546001600160a01b0319169055019055505050565b600101614b00565b6040805160018082528183019092525f516020615f9a5f395f51905f52915f91906020808301908036833701905050905082815f81518110614c3757614c37615d3a565b60209081029190910101528154604051637d6e912360e11b81526001600160a01b039091169063fadd224690614c71908490600401615e9b565b5f604051808303815f87803b158015614c88575f5ffd5b505af1158015614c9a573d5f5f3e3d5ffd5b50505050505050565b5f5f8215614cb65750600160f81b614cb9565b505f5b5f516020615f7a5f395f51905f5254604051631391547f60e01b815260048101879052602481018690526001600160f81b0319831660448201525f516020615f9a5f395f51905f52916001600160a01b031690631391547f906064015b6020604051808303815f875af1158015614d32573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190614d569190615edd565b9695505050505050565b5f516020615f9a5f395f51905f528054604051635ca4b5b160e11b8152600481018590526001600160a01b0384811660248301529091169063b9496b6290604401614c71565b5f516020615f7a5f395f51905f525460405163045fc19560e11b81525f915f516020615f9a5f395f51905f52916001600160a01b03909116906308bf832a90614df9908890339089908990600401615f14565b6020604051808303815f875af1158015614e15573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190614e399190615edd565b8154604051630f8e573b60e21b8152600481018390523360248201529193506001600160a01b031690633e395cec906044015f604051808303815f87803b158015614e82575f5ffd5b505af1158015614e94573d5f5f3e3d5ffd5b50505050509392505050565b5f5f8215614eb35750600160f81b614eb6565b505f5b5f516020615f7a5f395f51905f52546040516304559f7160e01b815260048101879052602481018690526001600160f81b0319831660448201525f516020615f9a5f395f51905f52916001600160a01b0316906304559f7190606401614d16565b5f5f8215614f2a5750600160f81b614f2d565b505f5b5f516020615f7a5f395f51905f5254604051630d8c635960e21b815260048101879052602481018690526001600160f81b0319831660448201525f516020615f9a5f395f51905f52916001600160a01b0316906336318d6490606401614d16565b5f5f8215614fa15750600160f81b614fa4565b505f5b5f516020615f7a5f395f51905f5254604051630afe14ad60e31b815260048101879052602481018690526001600160f81b0319831660448201525f516020615f9a5f395f51905f52916001600160a01b0316906357f0a56890606401614d16565b5f5f82156150185750600160f81b61501b565b505f5b5f516020615f7a5f395f51905f525460405163022f65e760e31b815260048101879052602481018690526001600160f81b0319831660448201525f516020615f9a5f395f51905f52916001600160a01b03169063117b2f3890606401614d16565b5f8261508e5761508b5f614ab2565b92505b610b6c8360ff841660016153fe565b5f826150af576150ac5f614ab2565b92505b610b6c8360ff84166001615475565b5f826150d0576150cd5f614ab2565b92505b610b6c8363ffffffff841660016154ec565b5f826150f4576150f15f614ab2565b92505b81615105576151025f614ab2565b91505b610b6c83835f615563565b5f826151225761511f5f614ab2565b92505b81615133576151305f614ab2565b91505b610b6c83835f614ca3565b5f826151505761514d5f614ab2565b92505b816151615761515e5f614ab2565b91505b610b6c83835f6155da565b5f8361517e5761517b5f615651565b93505b8261518f5761518c5f614ab2565b92505b816151a05761519d5f614ab2565b91505b6151ab84848461566c565b949350505050565b5f6151c682600401548360050154614ac4565b90505f6151db83600501548460040154614ac4565b90505f615208836151ec6001615702565b615203856151fa6002615702565b6152035f615702565b615711565b90506152138161406a565b50835461522a9082906001600160a01b031661429b565b5060018401546152449082906001600160a01b031661429b565b506007840181905560405185907f7874ca11ed47a2bbe287f114874e02e047a1261400f57712590c8f364b126501905f90a25050505050565b5f610b6f8260056153af565b5f8261529b576152985f615742565b92505b8161419a576141975f615742565b5f516020615f7a5f395f51905f5254604051639cd07acb60e01b81525f915f516020615f9a5f395f51905f52916001600160a01b0390911690639cd07acb906152f89087908790600401615f65565b6020604051808303815f875af1158015615314573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906151ab9190615edd565b5f5f821561534b5750600160f81b61534e565b505f5b5f516020615f7a5f395f51905f52546040516385362ee760e01b815260048101879052602481018690526001600160f81b0319831660448201525f516020615f9a5f395f51905f52916001600160a01b0316906385362ee790606401614d16565b5f516020615f7a5f395f51905f52546040516307227b9160e21b81525f915f516020615f9a5f395f51905f52916001600160a01b0390911690631c89ee44906152f89087908790600401615f65565b5f5f82156154115750600160f81b615414565b505f5b5f516020615f7a5f395f51905f525460405163ccc480a160e01b815260048101879052602481018690526001600160f81b0319831660448201525f516020615f9a5f395f51905f52916001600160a01b03169063ccc480a190606401614d16565b5f5f82156154885750600160f81b61548b565b505f5b5f516020615f7a5f395f51905f52546040516348fcc7ff60e11b815260048101879052602481018690526001600160f81b0319831660448201525f516020615f9a5f395f51905f52916001600160a01b0316906391f98ffe90606401614d16565b5f5f82156154ff5750600160f81b615502565b505f5b5f516020615f7a5f395f51905f525460405163d99882d560e01b815260048101879052602481018690526001600160f81b0319831660448201525f516020615f9a5f395f51905f52916001600160a01b03169063d99882d590606401614d16565b5f5f82156155765750600160f81b615579565b505f5b5f516020615f7a5f395f51905f52546040516363a2db2960e01b815260048101879052602481018690526001600160f81b0319831660448201525f516020615f9a5f395f51905f52916001600160a01b0316906363a2db2990606401614d16565b5f5f82156155ed5750600160f81b6155f0565b505f5b5f516020615f7a5f395f51905f52546040516303056db360e31b815260048101879052602481018690526001600160f81b0319831660448201525f516020615f9a5f395f51905f52916001600160a01b03169063182b6d9890606401614d16565b5f610b6f82615660575f615663565b60015b60ff165f6152a9565b5f805f516020615f9a5f395f51905f526001810154604051637702dcff60e01b81526004810188905260248101879052604481018690529192506001600160a01b031690637702dcff906064016020604051808303815f875af11580156156d5573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906156f99190615edd565b95945050505050565b5f610b6f8260ff1660026152a9565b5f83615723576157205f615651565b93505b82615734576157315f615702565b92505b816151a05761519d5f615702565b5f610b6f8267ffffffffffffffff1660056152a9565b8260048101928215615786579160200282015b8281111561578657825182559160200191906001019061576b565b506140429291506157ce565b60405180608001604052806004906020820280368337509192915050565b60405180606001604052806003906020820280368337509192915050565b5b80821115614042575f81556001016157cf565b80356001600160a01b03811681146157f8575f5ffd5b919050565b803560ff811681146157f8575f5ffd5b5f5f6040838503121561581e575f5ffd5b615827836157e2565b9150615835602084016157fd565b90509250929050565b5f6020828403121561584e575f5ffd5b5035919050565b5f5f60408385031215615866575f5ffd5b61586f836157fd565b946020939093013593505050565b5f5f6040838503121561588e575f5ffd5b615897836157e2565b9150615835602084016157e2565b5f5f604083850312156158b6575f5ffd5b82359150615835602084016157fd565b5f8151808452602084019350602083015f5b828110156158ff5781516001600160a01b03168652602095860195909101906001016158d8565b5093949350505050565b5f8151808452602084019350602083015f5b828110156158ff57815186526020958601959091019060010161591b565b604081525f61594b60408301856158c6565b82810360208401526156f98185615909565b5f6020828403121561596d575f5ffd5b610b6c826157e2565b5f60208284031215615986575f5ffd5b610b6c826157fd565b5f5f604083850312156159a0575f5ffd5b615897836157fd565b5f5f5f606084860312156159bb575f5ffd5b833592506159cb602085016157e2565b91506159d9604085016157fd565b90509250925092565b602081525f610b6c60208301846158c6565b5f5f60408385031215615a05575f5ffd5b50508035926020909101359150565b5f5f83601f840112615a24575f5ffd5b50813567ffffffffffffffff811115615a3b575f5ffd5b602083019150836020828501011115615a52575f5ffd5b9250929050565b5f5f5f5f5f5f5f5f5f5f6101008b8d031215615a73575f5ffd5b8a35995060208b0135985060408b0135975060608b0135965060808b0135955060a08b013561ffff81168114615aa7575f5ffd5b945060c08b013567ffffffffffffffff811115615ac2575f5ffd5b615ace8d828e01615a14565b90955093505060e08b013567ffffffffffffffff811115615aed575f5ffd5b615af98d828e01615a14565b915080935050809150509295989b9194979a5092959850565b5f5f5f5f60808587031215615b25575f5ffd5b84359350615b35602086016157fd565b93969395505050506040820135916060013590565b60a081525f615b5c60a08301886158c6565b8281036020840152615b6e8188615909565b8381036040850152865180825260208089019350909101905f5b81811015615ba85783511515835260209384019390920191600101615b88565b505060608401959095525050608001529392505050565b84815260e0810160208201855f5b6004811015615bec578151835260209283019290910190600101615bcd565b50505060a082019390935260c0015292915050565b5f5f5f60608486031215615c13575f5ffd5b615c1c846157fd565b95602085013595506040909401359392505050565b6060810181835f5b6003811015615c58578151835260209283019290910190600101615c39565b50505092915050565b5f5f5f60608486031215615c73575f5ffd5b615c1c846157e2565b608081525f615c8e6080830187615909565b82810360208401528086518083526020830191506020880192505f5b81811015615ccb57835160ff16835260209384019390920191600101615caa565b50508381036040850152615cdf8187615909565b9150508281036060840152615cf48185615909565b979650505050505050565b602081525f610b6c6020830184615909565b634e487b7160e01b5f52601160045260245ffd5b5f81615d3357615d33615d11565b505f190190565b634e487b7160e01b5f52603260045260245ffd5b5f60018201615d5f57615d5f615d11565b5060010190565b634e487b7160e01b5f52604160045260245ffd5b80820180821115610b6f57610b6f615d11565b634e487b7160e01b5f52601260045260245ffd5b5f82615daf57615daf615d8d565b500690565b63ffffffff8181168382160190811115610b6f57610b6f615d11565b63ffffffff8181168382160290811690818114610d6f57610d6f615d11565b5f82615dfd57615dfd615d8d565b500490565b81810381811115610b6f57610b6f615d11565b5f63ffffffff831680615e2a57615e2a615d8d565b8063ffffffff84160491505092915050565b8082028115828204841417610b6f57610b6f615d11565b60ff8281168282160390811115610b6f57610b6f615d11565b5f60ff821680615e7e57615e7e615d11565b5f190192915050565b634e487b7160e01b5f52603160045260245ffd5b602080825282518282018190525f918401906040840190835b81811015615ed2578351835260209384019390920191600101615eb4565b509095945050505050565b5f60208284031215615eed575f5ffd5b5051919050565b60548110615f1057634e487b7160e01b5f52602160045260245ffd5b9052565b8481526001600160a01b0384166020820152608060408201525f8351806080840152806020860160a085015e5f60a0828501015260a0601f19601f8301168401019150506156f96060830184615ef4565b828152604081016114266020830184615ef456fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c634300081b000a";
 
 type LinkMatchConstructorParams =
   | [signer?: Signer]
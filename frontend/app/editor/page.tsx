@@ -0,0 +1,29 @@
+"use client";
+
+import Link from "next/link";
+import { BoardEditor } from "@/components/BoardEditor";
+
+export default function Editor() {
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="bg-[#0F4C81] text-white shadow-lg">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-4xl font-extrabold">✏️ Board Editor</h1>
+              <p className="text-blue-200 mt-1">Design board shapes for practice games</p>
+            </div>
+            <Link href="/" className="font-semibold bg-blue-900 px-4 py-2 rounded-lg hover:bg-blue-800">
+              ← Back to Game
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <BoardEditor />
+      </main>
+    </div>
+  );
+}
@@ -3,9 +3,24 @@
 import { useFhevm } from "../fhevm/useFhevm";
 import { useInMemoryStorage } from "../hooks/useInMemoryStorage";
 import { useMetaMaskEthersSigner } from "../hooks/metamask/useMetaMaskEthersSigner";
-import { useLinkMatch, GameResult } from "@/hooks/useLinkMatch";
-import { LinkMatchGame } from "@/components/LinkMatchGame";
-import { useState, useEffect, useRef } from "react";
+import { useLinkMatch, GameResult, GameSession } from "@/hooks/useLinkMatch";
+import { LinkMatchGame, Difficulty, DIFFICULTY_CONFIG } from "@/components/LinkMatchGame";
+import { SeasonCountdown } from "@/components/SeasonCountdown";
+import { FriendsPanel } from "@/components/FriendsPanel";
+import { ChallengeInbox } from "@/components/ChallengeInbox";
+import { StatsCard } from "@/components/StatsCard";
+import { DailyCard } from "@/components/DailyCard";
+import { useDaily } from "@/hooks/useDaily";
+import { useFriends } from "@/hooks/useFriends";
+import { hashMoveLog } from "@/game/moveLog";
+import { MISMATCH_PENALTY_SECONDS, SCORE_SCALE, computeScore } from "@/game/scoring";
+import { GAME_MODE_CONFIG, GameRun, RANKED_MODE } from "@/game/engine";
+import { DIFFICULTY_PARAM, SEED_PARAM, isDifficulty, parseSeed } from "@/game/board";
+import type { ReplayFile } from "@/game/replay";
+import { useChallenges, ChallengeEntry } from "@/hooks/useChallenges";
+import { useBadges, BADGE_TIERS } from "@/hooks/useBadges";
+import { useState, useEffect, useRef, useCallback } from "react";
+import Link from "next/link";
 
 // Contract address - should be set after deployment
 // This address is used to interact with the LinkMatch smart contract
@@ -49,9 +64,73 @@ export default function Home() {
     contractAddress: CONTRACT_ADDRESS,
   });
 
+  const friends = useFriends({
+    instance: fhevmInstance,
+    fhevmDecryptionSignatureStorage,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    difficulty: linkMatch.difficulty,
+    contractAddress: CONTRACT_ADDRESS,
+  });
+
+  const challenges = useChallenges({
+    instance: fhevmInstance,
+    fhevmDecryptionSignatureStorage,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    contractAddress: CONTRACT_ADDRESS,
+  });
+
+  const badges = useBadges({
+    instance: fhevmInstance,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    difficulty: linkMatch.difficulty,
+    contractAddress: CONTRACT_ADDRESS,
+  });
+  const [badgeLookup, setBadgeLookup] = useState<string>("");
+
+  const daily = useDaily({
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    contractAddress: CONTRACT_ADDRESS,
+  });
+  // Whether the arena is set up for today's daily board
+  const [isDailyRun, setIsDailyRun] = useState<boolean>(false);
+
   const [gameResult, setGameResult] = useState<GameResult | null>(null);
+  const [replay, setReplay] = useState<ReplayFile | null>(null);
+  const [activeChallenge, setActiveChallenge] = useState<ChallengeEntry | null>(null);
+  // Board loaded from a shared link (?seed=...&difficulty=...); played as practice
+  const [sharedBoard, setSharedBoard] = useState<{ seed: number; difficulty?: Difficulty } | null>(null);
   const [justSubmitted, setJustSubmitted] = useState<boolean>(false);
   const prevIsSubmittingRef = useRef<boolean>(false);
+  // Session the current free-play game was committed to
+  const sessionRef = useRef<GameSession | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const seed = parseSeed(params.get(SEED_PARAM));
+    if (seed !== undefined) {
+      const difficulty = params.get(DIFFICULTY_PARAM);
+      setSharedBoard({ seed, difficulty: isDifficulty(difficulty) ? difficulty : undefined });
+    }
+  }, []);
+
+  const leaveSharedBoard = () => {
+    setSharedBoard(null);
+    window.history.replaceState(null, "", window.location.pathname);
+  };
 
   // Track when submission completes successfully
   useEffect(() => {
@@ -65,10 +144,140 @@ export default function Home() {
     prevIsSubmittingRef.current = linkMatch.isSubmitting;
   }, [linkMatch.isSubmitting, linkMatch.hasSubmitted]);
 
-  const handleGameComplete = (matches: number, timeSeconds: number) => {
-    // Calculate average matches (score) = matches / time
-    const score = timeSeconds > 0 ? matches / timeSeconds : 0;
-    setGameResult({ score, matches, timeSeconds });
+  // Refresh the daily card or the challenge inbox once such a run has been submitted
+  const { loadDaily } = daily;
+  const { loadChallenges } = challenges;
+  useEffect(() => {
+    if (!linkMatch.isSubmitting && gameResult?.daily) {
+      loadDaily();
+    }
+    if (!linkMatch.isSubmitting && gameResult?.challengeId !== undefined) {
+      loadChallenges();
+    }
+  }, [linkMatch.isSubmitting, gameResult, loadDaily, loadChallenges]);
+
+  // Infinite scroll: load the next leaderboard page when the bottom of the table comes into view
+  const leaderboardEndRef = useRef<HTMLDivElement>(null);
+  const { hasMoreLeaderboard, isLoadingLeaderboard, loadMoreLeaderboard } = linkMatch;
+  useEffect(() => {
+    const sentinel = leaderboardEndRef.current;
+    if (!sentinel || !hasMoreLeaderboard || isLoadingLeaderboard) {
+      return;
+    }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        loadMoreLeaderboard();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreLeaderboard, isLoadingLeaderboard, loadMoreLeaderboard]);
+
+  // Free play starts an on-chain session first; the board comes from its seed
+  const { startSession } = linkMatch;
+  const requestBoardSeed = useCallback(
+    async (difficulty: Difficulty): Promise<number | null> => {
+      sessionRef.current = await startSession(difficulty);
+      return sessionRef.current?.boardSeed ?? null;
+    },
+    [startSession]
+  );
+
+  // The daily board uses up today's attempt when it starts
+  const { startDailySession } = daily;
+  const requestDailySeed = useCallback(async (): Promise<number | null> => {
+    sessionRef.current = await startDailySession();
+    return sessionRef.current?.boardSeed ?? null;
+  }, [startDailySession]);
+
+  // A challenge is played in its own session, on the challenge's board
+  const { startChallengeSession } = challenges;
+  const requestChallengeSeed = useCallback(async (): Promise<number | null> => {
+    if (!activeChallenge) {
+      return null;
+    }
+    sessionRef.current = await startChallengeSession(activeChallenge.id);
+    return sessionRef.current?.boardSeed ?? null;
+  }, [activeChallenge, startChallengeSession]);
+
+  const playDaily = () => {
+    setActiveChallenge(null);
+    setIsDailyRun(true);
+  };
+
+  const playChallenge = (challenge: ChallengeEntry) => {
+    setIsDailyRun(false);
+    setActiveChallenge(challenge);
+  };
+
+  // Daily board the arena is set up for (a challenge takes precedence)
+  const dailyBoard = !activeChallenge && isDailyRun ? daily.daily : undefined;
+
+  const handleGameComplete = ({
+    matches,
+    mismatches,
+    clicks,
+    accuracy,
+    timeSeconds,
+    difficulty,
+    mode,
+    seed,
+    layout,
+    penaltySeconds,
+    moves,
+  }: GameRun) => {
+    // Shared and shaped boards and other rules than the ranked one are practice runs
+    // without a session
+    const session = sessionRef.current;
+    if (!session && !sharedBoard && !layout && mode === RANKED_MODE) {
+      return;
+    }
+    sessionRef.current = null;
+    setIsDailyRun(false);
+    setActiveChallenge(null);
+
+    // Preview of the score the contract derives from the encrypted matches and time
+    const score = computeScore(matches, timeSeconds, difficulty, penaltySeconds, mismatches);
+    setGameResult({
+      score,
+      matches,
+      mismatches,
+      clicks,
+      accuracy,
+      timeSeconds,
+      penaltySeconds,
+      difficulty,
+      mode,
+      seed,
+      layoutName: layout?.name,
+      sessionId: session?.id,
+      daily: isDailyRun,
+      challengeId: activeChallenge?.id,
+      moveLogHash: hashMoveLog(moves),
+    });
+    setReplay({
+      version: 1,
+      sessionId: session?.id.toString(),
+      difficulty,
+      mode,
+      seed,
+      ...(layout ? { layout } : {}),
+      moves,
+    });
+  };
+
+  // Download the last run's move log so moderators can audit it offline
+  const handleExportReplay = () => {
+    if (!replay) {
+      return;
+    }
+    const blob = new Blob([JSON.stringify(replay, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `linkmatch-replay-${replay.sessionId ?? `seed-${replay.seed}`}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
   const handleSubmit = () => {
@@ -152,10 +361,18 @@ export default function Home() {
               <h1 className="text-4xl font-extrabold">🎮 LinkMatch</h1>
               <p className="text-blue-200 mt-1">Privacy-Preserving Memory Game</p>
             </div>
-            <div className="text-right">
-              <div className="text-sm text-blue-200">Connected Account</div>
-              <div className="font-mono text-sm bg-blue-900 px-3 py-1 rounded mt-1">
-                {accounts?.[0] ? `${accounts[0].slice(0, 6)}...${accounts[0].slice(-4)}` : "N/A"}
+            <div className="flex items-center gap-6">
+              <Link href="/runs" className="font-semibold bg-blue-900 px-4 py-2 rounded-lg hover:bg-blue-800">
+                📈 My Runs
+              </Link>
+              <Link href="/editor" className="font-semibold bg-blue-900 px-4 py-2 rounded-lg hover:bg-blue-800">
+                ✏️ Board Editor
+              </Link>
+              <div className="text-right">
+                <div className="text-sm text-blue-200">Connected Account</div>
+                <div className="font-mono text-sm bg-blue-900 px-3 py-1 rounded mt-1">
+                  {accounts?.[0] ? `${accounts[0].slice(0, 6)}...${accounts[0].slice(-4)}` : "N/A"}
+                </div>
               </div>
             </div>
           </div>
@@ -164,13 +381,67 @@ export default function Home() {
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
+        {/* Daily Challenge Section */}
+        <DailyCard daily={daily} isActive={Boolean(dailyBoard)} onPlay={playDaily} />
+
         {/* Game Section */}
         <section className="mb-8">
           <div className="card">
             <h2 className="card-header">🎯 Game Arena</h2>
+            {activeChallenge && (
+              <div className="info-box flex justify-between items-center mb-4">
+                <span className="font-semibold text-gray-900">
+                  ⚔️ Challenge #{activeChallenge.id}: starting uses your only attempt, submit your result to the duel
+                </span>
+                <button className="btn-danger text-sm" onClick={() => setActiveChallenge(null)}>
+                  Cancel
+                </button>
+              </div>
+            )}
+            {dailyBoard && (
+              <div className="info-box flex justify-between items-center mb-4">
+                <span className="font-semibold text-gray-900">
+                  📅 Daily board: starting uses today&apos;s only ranked attempt, submit your result before leaving
+                </span>
+                <button className="btn-danger text-sm" onClick={() => setIsDailyRun(false)}>
+                  Cancel
+                </button>
+              </div>
+            )}
+            {!activeChallenge && !isDailyRun && sharedBoard && (
+              <div className="info-box flex justify-between items-center mb-4">
+                <span className="font-semibold text-gray-900">
+                  🔗 Shared board (seed {sharedBoard.seed}): practice run, the result cannot be submitted
+                </span>
+                <button className="btn-danger text-sm" onClick={leaveSharedBoard}>
+                  Play Ranked
+                </button>
+              </div>
+            )}
             <LinkMatchGame
+              key={
+                activeChallenge
+                  ? `challenge-${activeChallenge.id}`
+                  : dailyBoard
+                  ? `daily-${dailyBoard.day}`
+                  : sharedBoard
+                  ? `shared-${sharedBoard.seed}`
+                  : "free-play"
+              }
               onGameComplete={handleGameComplete}
               disabled={false}
+              seed={activeChallenge?.boardSeed ?? dailyBoard?.boardSeed ?? sharedBoard?.seed}
+              lockedDifficulty={activeChallenge?.difficulty ?? dailyBoard?.difficulty ?? sharedBoard?.difficulty}
+              lockedMode={activeChallenge || dailyBoard ? RANKED_MODE : undefined}
+              requestBoardSeed={
+                activeChallenge
+                  ? requestChallengeSeed
+                  : dailyBoard
+                  ? requestDailySeed
+                  : sharedBoard
+                  ? undefined
+                  : requestBoardSeed
+              }
             />
           </div>
         </section>
@@ -189,9 +460,38 @@ export default function Home() {
                     <div className="text-sm text-gray-600">Matches Made</div>
                     <div className="text-2xl font-bold text-[#0F4C81]">{gameResult.matches}</div>
                   </div>
+                  <div className="bg-white border border-[#0F4C81] rounded-lg p-3">
+                    <div className="text-sm text-gray-600">Accuracy</div>
+                    <div className="text-2xl font-bold text-[#0F4C81]">
+                      {Math.round(gameResult.accuracy * 100)}%
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {gameResult.mismatches} {gameResult.mismatches === 1 ? "mismatch" : "mismatches"} ·{" "}
+                      {gameResult.clicks} clicks
+                    </div>
+                  </div>
                   <div className="bg-white border border-[#0F4C81] rounded-lg p-3">
                     <div className="text-sm text-gray-600">Time Elapsed</div>
-                    <div className="text-2xl font-bold text-[#0F4C81]">{gameResult.timeSeconds}s</div>
+                    <div className="text-2xl font-bold text-[#0F4C81]">
+                      {gameResult.timeSeconds}s
+                      {gameResult.penaltySeconds > 0 && (
+                        <span className="text-base text-red-600"> +{gameResult.penaltySeconds}s penalty</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="bg-white border border-[#0F4C81] rounded-lg p-3">
+                    <div className="text-sm text-gray-600">Difficulty</div>
+                    <div className="text-2xl font-bold text-[#0F4C81]">
+                      {DIFFICULTY_CONFIG[gameResult.difficulty].label}
+                      {gameResult.daily && " · Daily"}
+                      {gameResult.challengeId !== undefined && ` · Challenge #${gameResult.challengeId}`}
+                      {gameResult.mode !== RANKED_MODE && ` · ${GAME_MODE_CONFIG[gameResult.mode].label}`}
+                      {gameResult.layoutName && ` · ${gameResult.layoutName}`}
+                    </div>
+                  </div>
+                  <div className="bg-white border border-[#0F4C81] rounded-lg p-3">
+                    <div className="text-sm text-gray-600">Board Seed</div>
+                    <div className="text-2xl font-mono font-bold text-[#0F4C81]">{gameResult.seed}</div>
                   </div>
                   <div className="col-span-2 bg-white border-2 border-[#065F46] rounded-lg p-3">
                     <div className="text-sm text-gray-600">Performance Score</div>
@@ -199,10 +499,15 @@ export default function Home() {
                       {gameResult.score.toFixed(3)}
                     </div>
                     <div className="text-xs text-gray-500 mt-1">
-                      (Matches per Second)
+                      (Matches per Second; each mismatch adds {MISMATCH_PENALTY_SECONDS}s)
                     </div>
                   </div>
                 </div>
+                {replay && (
+                  <button className="btn-primary w-full mt-4" onClick={handleExportReplay}>
+                    💾 Export Replay ({replay.moves.length} clicks)
+                  </button>
+                )}
               </div>
             ) : (
               <div className="info-box mb-6 text-center">
@@ -236,7 +541,11 @@ export default function Home() {
                 <div className="bg-white border border-[#065F46] rounded-lg p-4">
                   <div className="text-sm text-gray-600">Your Verified Score</div>
                   <div className="text-3xl font-bold text-[#065F46]">
-                    {(Number(linkMatch.clearResult.score?.clear || 0) / 1000).toFixed(3)}
+                    {(Number(linkMatch.clearResult.score?.clear || 0) / SCORE_SCALE).toFixed(3)}
+                  </div>
+                  <div className="text-sm text-gray-600 mt-2">
+                    {Number(linkMatch.clearResult.matches?.clear || 0)} matches in{" "}
+                    {Number(linkMatch.clearResult.timeSeconds?.clear || 0)}s
                   </div>
                 </div>
               </div>
@@ -250,7 +559,7 @@ export default function Home() {
             <div className="space-y-4 mb-6">
               <button
                 className="btn-success w-full text-lg"
-                disabled={!linkMatch.canSubmit || !gameResult}
+                disabled={!linkMatch.canSubmit || !gameResult || gameResult.sessionId === undefined}
                 onClick={handleSubmit}
               >
                 {linkMatch.isSubmitting ? (
@@ -297,6 +606,29 @@ export default function Home() {
                   </>
                 )}
               </button>
+
+              <button
+                className="btn-primary w-full text-lg"
+                disabled={!linkMatch.hasSubmitted || linkMatch.isUpdatingVisibility}
+                onClick={() => linkMatch.setPublicScore(!linkMatch.isScorePublic)}
+              >
+                {linkMatch.isUpdatingVisibility ? (
+                  <>
+                    <span className="inline-block animate-spin mr-2">⏳</span>
+                    Updating Visibility...
+                  </>
+                ) : linkMatch.isScorePublic ? (
+                  <>
+                    <span className="mr-2">🙈</span>
+                    Hide My Score From Leaderboard
+                  </>
+                ) : (
+                  <>
+                    <span className="mr-2">📢</span>
+                    Reveal My Best Score Publicly
+                  </>
+                )}
+              </button>
             </div>
 
             {/* Status Information */}
@@ -334,6 +666,147 @@ export default function Home() {
           </div>
         </div>
 
+        {/* Rank Section */}
+        <section className="card mb-8">
+          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+            <div>
+              <h2 className="text-3xl font-bold text-gray-900 flex items-center">
+                <span className="mr-3">🎖️</span>
+                Your Rank
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">
+                {DIFFICULTY_CONFIG[linkMatch.difficulty].label} leaderboard of the current season, computed on-chain over
+                encrypted scores; only you can decrypt it
+              </p>
+            </div>
+            <div className="flex items-center gap-6">
+              <div className="text-center">
+                <div className="text-sm text-gray-600">Current Rank</div>
+                <div className="text-4xl font-bold text-[#065F46]">
+                  {linkMatch.myRank ? `#${linkMatch.myRank.clear.toString()}` : "—"}
+                </div>
+              </div>
+              <button
+                className="btn-primary"
+                disabled={!linkMatch.canGetRank}
+                onClick={linkMatch.getMyRank}
+              >
+                {linkMatch.isRanking ? (
+                  <>
+                    <span className="inline-block animate-spin mr-2">⏳</span>
+                    Computing...
+                  </>
+                ) : (
+                  <>
+                    <span className="mr-2">🔐</span>
+                    Compute My Rank
+                  </>
+                )}
+              </button>
+            </div>
+          </div>
+        </section>
+
+        {/* Statistics Section */}
+        <StatsCard
+          stats={linkMatch.stats}
+          isLoading={linkMatch.isLoadingStats}
+          isPublishing={linkMatch.isPublishingStats}
+          canPublish={Boolean(linkMatch.contractAddress && ethersSigner)}
+          onRefresh={linkMatch.refreshStats}
+          onPublish={linkMatch.publishStats}
+        />
+
+        {/* Badges Section */}
+        <section className="card mb-8">
+          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+            <div>
+              <h2 className="text-3xl font-bold text-gray-900 flex items-center">
+                <span className="mr-3">🏅</span>
+                Badges
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Prove your {DIFFICULTY_CONFIG[linkMatch.difficulty].label} best score beat a threshold; only the
+                pass/fail of each tier is public, never the score
+              </p>
+            </div>
+            <button
+              className="btn-success"
+              disabled={!linkMatch.hasSubmitted || badges.isClaiming}
+              onClick={badges.claimBadges}
+            >
+              {badges.isClaiming ? (
+                <>
+                  <span className="inline-block animate-spin mr-2">⏳</span>
+                  Claiming...
+                </>
+              ) : (
+                <>
+                  <span className="mr-2">🏅</span>
+                  Claim My Badges
+                </>
+              )}
+            </button>
+          </div>
+
+          <div className="flex gap-2 mb-6">
+            <input
+              className="flex-1 border-2 border-gray-300 rounded-lg px-3 py-2 font-mono text-sm"
+              placeholder="0x player address (empty for yours)"
+              value={badgeLookup}
+              onChange={(e) => setBadgeLookup(e.target.value)}
+            />
+            <button
+              className="btn-primary"
+              disabled={!badges.contractAddress || badges.isLoading || (!badgeLookup.trim() && !ethersSigner)}
+              onClick={() => badges.loadBadges(badgeLookup.trim() || ethersSigner!.address)}
+            >
+              {badges.isLoading ? "Loading..." : "View Badges"}
+            </button>
+          </div>
+
+          {badges.badgesPlayer && (
+            <p className="text-sm text-gray-600 mb-3">
+              Badges of{" "}
+              <span className="font-mono">{`${badges.badgesPlayer.slice(0, 6)}...${badges.badgesPlayer.slice(-4)}`}</span>
+            </p>
+          )}
+          <div className="grid grid-cols-3 gap-4">
+            {BADGE_TIERS.map((tier, index) => {
+              const earned = badges.badges?.[index];
+              return (
+                <div
+                  key={tier.label}
+                  className={`rounded-xl border-2 p-4 text-center ${
+                    earned ? "border-[#065F46] bg-green-50" : "border-gray-300 bg-gray-50 opacity-60"
+                  }`}
+                >
+                  <div className="text-4xl mb-2">{earned ? tier.icon : "🔒"}</div>
+                  <div className="font-bold text-gray-900">{tier.label}</div>
+                  <div className="text-xs text-gray-600">≥ {(tier.threshold / SCORE_SCALE).toFixed(3)} matches/sec</div>
+                </div>
+              );
+            })}
+          </div>
+
+          {badges.message && (
+            <p className="text-sm text-gray-700 mt-4">
+              <strong>Message:</strong> {badges.message}
+            </p>
+          )}
+        </section>
+
+        {/* Challenges Section */}
+        <ChallengeInbox
+          challenges={challenges}
+          account={ethersSigner?.address}
+          activeChallengeId={activeChallenge?.id}
+          onPlay={playChallenge}
+        />
+
+        {/* Friends Section */}
+        <FriendsPanel friends={friends} difficultyLabel={DIFFICULTY_CONFIG[linkMatch.difficulty].label} />
+
         {/* Leaderboard Section */}
         <section className="card">
           <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-6 gap-4">
@@ -360,6 +833,69 @@ export default function Home() {
             </button>
           </div>
 
+          {/* Season selector and countdown */}
+          {linkMatch.currentSeason && (
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4 info-box">
+              <label className="flex items-center gap-3 font-semibold text-gray-900">
+                <span>📅 Season</span>
+                <select
+                  className="border-2 border-gray-300 rounded-lg px-3 py-2 bg-white"
+                  value={linkMatch.leaderboardSeasonId ?? linkMatch.currentSeason.id}
+                  onChange={(e) => linkMatch.setLeaderboardSeasonId(Number(e.target.value))}
+                  disabled={linkMatch.isLoadingLeaderboard}
+                >
+                  {Array.from({ length: linkMatch.currentSeason.id + 1 }, (_, i) => linkMatch.currentSeason!.id - i).map((id) => (
+                    <option key={id} value={id}>
+                      {id === linkMatch.currentSeason!.id ? `Season ${id} (current)` : `Season ${id}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <SeasonCountdown
+                endTimestamp={linkMatch.currentSeason.endTimestamp}
+                onSeasonEnd={linkMatch.refreshSeason}
+              />
+            </div>
+          )}
+
+          {/* Difficulty tabs */}
+          <div className="flex gap-2 mb-6 border-b-2 border-gray-200">
+            {(Object.keys(DIFFICULTY_CONFIG) as Difficulty[]).map((diff) => (
+              <button
+                key={diff}
+                onClick={() => linkMatch.setDifficulty(diff)}
+                disabled={linkMatch.isLoadingLeaderboard}
+                className={`px-6 py-3 font-bold text-lg -mb-0.5 border-b-4 transition-colors ${
+                  linkMatch.difficulty === diff
+                    ? "border-[#0F4C81] text-[#0F4C81]"
+                    : "border-transparent text-gray-500 hover:text-[#0F4C81]"
+                }`}
+              >
+                {DIFFICULTY_CONFIG[diff].label}
+                <span className="ml-2 text-xs opacity-80">
+                  {DIFFICULTY_CONFIG[diff].rows}×{DIFFICULTY_CONFIG[diff].cols}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {/* Paging progress */}
+          {linkMatch.leaderboardProgress && linkMatch.leaderboardProgress.total > 0 && (
+            <div className="mb-6">
+              <div className="w-full bg-gray-200 rounded-full h-3">
+                <div
+                  className="bg-[#0F4C81] h-3 rounded-full transition-all"
+                  style={{
+                    width: `${(linkMatch.leaderboardProgress.loaded / linkMatch.leaderboardProgress.total) * 100}%`,
+                  }}
+                />
+              </div>
+              <p className="text-sm text-gray-600 mt-1">
+                {linkMatch.leaderboardProgress.loaded} / {linkMatch.leaderboardProgress.total} players loaded
+              </p>
+            </div>
+          )}
+
           {linkMatch.leaderboard.length === 0 ? (
             <div className="info-box text-center py-12">
               <div className="text-6xl mb-4">📋</div>
@@ -367,7 +903,7 @@ export default function Home() {
                 No Leaderboard Data Available
               </p>
               <p className="text-gray-600">
-                Click the refresh button above to load the top players
+                Click the refresh button above to load the players
               </p>
             </div>
           ) : (
@@ -377,36 +913,57 @@ export default function Home() {
                   <tr>
                     <th className="px-6 py-4 text-left font-bold text-lg">Rank</th>
                     <th className="px-6 py-4 text-left font-bold text-lg">Player Address</th>
-                    <th className="px-6 py-4 text-left font-bold text-lg">Encrypted Score</th>
+                    <th className="px-6 py-4 text-left font-bold text-lg">Score</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200">
-                  {linkMatch.leaderboard.map((entry, index) => (
-                    <tr key={entry.address} className="hover:bg-blue-50 transition-colors">
-                      <td className="px-6 py-4">
-                        <div className="flex items-center">
-                          <span className="text-2xl mr-3">
-                            {index === 0 ? "🥇" : index === 1 ? "🥈" : index === 2 ? "🥉" : ""}
-                          </span>
-                          <span className="text-lg font-bold text-gray-900">
-                            #{index + 1}
+                  {linkMatch.leaderboard.map((entry, index) => {
+                    const isRevealed = entry.clearScore !== undefined;
+                    return (
+                      <tr key={entry.address} className="hover:bg-blue-50 transition-colors">
+                        <td className="px-6 py-4">
+                          <div className="flex items-center">
+                            <span className="text-2xl mr-3">
+                              {!isRevealed ? "" : index === 0 ? "🥇" : index === 1 ? "🥈" : index === 2 ? "🥉" : ""}
+                            </span>
+                            <span className="text-lg font-bold text-gray-900">
+                              {isRevealed ? `#${index + 1}` : "?"}
+                            </span>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className="font-mono text-sm bg-gray-100 px-3 py-1 rounded border border-gray-300">
+                            {`${entry.address.slice(0, 6)}...${entry.address.slice(-4)}`}
                           </span>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4">
-                        <span className="font-mono text-sm bg-gray-100 px-3 py-1 rounded border border-gray-300">
-                          {`${entry.address.slice(0, 6)}...${entry.address.slice(-4)}`}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4">
-                        <span className="font-mono text-xs text-gray-600 break-all">
-                          {entry.encryptedScore.slice(0, 32)}...
-                        </span>
-                      </td>
-                    </tr>
-                  ))}
+                        </td>
+                        <td className="px-6 py-4">
+                          {isRevealed ? (
+                            <span className="text-xl font-bold text-[#065F46]">
+                              {(entry.clearScore! / 1000).toFixed(3)}
+                            </span>
+                          ) : (
+                            <span className="font-mono text-xs text-gray-600 break-all">
+                              🔒 {entry.encryptedScore.slice(0, 32)}...
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
+              <div ref={leaderboardEndRef} className="py-4 text-center text-sm text-gray-600">
+                {linkMatch.isLoadingLeaderboard ? (
+                  <>
+                    <span className="inline-block animate-spin mr-2">⏳</span>
+                    Loading more players...
+                  </>
+                ) : linkMatch.hasMoreLeaderboard ? (
+                  "Scroll to load more players"
+                ) : (
+                  "All players loaded"
+                )}
+              </div>
             </div>
           )}
         </section>
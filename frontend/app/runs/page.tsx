@@ -0,0 +1,196 @@
+"use client";
+
+import Link from "next/link";
+import { useFhevm } from "../../fhevm/useFhevm";
+import { useInMemoryStorage } from "../../hooks/useInMemoryStorage";
+import { useMetaMaskEthersSigner } from "../../hooks/metamask/useMetaMaskEthersSigner";
+import { useRunHistory } from "@/hooks/useRunHistory";
+import { DIFFICULTY_CONFIG } from "@/components/LinkMatchGame";
+import { ScoreChart } from "@/components/ScoreChart";
+
+// Contract address - should be set after deployment
+const CONTRACT_ADDRESS = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || "";
+
+export default function MyRuns() {
+  const { storage: fhevmDecryptionSignatureStorage } = useInMemoryStorage();
+  const {
+    provider,
+    chainId,
+    isConnected,
+    connect,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    initialMockChains,
+  } = useMetaMaskEthersSigner();
+
+  const { instance: fhevmInstance } = useFhevm({
+    provider,
+    chainId,
+    initialMockChains,
+    enabled: true,
+  });
+
+  const history = useRunHistory({
+    instance: fhevmInstance,
+    fhevmDecryptionSignatureStorage,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    contractAddress: CONTRACT_ADDRESS,
+  });
+
+  const decryptedPoints = history.runs
+    .filter((r) => r.clearScore !== undefined)
+    .map((r) => ({
+      timestamp: r.timestamp,
+      score: r.clearScore! / 1000,
+      difficulty: r.difficulty,
+    }));
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="bg-[#0F4C81] text-white shadow-lg">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-4xl font-extrabold">📈 My Runs</h1>
+              <p className="text-blue-200 mt-1">Every encrypted submission, decrypted only for you</p>
+            </div>
+            <Link href="/" className="font-semibold bg-blue-900 px-4 py-2 rounded-lg hover:bg-blue-800">
+              ← Back to Game
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        {!isConnected ? (
+          <div className="card text-center max-w-xl mx-auto">
+            <p className="text-lg text-gray-700 mb-6">Connect your wallet to load your run history.</p>
+            <button className="btn-primary text-xl py-4 w-full" onClick={connect}>
+              🦊 Connect MetaMask
+            </button>
+          </div>
+        ) : (
+          <>
+            <section className="card mb-8">
+              <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+                <h2 className="text-3xl font-bold text-gray-900">Progress Over Time</h2>
+                <div className="flex gap-3">
+                  <button
+                    className="btn-primary"
+                    disabled={!history.contractAddress || history.isLoading || history.isDecrypting}
+                    onClick={history.loadRuns}
+                  >
+                    {history.isLoading ? (
+                      <>
+                        <span className="inline-block animate-spin mr-2">⏳</span>
+                        Loading...
+                      </>
+                    ) : (
+                      <>
+                        <span className="mr-2">🔄</span>
+                        Load My Runs
+                      </>
+                    )}
+                  </button>
+                  <button
+                    className="btn-success"
+                    disabled={!history.canDecrypt}
+                    onClick={history.decryptRuns}
+                  >
+                    {history.isDecrypting ? (
+                      <>
+                        <span className="inline-block animate-spin mr-2">⏳</span>
+                        Decrypting...
+                      </>
+                    ) : (
+                      <>
+                        <span className="mr-2">🔓</span>
+                        Decrypt All
+                      </>
+                    )}
+                  </button>
+                </div>
+              </div>
+
+              {history.progress && (
+                <div className="mb-6">
+                  <div className="w-full bg-gray-200 rounded-full h-3">
+                    <div
+                      className="bg-[#0F4C81] h-3 rounded-full transition-all"
+                      style={{ width: `${(history.progress.done / Math.max(history.progress.total, 1)) * 100}%` }}
+                    />
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {history.progress.done} / {history.progress.total}
+                  </p>
+                </div>
+              )}
+
+              {decryptedPoints.length > 0 ? (
+                <ScoreChart points={decryptedPoints} />
+              ) : (
+                <div className="info-box text-center py-12">
+                  <div className="text-6xl mb-4">📊</div>
+                  <p className="text-gray-700 font-semibold">
+                    Load and decrypt your runs to see your progress chart
+                  </p>
+                </div>
+              )}
+
+              {history.message && (
+                <p className="text-sm text-gray-700 mt-4">
+                  <strong>Message:</strong> {history.message}
+                </p>
+              )}
+            </section>
+
+            {history.runs.length > 0 && (
+              <section className="card">
+                <h2 className="card-header">🗂️ All Runs</h2>
+                <div className="table-container">
+                  <table className="w-full">
+                    <thead className="bg-[#0F4C81] text-white">
+                      <tr>
+                        <th className="px-6 py-4 text-left font-bold">#</th>
+                        <th className="px-6 py-4 text-left font-bold">Date</th>
+                        <th className="px-6 py-4 text-left font-bold">Season</th>
+                        <th className="px-6 py-4 text-left font-bold">Difficulty</th>
+                        <th className="px-6 py-4 text-left font-bold">Score</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {[...history.runs].reverse().map((run) => (
+                        <tr key={run.index} className="hover:bg-blue-50 transition-colors">
+                          <td className="px-6 py-3 font-bold text-gray-900">{run.index + 1}</td>
+                          <td className="px-6 py-3 text-gray-700">
+                            {new Date(run.timestamp * 1000).toLocaleString()}
+                          </td>
+                          <td className="px-6 py-3 text-gray-700">{run.seasonId}</td>
+                          <td className="px-6 py-3 text-gray-700">{DIFFICULTY_CONFIG[run.difficulty].label}</td>
+                          <td className="px-6 py-3">
+                            {run.clearScore !== undefined ? (
+                              <span className="font-bold text-[#065F46]">{(run.clearScore / 1000).toFixed(3)}</span>
+                            ) : (
+                              <span className="font-mono text-xs text-gray-600">🔒 {run.handle.slice(0, 18)}...</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
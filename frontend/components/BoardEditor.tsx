@@ -0,0 +1,228 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Difficulty, DIFFICULTY_CONFIG, generateGrid, layoutDifficulty } from "@/game/board";
+import {
+  HOLE,
+  LAYOUT_SHAPES,
+  Layout,
+  LayoutShape,
+  TILE,
+  layoutCells,
+  parseLayout,
+  shapeLayout,
+  validateLayout,
+} from "@/game/layout";
+
+// File name of a saved layout
+const layoutFileName = (layout: Layout): string =>
+  `linkmatch-layout-${layout.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-") || "custom"}.json`;
+
+export const BoardEditor: React.FC = () => {
+  const [difficulty, setDifficulty] = useState<Difficulty>("medium");
+  const [layout, setLayout] = useState<Layout>(() => {
+    const { rows, cols } = DIFFICULTY_CONFIG.medium;
+    return { ...shapeLayout("full", rows, cols), name: "My Board" };
+  });
+  // Value painted while the mouse button is held (null when not painting)
+  const [paint, setPaint] = useState<boolean | null>(null);
+  const [message, setMessage] = useState("");
+
+  const { rows, cols } = DIFFICULTY_CONFIG[difficulty];
+  const cells = layoutCells(layout);
+  const tiles = cells.filter(Boolean).length;
+  const validationErrors = validateLayout(layout, rows, cols);
+  const isValid = validationErrors.length === 0;
+  // A valid layout can still be too crowded for any board on it to be cleared; try one
+  const generationError = useMemo(() => {
+    if (!isValid) {
+      return undefined;
+    }
+    try {
+      generateGrid(difficulty, 0, layout);
+      return undefined;
+    } catch (e) {
+      return e instanceof Error ? e.message : String(e);
+    }
+  }, [isValid, layout, difficulty]);
+  const errors = generationError ? [generationError] : validationErrors;
+
+  const setCell = (id: number, active: boolean) => {
+    const row = Math.floor(id / cols);
+    const col = id % cols;
+    setLayout((current) => ({
+      ...current,
+      mask: current.mask.map((line, r) =>
+        r === row ? line.slice(0, col) + (active ? TILE : HOLE) + line.slice(col + 1) : line
+      ),
+    }));
+  };
+
+  // Start over from a named shape, keeping the name
+  const applyShape = (shape: LayoutShape, size: Difficulty = difficulty) => {
+    const { rows, cols } = DIFFICULTY_CONFIG[size];
+    setLayout((current) => ({ ...shapeLayout(shape, rows, cols), name: current.name }));
+  };
+
+  const changeDifficulty = (size: Difficulty) => {
+    setDifficulty(size);
+    applyShape("full", size);
+  };
+
+  const saveLayout = () => {
+    const blob = new Blob([JSON.stringify(layout, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = layoutFileName(layout);
+    link.click();
+    URL.revokeObjectURL(url);
+    setMessage(`Saved ${link.download}`);
+  };
+
+  const loadLayout = async (file: File) => {
+    try {
+      const loaded = parseLayout(await file.text());
+      const size = layoutDifficulty(loaded);
+      if (!size) {
+        throw new Error("The layout does not match any difficulty's grid size");
+      }
+      setDifficulty(size);
+      setLayout(loaded);
+      setMessage(`Loaded ${file.name}`);
+    } catch (e) {
+      setMessage(`Cannot load ${file.name}: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  return (
+    <section className="card mb-8">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 flex items-center">
+            <span className="mr-3">✏️</span>
+            Board Editor
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Click or drag over cells to toggle tiles and holes, then save the layout and load it in the game
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <label className="btn-primary cursor-pointer">
+            <span className="mr-2">📂</span>
+            Load JSON
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) loadLayout(file);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          <button className="btn-success" disabled={errors.length > 0} onClick={saveLayout}>
+            <span className="mr-2">💾</span>
+            Save JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="space-y-6">
+          <div>
+            <p className="font-bold text-gray-900 mb-2">Name</p>
+            <input
+              className="w-full border-2 border-gray-300 rounded-lg px-3 py-2 text-sm"
+              value={layout.name}
+              onChange={(e) => setLayout((current) => ({ ...current, name: e.target.value }))}
+            />
+          </div>
+
+          <div>
+            <p className="font-bold text-gray-900 mb-2">Grid Size</p>
+            <div className="flex gap-2">
+              {(Object.keys(DIFFICULTY_CONFIG) as Difficulty[]).map((d) => (
+                <button
+                  key={d}
+                  onClick={() => changeDifficulty(d)}
+                  className={`px-4 py-2 rounded-lg font-bold border-2 ${
+                    difficulty === d
+                      ? "bg-[#0F4C81] text-white border-[#0F4C81]"
+                      : "bg-white text-gray-700 border-gray-300 hover:border-[#0F4C81]"
+                  }`}
+                >
+                  {DIFFICULTY_CONFIG[d].label} ({DIFFICULTY_CONFIG[d].rows}×{DIFFICULTY_CONFIG[d].cols})
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="font-bold text-gray-900 mb-2">Start From</p>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(LAYOUT_SHAPES) as LayoutShape[]).map((shape) => (
+                <button
+                  key={shape}
+                  onClick={() => applyShape(shape)}
+                  className="px-4 py-2 rounded-lg font-bold border-2 bg-white text-gray-700 border-gray-300 hover:border-[#0F4C81]"
+                >
+                  {LAYOUT_SHAPES[shape].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className={errors.length > 0 ? "info-box" : "success-box"}>
+            <p className="font-semibold text-gray-900">
+              {tiles} tiles · {Math.floor(tiles / 2)} pairs
+            </p>
+            {errors.length > 0 ? (
+              <ul className="text-sm text-red-600 mt-2 space-y-1">
+                {errors.map((error) => (
+                  <li key={error}>• {error}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-700 mt-2">✅ Ready to save</p>
+            )}
+          </div>
+        </div>
+
+        <div className="lg:col-span-2">
+          <div
+            className="grid gap-2 bg-gray-100 p-4 rounded-xl border-2 border-gray-300 select-none"
+            style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))` }}
+            onMouseLeave={() => setPaint(null)}
+            onMouseUp={() => setPaint(null)}
+          >
+            {cells.map((active, id) => (
+              <div
+                key={id}
+                onMouseDown={() => {
+                  setPaint(!active);
+                  setCell(id, !active);
+                }}
+                onMouseEnter={() => {
+                  if (paint !== null) setCell(id, paint);
+                }}
+                className={`aspect-square rounded-lg cursor-pointer border-2 transition-colors ${
+                  active
+                    ? "bg-white border-gray-300 hover:border-[#0F4C81] shadow-sm"
+                    : "bg-transparent border-dashed border-gray-300 hover:border-[#0F4C81]"
+                }`}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {message && (
+        <p className="text-sm text-gray-700 mt-4">
+          <strong>Message:</strong> {message}
+        </p>
+      )}
+    </section>
+  );
+};
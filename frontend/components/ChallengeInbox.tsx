@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import { Difficulty, DIFFICULTY_CONFIG } from "@/components/LinkMatchGame";
+import { CHALLENGE_OUTCOME, CHALLENGE_TIMEOUT_SECONDS, ChallengeEntry, ChallengesState } from "@/hooks/useChallenges";
+
+interface ChallengeInboxProps {
+  challenges: ChallengesState;
+  account: string | undefined;
+  activeChallengeId?: number;
+  onPlay: (challenge: ChallengeEntry) => void;
+}
+
+const shortAddress = (address: string): string => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Outcome from the connected player's point of view
+const describeOutcome = (challenge: ChallengeEntry, isChallenger: boolean): string => {
+  if (challenge.outcome === CHALLENGE_OUTCOME.draw) {
+    return "🤝 Draw";
+  }
+  const challengerWon = challenge.outcome === CHALLENGE_OUTCOME.challengerWon;
+  return challengerWon === isChallenger ? "🏆 You won" : "😞 You lost";
+};
+
+export const ChallengeInbox: React.FC<ChallengeInboxProps> = ({
+  challenges,
+  account,
+  activeChallengeId,
+  onPlay,
+}) => {
+  const [opponent, setOpponent] = useState<string>("");
+  const [difficulty, setDifficulty] = useState<Difficulty>("medium");
+
+  const handleCreate = () => {
+    challenges.createChallenge(opponent.trim(), difficulty);
+    setOpponent("");
+  };
+
+  return (
+    <section className="card mb-8">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 flex items-center">
+            <span className="mr-3">⚔️</span>
+            Challenges
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Duel a friend on the same board within {CHALLENGE_TIMEOUT_SECONDS / (24 * 60 * 60)} days; scores stay
+            encrypted and only the winner is revealed to both of you
+          </p>
+        </div>
+        <button
+          className="btn-primary"
+          disabled={!challenges.contractAddress || challenges.isLoading}
+          onClick={challenges.loadChallenges}
+        >
+          {challenges.isLoading ? (
+            <>
+              <span className="inline-block animate-spin mr-2">⏳</span>
+              Loading...
+            </>
+          ) : (
+            <>
+              <span className="mr-2">🔄</span>
+              Refresh Inbox
+            </>
+          )}
+        </button>
+      </div>
+
+      {/* New challenge */}
+      <div className="flex flex-col sm:flex-row gap-2 mb-6">
+        <input
+          className="flex-1 border-2 border-gray-300 rounded-lg px-3 py-2 font-mono text-sm"
+          placeholder="0x opponent address"
+          value={opponent}
+          onChange={(e) => setOpponent(e.target.value)}
+          disabled={challenges.isSubmitting}
+        />
+        <select
+          className="border-2 border-gray-300 rounded-lg px-3 py-2 bg-white"
+          value={difficulty}
+          onChange={(e) => setDifficulty(e.target.value as Difficulty)}
+          disabled={challenges.isSubmitting}
+        >
+          {(Object.keys(DIFFICULTY_CONFIG) as Difficulty[]).map((diff) => (
+            <option key={diff} value={diff}>
+              {DIFFICULTY_CONFIG[diff].label}
+            </option>
+          ))}
+        </select>
+        <button
+          className="btn-success"
+          disabled={!opponent.trim() || challenges.isSubmitting}
+          onClick={handleCreate}
+        >
+          Send Challenge
+        </button>
+      </div>
+
+      {challenges.challenges.length === 0 ? (
+        <div className="info-box text-center py-8">
+          <p className="text-gray-700 font-semibold">No challenges yet</p>
+        </div>
+      ) : (
+        <div className="table-container">
+          <table className="w-full">
+            <thead className="bg-[#0F4C81] text-white">
+              <tr>
+                <th className="px-6 py-4 text-left font-bold">#</th>
+                <th className="px-6 py-4 text-left font-bold">Opponent</th>
+                <th className="px-6 py-4 text-left font-bold">Difficulty</th>
+                <th className="px-6 py-4 text-left font-bold">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {challenges.challenges.map((challenge) => {
+                const isChallenger = challenge.challenger.toLowerCase() === account?.toLowerCase();
+                const other = isChallenger ? challenge.opponent : challenge.challenger;
+                const myStarted = isChallenger ? challenge.challengerStarted : challenge.opponentStarted;
+                const mySubmitted = isChallenger ? challenge.challengerSubmitted : challenge.opponentSubmitted;
+                const isResolved = challenge.challengerSubmitted && challenge.opponentSubmitted;
+                const isExpired = Date.now() / 1000 > challenge.createdAt + CHALLENGE_TIMEOUT_SECONDS;
+                // Answering a received challenge (or declining an expired one) frees its pending slot
+                const canDecline = !isChallenger && !myStarted && !challenge.declined;
+
+                return (
+                  <tr key={challenge.id} className="hover:bg-blue-50 transition-colors">
+                    <td className="px-6 py-3 font-bold text-gray-900">{challenge.id}</td>
+                    <td className="px-6 py-3">
+                      <span className="font-mono text-sm bg-gray-100 px-3 py-1 rounded border border-gray-300">
+                        {shortAddress(other)}
+                      </span>
+                      <span className="ml-2 text-xs text-gray-500">{isChallenger ? "sent" : "received"}</span>
+                    </td>
+                    <td className="px-6 py-3 text-gray-700">{DIFFICULTY_CONFIG[challenge.difficulty].label}</td>
+                    <td className="px-6 py-3">
+                      {challenge.declined ? (
+                        <span className="text-gray-600">❌ Declined</span>
+                      ) : isResolved ? (
+                        challenge.outcome !== undefined ? (
+                          <span className="font-bold text-[#065F46]">{describeOutcome(challenge, isChallenger)}</span>
+                        ) : (
+                          <button
+                            className="btn-primary text-sm"
+                            disabled={challenges.decryptingId !== undefined}
+                            onClick={() => challenges.decryptOutcome(challenge.id)}
+                          >
+                            {challenges.decryptingId === challenge.id ? "Decrypting..." : "🔓 Reveal Winner"}
+                          </button>
+                        )
+                      ) : mySubmitted ? (
+                        <span className="text-gray-600">Waiting for opponent</span>
+                      ) : myStarted ? (
+                        <span className="text-gray-600">Played, result not submitted</span>
+                      ) : (
+                        <div className="flex gap-2 items-center">
+                          {isExpired ? (
+                            <span className="text-gray-600">⌛ Expired</span>
+                          ) : (
+                            <button
+                              className="btn-success text-sm"
+                              disabled={challenges.isSubmitting || activeChallengeId === challenge.id}
+                              onClick={() => onPlay(challenge)}
+                            >
+                              {activeChallengeId === challenge.id ? "Playing..." : "▶️ Play"}
+                            </button>
+                          )}
+                          {canDecline && (
+                            <button
+                              className="btn-danger text-sm"
+                              disabled={challenges.isSubmitting || activeChallengeId === challenge.id}
+                              onClick={() => challenges.declineChallenge(challenge.id)}
+                            >
+                              Decline
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {challenges.message && (
+        <p className="text-sm text-gray-700 mt-4">
+          <strong>Message:</strong> {challenges.message}
+        </p>
+      )}
+    </section>
+  );
+};
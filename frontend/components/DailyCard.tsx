@@ -0,0 +1,93 @@
+"use client";
+
+import { DIFFICULTY_CONFIG } from "@/components/LinkMatchGame";
+import { DailyState } from "@/hooks/useDaily";
+
+interface DailyCardProps {
+  daily: DailyState;
+  isActive: boolean;
+  onPlay: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DailyCard: React.FC<DailyCardProps> = ({ daily, isActive, onPlay }) => {
+  const info = daily.daily;
+
+  return (
+    <section className="card mb-8">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 flex items-center">
+            <span className="mr-3">📅</span>
+            Daily Challenge
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Everyone plays the same board today; one ranked attempt per day on its own encrypted leaderboard
+          </p>
+        </div>
+        <button
+          className="btn-primary"
+          disabled={!daily.contractAddress || daily.isLoading}
+          onClick={daily.loadDaily}
+        >
+          {daily.isLoading ? (
+            <>
+              <span className="inline-block animate-spin mr-2">⏳</span>
+              Loading...
+            </>
+          ) : (
+            <>
+              <span className="mr-2">🔄</span>
+              Refresh
+            </>
+          )}
+        </button>
+      </div>
+
+      {!info ? (
+        <div className="info-box text-center py-8">
+          <p className="text-gray-700 font-semibold">Daily board not loaded yet</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-center">
+          <div className="bg-gray-50 border-2 border-gray-200 rounded-lg p-4 text-center">
+            <div className="text-sm text-gray-600">
+              {new Date(info.day * DAY_MS).toLocaleDateString(undefined, { timeZone: "UTC" })} (UTC)
+            </div>
+            <div className="text-2xl font-bold text-[#0F4C81]">{DIFFICULTY_CONFIG[info.difficulty].label}</div>
+          </div>
+          <div className="bg-gray-50 border-2 border-gray-200 rounded-lg p-4 text-center">
+            <div className="text-sm text-gray-600">Your Streak</div>
+            <div className="text-2xl font-bold text-[#065F46]">
+              🔥 {info.streak} {info.streak === 1 ? "day" : "days"}
+            </div>
+          </div>
+          <div className="bg-gray-50 border-2 border-gray-200 rounded-lg p-4 text-center">
+            <div className="text-sm text-gray-600">Players Today</div>
+            <div className="text-2xl font-bold text-gray-900">{info.players.length}</div>
+          </div>
+          <button
+            className="btn-success text-lg"
+            disabled={info.hasPlayed || info.boardSeed === undefined || isActive || daily.isStarting}
+            onClick={onPlay}
+          >
+            {info.hasPlayed
+              ? "✅ Played Today"
+              : info.boardSeed === undefined
+              ? "⏳ Not Revealed Yet"
+              : isActive
+              ? "Playing..."
+              : "▶️ Play Daily"}
+          </button>
+        </div>
+      )}
+
+      {daily.message && (
+        <p className="text-sm text-gray-700 mt-4">
+          <strong>Message:</strong> {daily.message}
+        </p>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import type { FriendsState } from "@/hooks/useFriends";
+
+interface FriendsPanelProps {
+  friends: FriendsState;
+  difficultyLabel: string;
+}
+
+const shortAddress = (address: string): string => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export const FriendsPanel: React.FC<FriendsPanelProps> = ({ friends, difficultyLabel }) => {
+  const [friendAddress, setFriendAddress] = useState<string>("");
+
+  const handleShare = () => {
+    friends.shareWith(friendAddress.trim());
+    setFriendAddress("");
+  };
+
+  return (
+    <section className="card mb-8">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 flex items-center">
+            <span className="mr-3">🤝</span>
+            Friends
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Share your encrypted best scores with friends; only the addresses you choose can decrypt them
+          </p>
+        </div>
+        <button
+          className="btn-primary"
+          disabled={!friends.contractAddress || friends.isLoading}
+          onClick={friends.loadFriends}
+        >
+          {friends.isLoading ? (
+            <>
+              <span className="inline-block animate-spin mr-2">⏳</span>
+              Loading...
+            </>
+          ) : (
+            <>
+              <span className="mr-2">🔄</span>
+              Refresh Friends
+            </>
+          )}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Scores I share */}
+        <div>
+          <h3 className="font-bold text-lg text-gray-900 mb-3">Sharing My Scores With</h3>
+          <div className="flex gap-2 mb-4">
+            <input
+              className="flex-1 border-2 border-gray-300 rounded-lg px-3 py-2 font-mono text-sm"
+              placeholder="0x friend address"
+              value={friendAddress}
+              onChange={(e) => setFriendAddress(e.target.value)}
+              disabled={friends.isUpdating}
+            />
+            <button
+              className="btn-success"
+              disabled={!friendAddress.trim() || friends.isUpdating}
+              onClick={handleShare}
+            >
+              Share
+            </button>
+          </div>
+          {friends.friends.length === 0 ? (
+            <p className="text-gray-600">You are not sharing your scores with anyone.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {friends.friends.map((friend) => (
+                <li key={friend} className="flex justify-between items-center py-2">
+                  <span className="font-mono text-sm bg-gray-100 px-3 py-1 rounded border border-gray-300">
+                    {shortAddress(friend)}
+                  </span>
+                  <button
+                    className="btn-danger text-sm"
+                    disabled={friends.isUpdating}
+                    onClick={() => friends.revokeShare(friend)}
+                  >
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-gray-500 mt-3">
+            Revoking stops sharing future scores; scores already shared stay readable by that friend.
+          </p>
+        </div>
+
+        {/* Scores shared with me */}
+        <div>
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="font-bold text-lg text-gray-900">Shared With Me ({difficultyLabel})</h3>
+            <button
+              className="btn-primary text-sm"
+              disabled={!friends.canDecrypt}
+              onClick={friends.decryptSharedScores}
+            >
+              {friends.isDecrypting ? (
+                <>
+                  <span className="inline-block animate-spin mr-2">⏳</span>
+                  Decrypting...
+                </>
+              ) : (
+                <>
+                  <span className="mr-2">🔓</span>
+                  Decrypt
+                </>
+              )}
+            </button>
+          </div>
+          {friends.sharedScores.length === 0 ? (
+            <p className="text-gray-600">No friend has shared a score on this difficulty yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {friends.sharedScores.map((entry) => (
+                <li key={entry.address} className="flex justify-between items-center py-2">
+                  <span className="font-mono text-sm bg-gray-100 px-3 py-1 rounded border border-gray-300">
+                    {shortAddress(entry.address)}
+                  </span>
+                  <div className="flex items-center gap-3">
+                    {entry.clearScore !== undefined ? (
+                      <span className="text-xl font-bold text-[#065F46]">
+                        {(entry.clearScore / 1000).toFixed(3)}
+                      </span>
+                    ) : (
+                      <span className="font-mono text-xs text-gray-600">🔒 {entry.handle.slice(0, 18)}...</span>
+                    )}
+                    <button
+                      className="btn-danger text-sm"
+                      disabled={friends.isUpdating}
+                      onClick={() => friends.dropShare(entry.address)}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-gray-500 mt-3">
+            A limited number of players can share with you; remove unwanted shares to make room.
+          </p>
+        </div>
+      </div>
+
+      {friends.message && (
+        <p className="text-sm text-gray-700 mt-4">
+          <strong>Message:</strong> {friends.message}
+        </p>
+      )}
+    </section>
+  );
+};
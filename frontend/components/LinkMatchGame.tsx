@@ -1,205 +1,448 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useReducer, useRef } from "react";
+import Link from "next/link";
+import {
+  Cell,
+  Difficulty,
+  DIFFICULTY_CONFIG,
+  DIFFICULTY_PARAM,
+  SEED_PARAM,
+  generateGrid,
+  layoutDifficulty,
+  randomSeed,
+} from "@/game/board";
+import { LAYOUT_SHAPES, Layout, LayoutShape, parseLayout, shapeLayout, validateLayout } from "@/game/layout";
+import {
+  GameMode,
+  GameRun,
+  GAME_MODE_CONFIG,
+  POWER_UP_CONFIG,
+  PowerUp,
+  RANKED_MODE,
+  accuracy,
+  activeLinkPath,
+  createInitialState,
+  gameReducer,
+  gameTime,
+  getResult,
+  penaltySeconds,
+} from "@/game/engine";
+import type { Point } from "@/game/path";
+import {
+  DEFAULT_TILE_SET,
+  TILE_SETS,
+  Tile,
+  TileSet,
+  parseTileSet,
+  tileFor,
+  tileLabel,
+  validateTileSet,
+} from "@/game/tileSet";
+import { TileView } from "@/components/TileView";
 
-type Cell = {
-  id: number;
-  value: number; // pattern index; 0 means eliminated
-  row: number;
-  col: number;
-};
-
-type GameState = "waiting" | "playing";
-type Difficulty = "easy" | "medium" | "hard";
+export type { Difficulty };
+export { DIFFICULTY_CONFIG };
 
 interface LinkMatchGameProps {
-  onGameComplete: (matches: number, timeSeconds: number) => void;
+  onGameComplete: (run: GameRun) => void;
   disabled?: boolean;
+  seed?: number;                  // Deterministic board (e.g. a challenge); random when omitted
+  lockedDifficulty?: Difficulty;  // Forces the difficulty (e.g. a challenge)
+  lockedMode?: GameMode;          // Forces the match rule (e.g. a challenge)
+  // Called before each game (e.g. to start an on-chain session); resolves to the board seed,
+  // or to null to cancel the start
+  requestBoardSeed?: (difficulty: Difficulty) => Promise<number | null>;
 }
 
-// Difficulty configuration for game grid sizes
-const DIFFICULTY_CONFIG: Record<Difficulty, { rows: number; cols: number; label: string }> = {
-  easy: { rows: 4, cols: 4, label: "Easy" },
-  medium: { rows: 6, cols: 6, label: "Medium" },
-  hard: { rows: 8, cols: 8, label: "Hard" },
+// Clock for game time: monotonic, so system clock changes do not affect it
+const clock = (): number => performance.now();
+
+// Link that loads the same board (see the seed parameters in app/page.tsx)
+const boardShareUrl = (seed: number, difficulty: Difficulty): string => {
+  const url = new URL(window.location.href);
+  url.search = "";
+  url.searchParams.set(SEED_PARAM, String(seed));
+  url.searchParams.set(DIFFICULTY_PARAM, difficulty);
+  return url.toString();
+};
+
+// Width of the square board: the full column, but short enough to fit the viewport height
+// below the controls (never under 18rem, so landscape phones scroll rather than shrink it)
+const BOARD_WIDTH = "min(100%, max(18rem, calc(100dvh - 11rem)))";
+
+// Vibration patterns (ms) for touch play; ignored where the Vibration API is missing
+const HAPTICS = {
+  select: 10,
+  match: [20, 40, 20],
+  mismatch: 80,
+  finish: [40, 60, 40, 60, 120],
+};
+
+const vibrate = (pattern: number | number[]) => {
+  if (typeof navigator !== "undefined" && "vibrate" in navigator) {
+    navigator.vibrate(pattern);
+  }
 };
 
-// Pattern list (emoji; duplicates allowed)
-const PATTERNS = [
-  "🍎", "🍌", "🍇", "🍊", "🍓", "🥝", "🍑", "🍒", "🥭", "🍉",
-  "🍐", "🍋", "🍈", "🍏", "🥑", "🍅", "🥝", "🥥", "🍇", "🍉",
-  "🍊", "🍋", "🍌", "🍍", "🥭", "🍎", "🍏", "🍐", "🍑", "🍒",
-  "🍓", "🥝", "🍅", "🥥", "🥑", "🍆", "🥔", "🥕", "🌽", "🌶",
-];
+// Position of a path point in grid units; border points sit just outside the tiles
+const toGridCoordinate = (index: number, size: number): number =>
+  index < 0 ? -0.15 : index >= size ? size + 0.15 : index + 0.5;
+
+// Connecting path of a linked pair, drawn over the grid
+const LinkPathOverlay: React.FC<{ path: Point[]; rows: number; cols: number }> = ({ path, rows, cols }) => (
+  <svg
+    className="absolute inset-2 sm:inset-4 w-[calc(100%-1rem)] h-[calc(100%-1rem)] sm:w-[calc(100%-2rem)] sm:h-[calc(100%-2rem)] pointer-events-none overflow-visible"
+    aria-hidden="true"
+    viewBox={`0 0 ${cols} ${rows}`}
+    preserveAspectRatio="none"
+  >
+    <polyline
+      points={path.map((p) => `${toGridCoordinate(p.col, cols)},${toGridCoordinate(p.row, rows)}`).join(" ")}
+      fill="none"
+      stroke="#065F46"
+      strokeWidth={6}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      vectorEffect="non-scaling-stroke"
+    />
+  </svg>
+);
+
+// Accessible description of a board cell
+const cellLabel = (cell: Cell, tile: Tile | undefined, isHinted: boolean): string => {
+  const position = `row ${cell.row + 1}, column ${cell.col + 1}`;
+  if (cell.value === 0 || !tile) {
+    return `Empty, ${position}`;
+  }
+  return `${tileLabel(tile)}, ${position}${isHinted ? ", hinted" : ""}`;
+};
 
 export const LinkMatchGame: React.FC<LinkMatchGameProps> = ({
   onGameComplete,
   disabled = false,
+  seed,
+  lockedDifficulty,
+  lockedMode,
+  requestBoardSeed,
 }) => {
-  const [difficulty, setDifficulty] = useState<Difficulty>("medium");
-  const [grid, setGrid] = useState<Cell[]>([]);
-  const [selectedCells, setSelectedCells] = useState<number[]>([]);
-  const [matches, setMatches] = useState(0);
-  const [gameState, setGameState] = useState<GameState>("waiting");
-  const [startTime, setStartTime] = useState<number | null>(null);
+  const [selectedDifficulty, setDifficulty] = useState<Difficulty>("medium");
+  // Board shape: a named shape, or a layout loaded from the board editor
+  const [selectedShape, setShape] = useState<LayoutShape | "custom">("full");
+  const [customLayout, setCustomLayout] = useState<Layout | null>(null);
+  const [layoutError, setLayoutError] = useState("");
+  // How patterns are drawn: a built-in tile set or one loaded from a file
+  const [tileSet, setTileSet] = useState<TileSet>(DEFAULT_TILE_SET);
+  const [customTileSet, setCustomTileSet] = useState<TileSet | null>(null);
+  const [tileSetError, setTileSetError] = useState("");
+  // Fixed boards (challenges, daily and shared boards) always use the full grid
+  const shape = seed === undefined ? selectedShape : "full";
+  const difficulty =
+    lockedDifficulty ?? (shape === "custom" && customLayout ? layoutDifficulty(customLayout)! : selectedDifficulty);
+  const [selectedMode, setMode] = useState<GameMode>("memory");
+  const mode = lockedMode ?? selectedMode;
+  const [state, dispatch] = useReducer(gameReducer, difficulty, createInitialState);
+  const [isStarting, setIsStarting] = useState(false);
+  const [startError, setStartError] = useState("");
   const [elapsedTime, setElapsedTime] = useState(0);
+  const [linkCopied, setLinkCopied] = useState(false);
+  // Cell that takes the board's tab stop, and the text read out by screen readers
+  const [focusedCell, setFocusedCell] = useState(0);
+  const [announcement, setAnnouncement] = useState("");
+  // Rendered width of a grid column, to size tile faces to the board
+  const [cellSize, setCellSize] = useState(0);
+
+  // Latest engine state for timers
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const cellRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const gridRef = useRef<HTMLDivElement>(null);
+  // Whether the last board input was a touch, so haptics only accompany touch play
+  const touchRef = useRef(false);
+  // Counts already announced, to tell what the last attempt did
+  const announcedRef = useRef({ matches: 0, mismatches: 0 });
 
-  const config = DIFFICULTY_CONFIG[difficulty];
-  const ROWS = config.rows;
-  const COLS = config.cols;
-  const TOTAL_CELLS = ROWS * COLS;
-
-  // Generate game grid
-  const generateGrid = useCallback(() => {
-    // Calculate number of pairs (ensure even)
-    const pairsNeeded = Math.floor(TOTAL_CELLS / 2);
-    
-    // Generate pairs using emoji patterns (duplicates allowed)
-    const values: number[] = [];
-    for (let i = 0; i < pairsNeeded; i++) {
-      // Use modulo to keep index within range; allow duplicates
-      const patternIndex = (i % PATTERNS.length) + 1;
-      values.push(patternIndex, patternIndex);
+  const { rows: ROWS, cols: COLS } = DIFFICULTY_CONFIG[state.status === "waiting" ? difficulty : state.difficulty];
+  const linkPath = activeLinkPath(state);
+  const penalty = penaltySeconds(state);
+
+  // Shaped boards are practice runs: ranked sessions are played on the full grid
+  const layout: Layout | undefined =
+    shape === "full"
+      ? undefined
+      : shape === "custom"
+      ? customLayout ?? undefined
+      : shapeLayout(shape, DIFFICULTY_CONFIG[difficulty].rows, DIFFICULTY_CONFIG[difficulty].cols);
+
+  const loadCustomLayout = useCallback(async (file: File) => {
+    try {
+      const loaded = parseLayout(await file.text());
+      const fitting = layoutDifficulty(loaded);
+      if (!fitting) {
+        throw new Error("The layout does not match any difficulty's grid size");
+      }
+      const { rows, cols } = DIFFICULTY_CONFIG[fitting];
+      const errors = validateLayout(loaded, rows, cols);
+      if (errors.length > 0) {
+        throw new Error(errors.join("; "));
+      }
+      setCustomLayout(loaded);
+      setShape("custom");
+      setLayoutError("");
+    } catch (e) {
+      setLayoutError(`Cannot load ${file.name}: ${e instanceof Error ? e.message : e}`);
     }
-    
-    // If total is odd, add an extra pattern
-    if (TOTAL_CELLS % 2 === 1) {
-      values.push(1);
+  }, []);
+
+  const loadCustomTileSet = useCallback(async (file: File) => {
+    try {
+      const loaded = parseTileSet(await file.text());
+      const errors = validateTileSet(loaded);
+      if (errors.length > 0) {
+        throw new Error(errors.join("; "));
+      }
+      setCustomTileSet(loaded);
+      setTileSet(loaded);
+      setTileSetError("");
+    } catch (e) {
+      setTileSetError(`Cannot load ${file.name}: ${e instanceof Error ? e.message : e}`);
     }
-    
-    // Shuffle values
-    const shuffled = values.sort(() => Math.random() - 0.5);
-    
-    // Build grid
-    const newGrid: Cell[] = [];
-    let id = 0;
-    for (let row = 0; row < ROWS; row++) {
-      for (let col = 0; col < COLS; col++) {
-        newGrid.push({
-          id: id++,
-          value: shuffled[id - 1] || 0,
-          row,
-          col,
-        });
+  }, []);
+
+  // Shaped boards and other rules than the ranked one are practice runs without a session
+  const isPractice = layout !== undefined || mode !== RANKED_MODE;
+
+  const startGame = useCallback(async () => {
+    let boardSeed = seed;
+    if (requestBoardSeed && !isPractice) {
+      setIsStarting(true);
+      const requested = await requestBoardSeed(difficulty);
+      setIsStarting(false);
+      if (requested === null) {
+        return;
       }
+      boardSeed = requested;
+    }
+
+    // Build the board here rather than in the reducer: one that cannot be generated is
+    // reported instead of played
+    const playSeed = boardSeed ?? randomSeed();
+    let grid: Cell[];
+    try {
+      grid = generateGrid(difficulty, playSeed, layout);
+    } catch (e) {
+      setStartError(`Cannot start: ${e instanceof Error ? e.message : e}`);
+      return;
     }
-    
-    return newGrid;
-  }, [ROWS, COLS, TOTAL_CELLS]);
-
-  const startGame = useCallback(() => {
-    const newGrid = generateGrid();
-    setGrid(newGrid);
-    setSelectedCells([]);
-    setMatches(0);
-    setGameState("playing");
-    setStartTime(Date.now());
+    setStartError("");
+
+    dispatch({
+      type: "start",
+      difficulty,
+      mode,
+      seed: playSeed,
+      layout,
+      grid,
+      now: clock(),
+    });
     setElapsedTime(0);
-  }, [generateGrid]);
+    setFocusedCell(0);
+    setAnnouncement("");
+  }, [seed, requestBoardSeed, isPractice, difficulty, mode, layout]);
 
   const endGame = useCallback(() => {
-    if (gameState === "playing" && startTime) {
-      const timeSeconds = Math.floor((Date.now() - (startTime || Date.now())) / 1000);
-      onGameComplete(matches, timeSeconds);
-      // After ending the game, reset to initial state and allow selecting difficulty again
-      setGameState("waiting");
-      setGrid([]);
-      setSelectedCells([]);
-      setMatches(0);
-      setStartTime(null);
-      setElapsedTime(0);
-    }
-  }, [gameState, startTime, matches, onGameComplete]);
+    dispatch({ type: "end", now: clock() });
+  }, []);
+
+  const pauseGame = useCallback(() => {
+    dispatch({ type: "pause", now: clock() });
+  }, []);
+
+  const resumeGame = useCallback(() => {
+    dispatch({ type: "resume", now: clock() });
+  }, []);
+
+  // Leaving the tab pauses the game; the player resumes it explicitly
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        pauseGame();
+      }
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [pauseGame]);
 
+  // Timer display
   useEffect(() => {
-    if (gameState === "playing" && startTime) {
+    if (state.status === "playing") {
       const interval = setInterval(() => {
-        setElapsedTime(Math.floor((Date.now() - startTime) / 1000));
+        setElapsedTime(Math.floor(gameTime(stateRef.current, clock()) / 1000));
       }, 1000);
       return () => clearInterval(interval);
     }
-  }, [gameState, startTime]);
+    // The clock stops while paused: show the active time up to the pause
+    if (state.status === "paused") {
+      setElapsedTime(Math.floor(gameTime(stateRef.current, clock()) / 1000));
+    }
+  }, [state.status]);
 
-  // Check if the game is completed
+  // Size tile faces to the rendered board; the observer also follows rotations and
+  // window resizes, which leave the game state untouched
+  const showsGrid = state.status === "playing";
   useEffect(() => {
-    if (gameState === "playing") {
-      const remainingCells = grid.filter(cell => cell.value !== 0);
-      if (remainingCells.length === 0) {
-        const timeSeconds = Math.floor((Date.now() - (startTime || Date.now())) / 1000);
-        onGameComplete(matches, timeSeconds);
-        // After completing the game, reset to initial state and allow selecting difficulty again
-        setGameState("waiting");
-        setGrid([]);
-        setSelectedCells([]);
-        setMatches(0);
-        setStartTime(null);
-        setElapsedTime(0);
-      }
+    const grid = gridRef.current;
+    if (!showsGrid || !grid) {
+      return;
     }
-  }, [grid, matches, gameState, startTime, onGameComplete]);
+    const observer = new ResizeObserver(([entry]) => setCellSize(entry.contentRect.width / COLS));
+    observer.observe(grid);
+    return () => observer.disconnect();
+  }, [showsGrid, COLS]);
 
-  const handleCellClick = useCallback(
-    (cellId: number) => {
-      if (disabled || gameState !== "playing") return;
+  // Bring the board back into view after the device is rotated
+  useEffect(() => {
+    if (!showsGrid) {
+      return;
+    }
+    const orientation = window.matchMedia("(orientation: portrait)");
+    const keepBoardInView = () => gridRef.current?.scrollIntoView({ block: "nearest" });
+    orientation.addEventListener("change", keepBoardInView);
+    return () => orientation.removeEventListener("change", keepBoardInView);
+  }, [showsGrid]);
 
-      const cell = grid.find(c => c.id === cellId);
-      if (!cell || cell.value === 0) return; // Eliminated cells cannot be clicked
+  // Resolve the next two-tile attempt when it is due
+  const nextDueMs = state.status === "playing" ? state.pending[0]?.atMs : undefined;
+  useEffect(() => {
+    if (nextDueMs === undefined) {
+      return;
+    }
+    const timeout = setTimeout(() => {
+      dispatch({ type: "tick", now: clock() });
+    }, Math.max(0, nextDueMs - gameTime(stateRef.current, clock())));
+    return () => clearTimeout(timeout);
+  }, [nextDueMs]);
 
-      // If clicking an already selected cell, deselect it
-      if (selectedCells.includes(cellId)) {
-        setSelectedCells(selectedCells.filter(id => id !== cellId));
-        return;
-      }
+  // Announce the outcome of each attempt and new hints
+  useEffect(() => {
+    const announced = announcedRef.current;
+    announcedRef.current = { matches: state.matches, mismatches: state.mismatches };
+    if (state.status !== "playing") {
+      return;
+    }
+    if (state.matches > announced.matches) {
+      const pairsLeft = state.grid.filter((c) => c.value !== 0).length / 2;
+      setAnnouncement(`Match! ${pairsLeft} ${pairsLeft === 1 ? "pair" : "pairs"} left`);
+      if (touchRef.current) vibrate(HAPTICS.match);
+    } else if (state.mismatches > announced.mismatches) {
+      setAnnouncement("No match");
+      if (touchRef.current) vibrate(HAPTICS.mismatch);
+    }
+  }, [state.matches, state.mismatches, state.status, state.grid]);
 
-      // If two cells are already selected, reset selection first
-      if (selectedCells.length >= 2) {
-        setSelectedCells([cellId]);
-        return;
-      }
+  useEffect(() => {
+    if (state.hint) {
+      const [a, b] = state.hint.map((id) => `row ${Math.floor(id / COLS) + 1} column ${(id % COLS) + 1}`);
+      setAnnouncement(`Hint: ${a} and ${b} can be cleared`);
+    }
+  }, [state.hint, COLS]);
+
+  // Report a finished game (board cleared or ended early), then allow selecting difficulty again
+  useEffect(() => {
+    if (state.status === "finished") {
+      const run = getResult(state);
+      const cleared = state.grid.every((c) => c.value === 0);
+      setAnnouncement(
+        `${cleared ? "Board cleared" : "Game over"}: ${run.matches} pairs matched in ${run.timeSeconds} seconds`
+      );
+      if (touchRef.current) vibrate(HAPTICS.finish);
+      onGameComplete(run);
+      dispatch({ type: "reset" });
+      setElapsedTime(0);
+    }
+  }, [state, onGameComplete]);
+
+  const copyShareLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(boardShareUrl(state.seed, state.difficulty));
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      setLinkCopied(false);
+    }
+  }, [state.seed, state.difficulty]);
+
+  const handleCellClick = useCallback(
+    (cellId: number) => {
+      if (disabled) return;
+      if (touchRef.current) vibrate(HAPTICS.select);
+      dispatch({ type: "click", cell: cellId, now: clock() });
+    },
+    [disabled]
+  );
 
-      const newSelected = [...selectedCells, cellId];
-      setSelectedCells(newSelected);
-
-      // When two cells are selected, check if patterns match
-      if (newSelected.length === 2) {
-        const [firstId, secondId] = newSelected;
-        const firstCell = grid.find(c => c.id === firstId)!;
-        const secondCell = grid.find(c => c.id === secondId)!;
-
-        if (firstCell.value === secondCell.value) {
-          // Patterns match; eliminate both cells
-          setTimeout(() => {
-            setGrid(prevGrid =>
-              prevGrid.map(cell =>
-                cell.id === firstId || cell.id === secondId
-                  ? { ...cell, value: 0 }
-                  : cell
-              )
-            );
-            setSelectedCells([]);
-            setMatches(prev => prev + 1);
-          }, 300);
-        } else {
-          // Patterns don't match; reset selection
-          setTimeout(() => {
-            setSelectedCells([]);
-          }, 500);
-        }
+  // Roving tabindex: arrow keys move focus between cells, Enter or Space selects
+  const handleCellKeyDown = useCallback(
+    (e: React.KeyboardEvent, cellId: number) => {
+      const row = Math.floor(cellId / COLS);
+      const col = cellId % COLS;
+      let target: number | undefined;
+      switch (e.key) {
+        case "ArrowUp":
+          target = row > 0 ? cellId - COLS : cellId;
+          break;
+        case "ArrowDown":
+          target = row < ROWS - 1 ? cellId + COLS : cellId;
+          break;
+        case "ArrowLeft":
+          target = col > 0 ? cellId - 1 : cellId;
+          break;
+        case "ArrowRight":
+          target = col < COLS - 1 ? cellId + 1 : cellId;
+          break;
+        case "Home":
+          target = row * COLS;
+          break;
+        case "End":
+          target = row * COLS + COLS - 1;
+          break;
+        case "Enter":
+        case " ":
+          e.preventDefault();
+          touchRef.current = false;
+          handleCellClick(cellId);
+          return;
+        default:
+          return;
       }
+      e.preventDefault();
+      setFocusedCell(target);
+      cellRefs.current[target]?.focus();
     },
-    [grid, selectedCells, disabled, gameState]
+    [ROWS, COLS, handleCellClick]
   );
 
-  // Get pattern display (emoji)
-  const getPatternDisplay = (value: number): string => {
-    if (value === 0) return "";
-    // Use emoji as pattern; value starts at 1
-    return PATTERNS[value - 1] || "";
-  };
+  const applyPowerUp = useCallback(
+    (powerUp: PowerUp) => {
+      if (disabled) return;
+      dispatch({ type: powerUp, now: clock() });
+    },
+    [disabled]
+  );
 
   return (
     <div className="w-full mx-auto">
-      {gameState === "waiting" ? (
+      <p className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </p>
+      {isStarting ? (
+        /* Waiting for the board seed (e.g. session transaction) */
+        <div className="text-center py-16">
+          <div className="text-6xl mb-4 inline-block animate-spin">⏳</div>
+          <p className="text-xl font-semibold text-gray-700">Starting game session...</p>
+          <p className="text-gray-600 mt-2">Confirm the transaction to commit to this board on-chain</p>
+        </div>
+      ) : state.status === "waiting" ? (
         /* Game Setup Screen */
         <div className="text-center py-8">
           <div className="mb-8">
@@ -215,19 +458,23 @@ export const LinkMatchGame: React.FC<LinkMatchGameProps> = ({
           {/* Difficulty selection */}
           <div className="mb-8">
             <p className="text-lg font-bold text-gray-900 mb-4">Select Difficulty Level</p>
-            <div className="flex justify-center gap-3">
+            <div className="flex flex-wrap justify-center gap-3">
               {(["easy", "medium", "hard"] as Difficulty[]).map((diff) => {
                 const config = DIFFICULTY_CONFIG[diff];
+                const isUnavailable =
+                  disabled ||
+                  (lockedDifficulty !== undefined && lockedDifficulty !== diff) ||
+                  (shape === "custom" && difficulty !== diff);
                 return (
                   <button
                     key={diff}
                     onClick={() => setDifficulty(diff)}
-                    disabled={disabled}
+                    disabled={isUnavailable}
                     className={`px-6 py-4 rounded-xl font-bold text-lg transition-all border-2 ${
                       difficulty === diff
                         ? "bg-[#0F4C81] text-white border-[#0F4C81] shadow-lg transform scale-105"
                         : "bg-white text-gray-700 border-gray-300 hover:border-[#0F4C81] hover:shadow-md"
-                    } ${disabled ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}
+                    } ${isUnavailable ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}
                   >
                     <div>{config.label}</div>
                     <div className="text-xs mt-1 opacity-80">
@@ -239,6 +486,133 @@ export const LinkMatchGame: React.FC<LinkMatchGameProps> = ({
             </div>
           </div>
 
+          {/* Match rule selection */}
+          <div className="mb-8">
+            <p className="text-lg font-bold text-gray-900 mb-4">Select Mode</p>
+            <div className="flex flex-wrap justify-center gap-3">
+              {(Object.keys(GAME_MODE_CONFIG) as GameMode[]).map((m) => {
+                const isUnavailable = disabled || (lockedMode !== undefined && lockedMode !== m);
+                return (
+                  <button
+                    key={m}
+                    onClick={() => setMode(m)}
+                    disabled={isUnavailable}
+                    className={`px-6 py-4 rounded-xl font-bold text-lg transition-all border-2 ${
+                      mode === m
+                        ? "bg-[#0F4C81] text-white border-[#0F4C81] shadow-lg transform scale-105"
+                        : "bg-white text-gray-700 border-gray-300 hover:border-[#0F4C81] hover:shadow-md"
+                    } ${isUnavailable ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}
+                  >
+                    <div>{GAME_MODE_CONFIG[m].label}</div>
+                    <div className="text-xs mt-1 opacity-80">{GAME_MODE_CONFIG[m].description}</div>
+                  </button>
+                );
+              })}
+            </div>
+            {mode !== RANKED_MODE && (
+              <p className="text-sm text-gray-600 mt-3">
+                {GAME_MODE_CONFIG[mode].label} games are practice runs: ranked games use the{" "}
+                {GAME_MODE_CONFIG[RANKED_MODE].label} rule.
+              </p>
+            )}
+          </div>
+
+          {/* Board shape selection */}
+          <div className="mb-8">
+            <p className="text-lg font-bold text-gray-900 mb-4">Select Board</p>
+            <div className="flex flex-wrap justify-center gap-3">
+              {(Object.keys(LAYOUT_SHAPES) as LayoutShape[]).map((s) => {
+                const isUnavailable = disabled || (seed !== undefined && s !== "full");
+                return (
+                  <button
+                    key={s}
+                    onClick={() => setShape(s)}
+                    disabled={isUnavailable}
+                    className={`px-5 py-3 rounded-xl font-bold transition-all border-2 ${
+                      shape === s
+                        ? "bg-[#0F4C81] text-white border-[#0F4C81] shadow-lg transform scale-105"
+                        : "bg-white text-gray-700 border-gray-300 hover:border-[#0F4C81] hover:shadow-md"
+                    } ${isUnavailable ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}
+                  >
+                    {LAYOUT_SHAPES[s].label}
+                  </button>
+                );
+              })}
+              <label
+                className={`px-5 py-3 rounded-xl font-bold transition-all border-2 ${
+                  shape === "custom"
+                    ? "bg-[#0F4C81] text-white border-[#0F4C81] shadow-lg transform scale-105"
+                    : "bg-white text-gray-700 border-gray-300 hover:border-[#0F4C81] hover:shadow-md"
+                } ${disabled || seed !== undefined ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}
+              >
+                📂 {shape === "custom" && customLayout ? customLayout.name : "Load Layout"}
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  disabled={disabled || seed !== undefined}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) loadCustomLayout(file);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </div>
+            {layoutError && <p className="text-sm text-red-600 mt-3">{layoutError}</p>}
+            <p className="text-sm text-gray-600 mt-3">
+              {layout
+                ? "Shaped boards are practice runs: the result cannot be submitted. "
+                : "Ranked games are played on the full board. "}
+              <Link href="/editor" className="font-semibold text-[#0F4C81] underline">
+                Design your own board
+              </Link>
+            </p>
+          </div>
+
+          {/* Tile set selection */}
+          <div className="mb-8">
+            <p className="text-lg font-bold text-gray-900 mb-4">Select Tiles</p>
+            <div className="flex flex-wrap justify-center gap-3">
+              {[...TILE_SETS, ...(customTileSet ? [customTileSet] : [])].map((set) => (
+                <button
+                  key={set.id}
+                  onClick={() => setTileSet(set)}
+                  disabled={disabled}
+                  className={`flex items-center gap-2 px-5 py-3 rounded-xl font-bold transition-all border-2 ${
+                    tileSet.id === set.id
+                      ? "bg-[#0F4C81] text-white border-[#0F4C81] shadow-lg transform scale-105"
+                      : "bg-white text-gray-700 border-gray-300 hover:border-[#0F4C81] hover:shadow-md"
+                  } ${disabled ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}
+                >
+                  <span className="w-8 h-8 flex items-center justify-center text-2xl bg-white rounded-md">
+                    <TileView tile={set.tiles[0]} />
+                  </span>
+                  {set.name}
+                </button>
+              ))}
+              <label
+                className={`px-5 py-3 rounded-xl font-bold transition-all border-2 bg-white text-gray-700 border-gray-300 hover:border-[#0F4C81] hover:shadow-md ${
+                  disabled ? "opacity-50 cursor-not-allowed" : "cursor-pointer"
+                }`}
+              >
+                📂 Load Tiles
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  disabled={disabled}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) loadCustomTileSet(file);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </div>
+            {tileSetError && <p className="text-sm text-red-600 mt-3">{tileSetError}</p>}
+          </div>
+
           {/* Game Rules */}
           <div className="border-2 border-[#065F46] bg-green-50 rounded-xl p-6 mb-6 max-w-2xl mx-auto">
             <h4 className="font-bold text-lg text-gray-900 mb-3 flex items-center justify-center">
@@ -252,7 +626,11 @@ export const LinkMatchGame: React.FC<LinkMatchGameProps> = ({
               </li>
               <li className="flex items-start">
                 <span className="text-[#0F4C81] font-bold mr-2">2.</span>
-                <span>If patterns match, both tiles will be eliminated</span>
+                <span>
+                  {mode === "link"
+                    ? "If patterns match and a path of empty cells (the border included) connects them with at most two turns, both tiles will be eliminated"
+                    : "If patterns match, both tiles will be eliminated"}
+                </span>
               </li>
               <li className="flex items-start">
                 <span className="text-[#0F4C81] font-bold mr-2">3.</span>
@@ -260,11 +638,26 @@ export const LinkMatchGame: React.FC<LinkMatchGameProps> = ({
               </li>
               <li className="flex items-start">
                 <span className="text-[#0F4C81] font-bold mr-2">4.</span>
-                <span>Your score is calculated as matches per second</span>
+                <span>Your score is calculated as matches per second; every mismatch adds a second to your time</span>
+              </li>
+              <li className="flex items-start">
+                <span className="text-[#0F4C81] font-bold mr-2">5.</span>
+                <span>
+                  Stuck? A hint adds {POWER_UP_CONFIG.hint.penaltySeconds}s and a reshuffle adds{" "}
+                  {POWER_UP_CONFIG.shuffle.penaltySeconds}s to your time
+                </span>
               </li>
             </ul>
           </div>
 
+          {seed !== undefined && (
+            <p className="text-sm text-gray-600 mb-4">
+              Board seed <span className="font-mono font-bold text-gray-900">{seed}</span>
+            </p>
+          )}
+
+          {startError && <p className="text-sm text-red-600 mb-4">{startError}</p>}
+
           <button
             onClick={startGame}
             disabled={disabled}
@@ -276,64 +669,175 @@ export const LinkMatchGame: React.FC<LinkMatchGameProps> = ({
         </div>
       ) : (
         /* Game Playing Screen */
-        <div style={{ transform: 'scale(0.6)', transformOrigin: 'top center' }}>
+        <div>
           {/* Game info and controls */}
-          <div className="flex justify-between items-center mb-6 bg-gray-50 border-2 border-gray-200 rounded-xl p-4">
-            <div className="flex gap-6">
+          <div className="flex flex-wrap justify-between items-center gap-4 mb-4 sm:mb-6 bg-gray-50 border-2 border-gray-200 rounded-xl p-3 sm:p-4">
+            <div className="flex flex-wrap gap-4 sm:gap-6">
               <div className="text-center">
                 <div className="text-sm text-gray-600 mb-1">Matches</div>
-                <div className="text-3xl font-bold text-[#065F46]">{matches}</div>
+                <div className="text-2xl sm:text-3xl font-bold text-[#065F46]">{state.matches}</div>
               </div>
-              <div className="h-12 w-px bg-gray-300"></div>
+              <div className="hidden sm:block h-12 w-px bg-gray-300"></div>
+              <div className="text-center">
+                <div className="text-sm text-gray-600 mb-1">Accuracy</div>
+                <div className="text-2xl sm:text-3xl font-bold text-[#065F46]">{Math.round(accuracy(state) * 100)}%</div>
+              </div>
+              <div className="hidden sm:block h-12 w-px bg-gray-300"></div>
               <div className="text-center">
                 <div className="text-sm text-gray-600 mb-1">Time</div>
-                <div className="text-3xl font-bold text-[#0F4C81]">{elapsedTime}s</div>
+                <div className="text-2xl sm:text-3xl font-bold text-[#0F4C81]">{elapsedTime}s</div>
               </div>
+              <div className="hidden sm:block h-12 w-px bg-gray-300"></div>
+              <div className="text-center">
+                <div className="text-sm text-gray-600 mb-1">Seed</div>
+                <div className="flex items-center gap-2">
+                  <span className="text-lg sm:text-xl font-mono font-bold text-gray-900">{state.seed}</span>
+                  {/* Shared links carry the seed only, so they always open the full board */}
+                  {!state.layout && (
+                    <button
+                      onClick={copyShareLink}
+                      className="text-sm px-2 py-1 rounded border border-gray-300 bg-white hover:border-[#0F4C81]"
+                      title="Copy a link to this board"
+                    >
+                      {linkCopied ? "✅ Copied" : "🔗 Share"}
+                    </button>
+                  )}
+                </div>
+              </div>
+              {penalty > 0 && (
+                <>
+                  <div className="hidden sm:block h-12 w-px bg-gray-300"></div>
+                  <div className="text-center">
+                    <div className="text-sm text-gray-600 mb-1">Penalty</div>
+                    <div className="text-2xl sm:text-3xl font-bold text-red-600">+{penalty}s</div>
+                  </div>
+                </>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(POWER_UP_CONFIG) as PowerUp[]).map((powerUp) => (
+                <button
+                  key={powerUp}
+                  onClick={() => applyPowerUp(powerUp)}
+                  // Power-ups wait for the current attempt to resolve
+                  disabled={disabled || state.status !== "playing" || state.pending.length > 0}
+                  className="btn-primary"
+                  title={`${POWER_UP_CONFIG[powerUp].description} (+${POWER_UP_CONFIG[powerUp].penaltySeconds}s)`}
+                >
+                  <span className="mr-2">{powerUp === "hint" ? "💡" : "🔀"}</span>
+                  {POWER_UP_CONFIG[powerUp].label} (+{POWER_UP_CONFIG[powerUp].penaltySeconds}s)
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              {state.status === "paused" ? (
+                <button onClick={resumeGame} disabled={disabled} className="btn-success">
+                  <span className="mr-2">▶️</span>
+                  Resume
+                </button>
+              ) : (
+                <button onClick={pauseGame} disabled={disabled} className="btn-primary">
+                  <span className="mr-2">⏸️</span>
+                  Pause
+                </button>
+              )}
+              <button
+                onClick={endGame}
+                disabled={disabled}
+                className="btn-danger"
+              >
+                <span className="mr-2">⏹️</span>
+                End Game
+              </button>
             </div>
-            <button
-              onClick={endGame}
-              disabled={disabled}
-              className="btn-danger"
-            >
-              <span className="mr-2">⏹️</span>
-              End Game
-            </button>
           </div>
 
-          {/* Game Grid */}
-          <div
-            className="grid gap-2 bg-gray-100 p-4 rounded-xl border-2 border-gray-300"
-            style={{
-              gridTemplateColumns: `repeat(${COLS}, minmax(0, 1fr))`,
-            }}
-          >
-            {grid.map((cell) => {
-              const isSelected = selectedCells.includes(cell.id);
-              const isEliminated = cell.value === 0;
-
-              return (
-                <div
-                  key={cell.id}
-                  onClick={() => handleCellClick(cell.id)}
-                  className={`aspect-square flex items-center justify-center text-5xl font-bold rounded-lg cursor-pointer transition-all ${
-                    isEliminated
-                      ? "bg-transparent opacity-0"
-                      : isSelected
-                      ? "bg-[#FFD700] ring-4 ring-[#0F4C81] shadow-xl transform scale-105"
-                      : "bg-white hover:bg-blue-50 hover:shadow-lg border-2 border-gray-300 hover:border-[#0F4C81] shadow-sm"
-                  } ${disabled ? "cursor-not-allowed opacity-50" : ""}`}
-                >
-                  {!isEliminated && getPatternDisplay(cell.value)}
+          {/* Game Grid (hidden while paused so the board cannot be studied) */}
+          {state.status === "paused" ? (
+            <div
+              className="aspect-square mx-auto flex flex-col items-center justify-center text-center bg-gray-100 p-4 rounded-xl border-2 border-gray-300"
+              style={{ width: BOARD_WIDTH }}
+            >
+              <div className="text-6xl mb-4">⏸️</div>
+              <p className="text-2xl font-bold text-gray-900">Game Paused</p>
+              <p className="text-gray-600 mt-2">The board is hidden and the clock is stopped</p>
+              <button onClick={resumeGame} disabled={disabled} className="btn-success text-xl px-12 py-4 mt-6">
+                <span className="mr-2">▶️</span>
+                Resume
+              </button>
+            </div>
+          ) : (
+            <div
+              role="grid"
+              aria-label={`Game board, ${ROWS} rows by ${COLS} columns`}
+              aria-describedby="link-match-keys"
+              aria-disabled={disabled || undefined}
+              ref={gridRef}
+              onPointerDown={(e) => {
+                touchRef.current = e.pointerType === "touch";
+              }}
+              className="relative mx-auto grid gap-1 sm:gap-2 bg-gray-100 p-2 sm:p-4 rounded-xl border-2 border-gray-300 select-none touch-manipulation"
+              style={{
+                width: BOARD_WIDTH,
+                gridTemplateColumns: `repeat(${COLS}, minmax(0, 1fr))`,
+              }}
+            >
+              {Array.from({ length: ROWS }, (_, row) => (
+                <div key={row} role="row" className="contents">
+                  {state.grid.slice(row * COLS, (row + 1) * COLS).map((cell) => {
+                    const isSelected = state.selected.includes(cell.id);
+                    const isEliminated = cell.value === 0;
+                    const isHinted = state.hint?.includes(cell.id) ?? false;
+                    const tile = tileFor(tileSet, cell.value);
+
+                    return (
+                      <div
+                        key={cell.id}
+                        ref={(element) => {
+                          cellRefs.current[cell.id] = element;
+                        }}
+                        role="gridcell"
+                        tabIndex={cell.id === focusedCell ? 0 : -1}
+                        aria-label={cellLabel(cell, tile, isHinted)}
+                        aria-selected={isSelected}
+                        onClick={() => handleCellClick(cell.id)}
+                        onFocus={() => setFocusedCell(cell.id)}
+                        onKeyDown={(e) => handleCellKeyDown(e, cell.id)}
+                        style={cellSize > 0 ? { fontSize: cellSize * 0.55 } : undefined}
+                        className={`aspect-square flex items-center justify-center text-2xl font-bold rounded-md sm:rounded-lg cursor-pointer transition-all [-webkit-tap-highlight-color:transparent] focus:outline-none focus-visible:outline focus-visible:outline-4 focus-visible:outline-offset-2 focus-visible:outline-[#0F4C81] ${
+                          isEliminated
+                            ? "bg-transparent"
+                            : isSelected
+                            ? "bg-[#FFD700] ring-4 ring-[#0F4C81] shadow-xl transform scale-105"
+                            : isHinted
+                            ? "bg-green-50 ring-4 ring-[#065F46] animate-pulse"
+                            : "bg-white hover:bg-blue-50 hover:shadow-lg border-2 border-gray-300 hover:border-[#0F4C81] shadow-sm"
+                        } ${disabled ? "cursor-not-allowed opacity-50" : ""}`}
+                      >
+                        {!isEliminated && tile && <TileView tile={tile} />}
+                      </div>
+                    );
+                  })}
                 </div>
-              );
-            })}
-          </div>
+              ))}
+              {linkPath && <LinkPathOverlay path={linkPath} rows={ROWS} cols={COLS} />}
+            </div>
+          )}
 
           {/* Game Tips */}
           <div className="mt-4 p-3 bg-blue-50 border border-[#0F4C81] rounded-lg text-center">
             <p className="text-sm text-gray-700">
-              💡 <strong>Tip:</strong> Click two tiles to check if they match. Yellow highlight shows selected tiles.
+              💡 <strong>Tip:</strong> Tap or click two tiles to check if they match. Yellow highlight shows selected tiles.
+              {state.mode === "link" && " Tiles must be linkable with at most two turns."}
+            </p>
+            <p id="link-match-keys" className="text-xs text-gray-600 mt-1">
+              ⌨️ Arrow keys move between tiles, Home and End jump to the ends of a row, Enter or Space selects.
             </p>
+            {state.autoShuffles > 0 && (
+              <p className="text-sm text-gray-700 mt-1">
+                🔀 No moves were left, so the remaining tiles were reshuffled for free
+              </p>
+            )}
           </div>
         </div>
       )}
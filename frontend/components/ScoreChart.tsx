@@ -0,0 +1,101 @@
+"use client";
+
+import type { Difficulty } from "@/components/LinkMatchGame";
+import { DIFFICULTY_CONFIG } from "@/components/LinkMatchGame";
+
+export type ScorePoint = {
+  timestamp: number; // Unix timestamp in seconds
+  score: number;     // Matches per second
+  difficulty: Difficulty;
+};
+
+interface ScoreChartProps {
+  points: ScorePoint[];
+  height?: number;
+}
+
+const DIFFICULTY_COLORS: Record<Difficulty, string> = {
+  easy: "#065F46",
+  medium: "#0F4C81",
+  hard: "#991B1B",
+};
+
+const WIDTH = 800;
+const PADDING = 40;
+
+// Lightweight SVG line chart of decrypted scores over time, one line per difficulty
+export const ScoreChart: React.FC<ScoreChartProps> = ({ points, height = 280 }) => {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const minTime = Math.min(...points.map((p) => p.timestamp));
+  const maxTime = Math.max(...points.map((p) => p.timestamp));
+  const maxScore = Math.max(...points.map((p) => p.score), 0.001);
+
+  const x = (timestamp: number) =>
+    maxTime === minTime
+      ? WIDTH / 2
+      : PADDING + ((timestamp - minTime) / (maxTime - minTime)) * (WIDTH - 2 * PADDING);
+  const y = (score: number) => height - PADDING - (score / maxScore) * (height - 2 * PADDING);
+
+  const difficulties = (Object.keys(DIFFICULTY_CONFIG) as Difficulty[]).filter((d) =>
+    points.some((p) => p.difficulty === d)
+  );
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto">
+        {/* Axes */}
+        <line x1={PADDING} y1={height - PADDING} x2={WIDTH - PADDING} y2={height - PADDING} stroke="#D1D5DB" strokeWidth={2} />
+        <line x1={PADDING} y1={PADDING} x2={PADDING} y2={height - PADDING} stroke="#D1D5DB" strokeWidth={2} />
+        <text x={PADDING - 6} y={PADDING} textAnchor="end" fontSize={12} fill="#6B7280">
+          {maxScore.toFixed(3)}
+        </text>
+        <text x={PADDING - 6} y={height - PADDING} textAnchor="end" fontSize={12} fill="#6B7280">
+          0
+        </text>
+        <text x={PADDING} y={height - PADDING + 20} fontSize={12} fill="#6B7280">
+          {new Date(minTime * 1000).toLocaleDateString()}
+        </text>
+        <text x={WIDTH - PADDING} y={height - PADDING + 20} textAnchor="end" fontSize={12} fill="#6B7280">
+          {new Date(maxTime * 1000).toLocaleDateString()}
+        </text>
+
+        {difficulties.map((difficulty) => {
+          const series = points
+            .filter((p) => p.difficulty === difficulty)
+            .sort((a, b) => a.timestamp - b.timestamp);
+          return (
+            <g key={difficulty}>
+              <polyline
+                fill="none"
+                stroke={DIFFICULTY_COLORS[difficulty]}
+                strokeWidth={3}
+                points={series.map((p) => `${x(p.timestamp)},${y(p.score)}`).join(" ")}
+              />
+              {series.map((p, i) => (
+                <circle key={i} cx={x(p.timestamp)} cy={y(p.score)} r={5} fill={DIFFICULTY_COLORS[difficulty]}>
+                  <title>{`${DIFFICULTY_CONFIG[difficulty].label}: ${p.score.toFixed(3)}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex justify-center gap-6 mt-2">
+        {difficulties.map((difficulty) => (
+          <div key={difficulty} className="flex items-center text-sm text-gray-700">
+            <span
+              className="inline-block w-4 h-4 rounded-full mr-2"
+              style={{ backgroundColor: DIFFICULTY_COLORS[difficulty] }}
+            />
+            {DIFFICULTY_CONFIG[difficulty].label}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface SeasonCountdownProps {
+  endTimestamp: number; // Unix timestamp in seconds; 0 if the season is open-ended
+  onSeasonEnd?: () => void;
+}
+
+const formatRemaining = (seconds: number): string => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  if (days > 0) {
+    return `${days}d ${hours}h ${minutes}m`;
+  }
+  return `${hours}h ${minutes}m ${secs}s`;
+};
+
+export const SeasonCountdown: React.FC<SeasonCountdownProps> = ({
+  endTimestamp,
+  onSeasonEnd,
+}) => {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setNow(Math.floor(Date.now() / 1000));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = endTimestamp - now;
+  const hasEnded = endTimestamp > 0 && remaining <= 0;
+
+  // Let the parent pick up the automatically started next season
+  useEffect(() => {
+    if (hasEnded && onSeasonEnd) {
+      onSeasonEnd();
+    }
+  }, [hasEnded, onSeasonEnd]);
+
+  if (endTimestamp === 0) {
+    return <span className="text-gray-600">Open-ended season</span>;
+  }
+
+  if (hasEnded) {
+    return <span className="text-gray-600">Season ended, next season starting...</span>;
+  }
+
+  return (
+    <span className="text-gray-700">
+      Ends in <span className="font-mono font-bold text-[#0F4C81]">{formatRemaining(remaining)}</span>
+    </span>
+  );
+};
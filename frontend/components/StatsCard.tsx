@@ -0,0 +1,116 @@
+"use client";
+
+import { SCORE_SCALE } from "@/game/scoring";
+import { CommunityStats, HISTOGRAM_BOUNDARIES } from "@/hooks/useLinkMatch";
+
+interface StatsCardProps {
+  stats: CommunityStats | undefined;
+  isLoading: boolean;
+  isPublishing: boolean;
+  canPublish: boolean;
+  onRefresh: () => void;
+  onPublish: () => void;
+}
+
+const formatScore = (scaled: number): string => (scaled / SCORE_SCALE).toFixed(1);
+
+// Bucket labels: "< 0.5", "0.5–1.0", ..., "≥ 2.0"
+const BUCKET_LABELS = [
+  `< ${formatScore(HISTOGRAM_BOUNDARIES[0])}`,
+  ...HISTOGRAM_BOUNDARIES.slice(1).map((b, i) => `${formatScore(HISTOGRAM_BOUNDARIES[i])}–${formatScore(b)}`),
+  `≥ ${formatScore(HISTOGRAM_BOUNDARIES[HISTOGRAM_BOUNDARIES.length - 1])}`,
+];
+
+export const StatsCard: React.FC<StatsCardProps> = ({
+  stats,
+  isLoading,
+  isPublishing,
+  canPublish,
+  onRefresh,
+  onPublish,
+}) => {
+  const maxBucket = Math.max(1, ...(stats?.histogram ?? []));
+
+  return (
+    <section className="card mb-8">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 flex items-center">
+            <span className="mr-3">📊</span>
+            Community Statistics
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Aggregated homomorphically over every encrypted submission; only periodic snapshots are decrypted
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <button className="btn-primary" disabled={isLoading} onClick={onRefresh}>
+            {isLoading ? (
+              <>
+                <span className="inline-block animate-spin mr-2">⏳</span>
+                Loading...
+              </>
+            ) : (
+              <>
+                <span className="mr-2">🔄</span>
+                Refresh
+              </>
+            )}
+          </button>
+          <button className="btn-success" disabled={!canPublish || isPublishing} onClick={onPublish}>
+            {isPublishing ? "Publishing..." : "📢 Publish Snapshot"}
+          </button>
+        </div>
+      </div>
+
+      {!stats ? (
+        <div className="info-box text-center py-8">
+          <p className="text-gray-700 font-semibold">Click refresh to load the community statistics</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+            <div className="bg-gray-50 border-2 border-gray-200 rounded-lg p-4 text-center">
+              <div className="text-sm text-gray-600">Total Games</div>
+              <div className="text-3xl font-bold text-[#0F4C81]">{stats.liveSubmissionCount}</div>
+            </div>
+            <div className="bg-gray-50 border-2 border-gray-200 rounded-lg p-4 text-center">
+              <div className="text-sm text-gray-600">Average Score</div>
+              <div className="text-3xl font-bold text-[#065F46]">
+                {stats.averageScore !== undefined ? (stats.averageScore / SCORE_SCALE).toFixed(3) : "🔒"}
+              </div>
+            </div>
+            <div className="bg-gray-50 border-2 border-gray-200 rounded-lg p-4 text-center">
+              <div className="text-sm text-gray-600">Last Snapshot</div>
+              <div className="text-lg font-semibold text-gray-900 mt-2">
+                {stats.publishedAt > 0
+                  ? `${new Date(stats.publishedAt * 1000).toLocaleString()} (${stats.submissionCount} games)`
+                  : "Never published"}
+              </div>
+            </div>
+          </div>
+
+          {stats.histogram.length > 0 && (
+            <div>
+              <h3 className="font-bold text-lg text-gray-900 mb-3">Score Distribution (matches/sec)</h3>
+              <div className="space-y-2">
+                {stats.histogram.map((count, i) => (
+                  <div key={BUCKET_LABELS[i]} className="flex items-center gap-3">
+                    <span className="w-24 text-sm text-gray-700 font-mono">{BUCKET_LABELS[i]}</span>
+                    <div className="flex-1 bg-gray-200 rounded-full h-4">
+                      <div
+                        className="bg-[#0F4C81] h-4 rounded-full"
+                        style={{ width: `${(count / maxBucket) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-10 text-right text-sm font-bold text-gray-900">{count}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
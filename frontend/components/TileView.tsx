@@ -0,0 +1,52 @@
+"use client";
+
+import type { Tile, TileShape } from "@/game/tileSet";
+
+// Shapes are drawn in a 100×100 box centered on (50, 50)
+const CENTER = 50;
+const RADIUS = 40;
+
+// Points of a polygon whose vertices lie at the given radii, clockwise from the top
+const polygonPoints = (radii: number[]): string =>
+  radii
+    .map((r, i) => {
+      const angle = (2 * Math.PI * i) / radii.length - Math.PI / 2;
+      return `${(CENTER + r * Math.cos(angle)).toFixed(2)},${(CENTER + r * Math.sin(angle)).toFixed(2)}`;
+    })
+    .join(" ");
+
+const SHAPE_POINTS: Record<Exclude<TileShape, "circle">, string> = {
+  square: "15,15 85,15 85,85 15,85",
+  triangle: polygonPoints([RADIUS + 4, RADIUS + 4, RADIUS + 4]),
+  diamond: polygonPoints([RADIUS, RADIUS, RADIUS, RADIUS]),
+  pentagon: polygonPoints(Array(5).fill(RADIUS)),
+  hexagon: polygonPoints(Array(6).fill(RADIUS)),
+  star: polygonPoints(Array.from({ length: 10 }, (_, i) => (i % 2 === 0 ? RADIUS + 4 : 18))),
+  cross: "38,12 62,12 62,38 88,38 88,62 62,62 62,88 38,88 38,62 12,62 12,38 38,38",
+};
+
+const ShapeTile: React.FC<{ tile: Extract<Tile, { kind: "shape" }> }> = ({ tile }) => {
+  const filled = tile.style === "solid" || tile.style === "hollow";
+  const outline = {
+    fill: filled ? tile.color : "none",
+    stroke: tile.color,
+    strokeWidth: filled ? 0 : 8,
+    strokeLinejoin: "round" as const,
+  };
+
+  return (
+    <svg viewBox="0 0 100 100" className="w-3/4 h-3/4" aria-hidden="true">
+      {tile.shape === "circle" ? (
+        <circle cx={CENTER} cy={CENTER} r={RADIUS} {...outline} />
+      ) : (
+        <polygon points={SHAPE_POINTS[tile.shape]} {...outline} />
+      )}
+      {tile.style === "dotted" && <circle cx={CENTER} cy={CENTER} r={9} fill={tile.color} />}
+      {tile.style === "hollow" && <circle cx={CENTER} cy={CENTER} r={11} fill="#FFFFFF" />}
+    </svg>
+  );
+};
+
+// One tile face; text tiles inherit the font size of the cell
+export const TileView: React.FC<{ tile: Tile }> = ({ tile }) =>
+  tile.kind === "text" ? <span>{tile.text}</span> : <ShapeTile tile={tile} />;
@@ -2,6 +2,7 @@ import type {
   FhevmInstance,
   HandleContractPair,
   UserDecryptResults,
+  PublicDecryptResults,
 } from "@zama-fhe/relayer-sdk/bundle";
 import type { FhevmInstanceConfig } from "@zama-fhe/relayer-sdk/web";
 
@@ -10,6 +11,7 @@ export type {
   FhevmInstanceConfig,
   HandleContractPair,
   UserDecryptResults,
+  PublicDecryptResults,
 };
 // Backward compatibility alias
 export type DecryptedResults = UserDecryptResults;
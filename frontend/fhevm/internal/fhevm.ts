@@ -6,6 +6,7 @@ import type {
   FhevmWindowType,
   FhevmInstance,
   FhevmInstanceConfig,
+  PublicDecryptResults,
 } from "../fhevmTypes";
 import { isFhevmWindowType, RelayerSDKLoader } from "./RelayerSDKLoader";
 import { publicKeyStorageGet, publicKeyStorageSet } from "./PublicKeyStorage";
@@ -296,3 +297,22 @@ export const createFhevmInstance = async (parameters: {
   return instance;
 };
 
+export const fhevmPublicDecrypt = async (
+  instance: FhevmInstance,
+  handles: string[]
+): Promise<PublicDecryptResults["clearValues"]> => {
+  if (handles.length === 0) {
+    return {};
+  }
+
+  try {
+    const result = await instance.publicDecrypt(handles);
+    return result.clearValues;
+  } catch (e) {
+    throwFhevmError(
+      "PUBLIC_DECRYPT_ERROR",
+      "FHEVM publicDecrypt failed. Make sure every handle has been made publicly decryptable.",
+      e
+    );
+  }
+};
@@ -0,0 +1,145 @@
+// Board generation shared by the game and the replay verifier.
+// Kept free of React and path aliases so the backend tasks can import it.
+
+import { Layout, layoutCells, shapeLayout, validateLayout } from "./layout";
+import { isSolvable } from "./solver";
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+export type Cell = {
+  id: number;
+  value: number; // pattern index; 0 means eliminated
+  row: number;
+  col: number;
+};
+
+// Everything needed to rebuild a board besides its difficulty
+export type BoardSpec = {
+  seed: number;
+  layout?: Layout;  // Cells that hold tiles; the full grid when unset
+};
+
+// URL parameters of a shared board (`?seed=123&difficulty=hard`)
+export const SEED_PARAM = "seed";
+export const DIFFICULTY_PARAM = "difficulty";
+
+// Difficulty configuration for game grid sizes
+export const DIFFICULTY_CONFIG: Record<Difficulty, { rows: number; cols: number; label: string }> = {
+  easy: { rows: 4, cols: 4, label: "Easy" },
+  medium: { rows: 6, cols: 6, label: "Medium" },
+  hard: { rows: 8, cols: 8, label: "Hard" },
+};
+
+// Number of distinct patterns a board draws from (see game/tileSet.ts for how they look)
+export const PATTERN_COUNT = 40;
+
+// Board seeds are unsigned 32-bit integers
+export const MAX_SEED = 0xffffffff;
+
+export const randomSeed = (): number => Math.floor(Math.random() * (MAX_SEED + 1));
+
+// Parse a seed from user input (e.g. a URL parameter); undefined when invalid
+export const parseSeed = (value: string | null): number | undefined => {
+  if (value === null || !/^\d{1,10}$/.test(value)) {
+    return undefined;
+  }
+  const seed = Number(value);
+  return seed <= MAX_SEED ? seed : undefined;
+};
+
+export const isDifficulty = (value: string | null): value is Difficulty =>
+  value !== null && Object.prototype.hasOwnProperty.call(DIFFICULTY_CONFIG, value);
+
+// Deterministic PRNG (mulberry32) so that a seed always yields the same board
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Unbiased Fisher-Yates shuffle over a seeded PRNG
+export const shuffleWith = <T>(items: T[], random: () => number): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Lay out pattern values row by row over the active cells; holes stay empty
+const layoutGrid = (values: number[], active: boolean[], rows: number, cols: number): Cell[] => {
+  const grid: Cell[] = [];
+  let id = 0;
+  let next = 0;
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      grid.push({
+        id,
+        value: active[id] ? values[next++] : 0,
+        row,
+        col,
+      });
+      id++;
+    }
+  }
+  return grid;
+};
+
+// Difficulty whose grid a layout fits, if any
+export const layoutDifficulty = (layout: Layout): Difficulty | undefined =>
+  (Object.keys(DIFFICULTY_CONFIG) as Difficulty[]).find(
+    (d) => DIFFICULTY_CONFIG[d].rows === layout.mask.length && DIFFICULTY_CONFIG[d].cols === layout.mask[0]?.length
+  );
+
+// Shuffles tried before board generation gives up. Roughly 1 in 40 shuffles of the full
+// hard grid can be cleared under the link rule, so this leaves every seed of the stock
+// boards a board while a layout that can hardly ever be cleared fails in about a second.
+export const MAX_GENERATION_ATTEMPTS = 1000;
+
+// Generate the game grid; the same seed, difficulty and layout always yield the same
+// board. Throws on a layout that does not fit the difficulty or cannot be paired up, and
+// when no shuffle that can be cleared turns up within MAX_GENERATION_ATTEMPTS.
+export const generateGrid = (difficulty: Difficulty, seed: number, layout?: Layout): Cell[] => {
+  const { rows, cols } = DIFFICULTY_CONFIG[difficulty];
+  const board = layout ?? shapeLayout("full", rows, cols);
+
+  const errors = validateLayout(board, rows, cols);
+  if (errors.length > 0) {
+    throw new Error(`Invalid layout "${board.name}": ${errors.join("; ")}`);
+  }
+
+  const active = layoutCells(board);
+  const pairsNeeded = active.filter(Boolean).length / 2;
+
+  // Generate pairs of patterns (duplicates allowed)
+  const values: number[] = [];
+  for (let i = 0; i < pairsNeeded; i++) {
+    // Use modulo to keep index within range; allow duplicates
+    const patternIndex = (i % PATTERN_COUNT) + 1;
+    values.push(patternIndex, patternIndex);
+  }
+
+  // Reshuffle until the board can be cleared under the link rule (any board can be
+  // cleared in memory mode), so both modes get the same board for a seed
+  const random = createRandom(seed);
+  for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+    const grid = layoutGrid(shuffleWith(values, random), active, rows, cols);
+    if (isSolvable(grid, rows, cols, "link")) {
+      return grid;
+    }
+  }
+  throw new Error(
+    `Layout "${board.name}" yields no board that can be cleared (${MAX_GENERATION_ATTEMPTS} shuffles tried)`
+  );
+};
+
+// Delays before a two-tile attempt resolves: a matching pair is eliminated,
+// a mismatching one is deselected
+export const MATCH_CLEAR_DELAY_MS = 300;
+export const MISMATCH_RESET_DELAY_MS = 500;
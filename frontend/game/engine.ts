@@ -0,0 +1,376 @@
+// Framework-free game engine: a serializable state and a reducer over explicit actions.
+// Timed actions carry a clock reading (`now`, in ms) so the reducer stays pure; game
+// time is measured from the start and excludes pauses.
+
+import {
+  Cell,
+  Difficulty,
+  DIFFICULTY_CONFIG,
+  MATCH_CLEAR_DELAY_MS,
+  MISMATCH_RESET_DELAY_MS,
+  createRandom,
+  generateGrid,
+  shuffleWith,
+} from "./board";
+import type { Layout } from "./layout";
+import { HINT_MOVE, Move, SHUFFLE_MOVE } from "./moveLog";
+import { Point, findLinkPath } from "./path";
+import { findValidPair, isSolvable } from "./solver";
+
+export type EngineStatus = "waiting" | "playing" | "paused" | "finished";
+
+// Match rule: "memory" clears any two equal tiles, "link" only equal tiles
+// connectable with at most two turns (see path.ts)
+export type GameMode = "memory" | "link";
+
+export const GAME_MODE_CONFIG: Record<GameMode, { label: string; description: string }> = {
+  memory: { label: "Memory", description: "Any two equal tiles match" },
+  link: { label: "Link", description: "Equal tiles must connect with at most two turns" },
+};
+
+// Rule of every ranked run (sessions, challenges and the daily board): sessions do not
+// record a mode, so one leaderboard only compares runs played under the same rule.
+// Runs in other modes are practice.
+export const RANKED_MODE: GameMode = "memory";
+
+export type PowerUp = "hint" | "shuffle";
+
+// Each power-up use adds its penalty to the scored time, so runs that use them stay
+// comparable on the leaderboard
+export const POWER_UP_CONFIG: Record<PowerUp, { label: string; description: string; penaltySeconds: number }> = {
+  hint: { label: "Hint", description: "Highlight a pair that can be cleared", penaltySeconds: 5 },
+  shuffle: { label: "Shuffle", description: "Rearrange the remaining tiles", penaltySeconds: 10 },
+};
+
+// Resolution of a two-tile attempt, due at a game time
+export type Resolution = {
+  atMs: number;
+  pair: [number, number];
+  matched: boolean;
+  path?: Point[];             // Connecting path of a linked pair
+};
+
+export type EngineState = {
+  status: EngineStatus;
+  difficulty: Difficulty;
+  mode: GameMode;
+  seed: number;
+  layout?: Layout;            // Cells that hold tiles; the full grid when unset
+  grid: Cell[];
+  selected: number[];         // Selected cell ids, in click order
+  pending: Resolution[];      // Scheduled resolutions, in due order
+  matches: number;
+  mismatches: number;         // Attempts that did not clear a pair
+  clicks: number;             // Clicks on the board
+  hint: [number, number] | null; // Pair highlighted by the last hint, until it is cleared
+  hints: number;              // Hints used
+  shuffles: number;           // Reshuffles used
+  autoShuffles: number;       // Free reshuffles after a deadlock
+  moves: Move[];              // Every click and power-up use, in game time
+  startedAt: number;          // Clock reading at start
+  pausedAt: number | null;    // Clock reading when paused
+  pausedMs: number;           // Total time spent paused
+  finishedAtMs: number;       // Game time at which the game finished
+};
+
+export type EngineAction =
+  // `grid` passes a board already generated from the same seed and layout, so it is not built twice
+  | { type: "start"; difficulty: Difficulty; mode: GameMode; seed: number; layout?: Layout; grid?: Cell[]; now: number }
+  | { type: "click"; cell: number; now: number }
+  | { type: "tick"; now: number }
+  | { type: "hint"; now: number }
+  | { type: "shuffle"; now: number }
+  | { type: "pause"; now: number }
+  | { type: "resume"; now: number }
+  | { type: "end"; now: number }
+  | { type: "reset" };
+
+export const createInitialState = (difficulty: Difficulty, mode: GameMode = "memory"): EngineState => ({
+  status: "waiting",
+  difficulty,
+  mode,
+  seed: 0,
+  grid: [],
+  selected: [],
+  pending: [],
+  matches: 0,
+  mismatches: 0,
+  clicks: 0,
+  hint: null,
+  hints: 0,
+  shuffles: 0,
+  autoShuffles: 0,
+  moves: [],
+  startedAt: 0,
+  pausedAt: null,
+  pausedMs: 0,
+  finishedAtMs: 0,
+});
+
+// Game time (ms since start, excluding pauses) at a clock reading
+// Whole milliseconds: the move log commits times as uint32, and a fractional clock
+// (performance.now()) would break the hash and the replay
+export const gameTime = (state: EngineState, now: number): number =>
+  state.status === "waiting" ? 0 : Math.floor((state.pausedAt ?? now) - state.startedAt - state.pausedMs);
+
+export const isBoardCleared = (state: EngineState): boolean =>
+  state.grid.length > 0 && state.grid.every((c) => c.value === 0);
+
+// Share of resolved attempts that cleared a pair (1 before any attempt)
+export const accuracy = (state: EngineState): number => {
+  const attempts = state.matches + state.mismatches;
+  return attempts === 0 ? 1 : state.matches / attempts;
+};
+
+// Time added to the run for the power-ups used
+export const penaltySeconds = (state: EngineState): number =>
+  state.hints * POWER_UP_CONFIG.hint.penaltySeconds + state.shuffles * POWER_UP_CONFIG.shuffle.penaltySeconds;
+
+// Attempts at a solvable arrangement before a reshuffle gives up
+const MAX_RESHUFFLE_ATTEMPTS = 100;
+
+// Rearrange the remaining tiles into a layout that can still be cleared; null when none
+// was found. Each reshuffle draws from its own stream derived from the board seed, so a
+// replay reproduces it.
+const rearrange = (state: EngineState): Cell[] | null => {
+  const { rows, cols } = DIFFICULTY_CONFIG[state.difficulty];
+  const random = createRandom(state.seed ^ Math.imul(state.shuffles + state.autoShuffles + 1, 0x9e3779b9));
+  const remaining = state.grid.filter((c) => c.value !== 0);
+
+  for (let attempt = 0; attempt < MAX_RESHUFFLE_ATTEMPTS; attempt++) {
+    const values = shuffleWith(remaining.map((c) => c.value), random);
+    const valueById = new Map(remaining.map((c, i) => [c.id, values[i]]));
+    const grid = state.grid.map((c) => (valueById.has(c.id) ? { ...c, value: valueById.get(c.id)! } : c));
+    if (isSolvable(grid, rows, cols, state.mode)) {
+      return grid;
+    }
+  }
+  return null;
+};
+
+// Timers fire in due order; equal deadlines keep their scheduling order
+const schedule = (pending: Resolution[], entry: Resolution): Resolution[] => {
+  const index = pending.findIndex((p) => p.atMs > entry.atMs);
+  return index === -1 ? [...pending, entry] : [...pending.slice(0, index), entry, ...pending.slice(index)];
+};
+
+// Apply every resolution due at or before game time `untilMs`; finishes a cleared board
+const settle = (state: EngineState, untilMs: number): EngineState => {
+  if (state.pending.length === 0 || state.pending[0].atMs > untilMs) {
+    return state;
+  }
+
+  let { grid, matches, mismatches, selected } = state;
+  const pending = [...state.pending];
+  let lastEliminationMs = 0;
+  let lastResolvedMs = 0;
+
+  while (pending.length > 0 && pending[0].atMs <= untilMs) {
+    const { atMs, pair, matched } = pending.shift()!;
+    lastResolvedMs = atMs;
+    // A pair only counts once, even if a stale selection resolves it again
+    if (matched && grid[pair[0]].value !== 0 && grid[pair[1]].value !== 0) {
+      grid = grid.map((c) => (c.id === pair[0] || c.id === pair[1] ? { ...c, value: 0 } : c));
+      matches++;
+      lastEliminationMs = atMs;
+    } else if (!matched) {
+      mismatches++;
+    }
+    selected = [];
+  }
+
+  // The hint goes away once its pair is cleared
+  const hint = state.hint && state.hint.every((id) => grid[id].value !== 0) ? state.hint : null;
+
+  const next = { ...state, grid, matches, mismatches, selected, pending, hint };
+  if (isBoardCleared(next)) {
+    return { ...next, status: "finished", pending: [], finishedAtMs: lastEliminationMs };
+  }
+
+  // Once the board is at rest, a deadlock gets a free reshuffle, or ends the game when
+  // the remaining tiles cannot be rearranged into a clearable layout
+  const { rows, cols } = DIFFICULTY_CONFIG[state.difficulty];
+  if (pending.length > 0 || findValidPair(grid, rows, cols, state.mode)) {
+    return next;
+  }
+  const rearranged = rearrange(next);
+  return rearranged
+    ? { ...next, grid: rearranged, hint: null, autoShuffles: next.autoShuffles + 1 }
+    : { ...next, status: "finished", finishedAtMs: lastResolvedMs };
+};
+
+const click = (state: EngineState, cell: number, now: number): EngineState => {
+  const { rows, cols } = DIFFICULTY_CONFIG[state.difficulty];
+  if (!Number.isInteger(cell) || cell < 0 || cell >= rows * cols) {
+    return state;
+  }
+
+  const atMs = gameTime(state, now);
+  const settled = settle(state, atMs);
+  if (settled.status !== "playing") {
+    return settled;
+  }
+
+  const next = { ...settled, clicks: settled.clicks + 1, moves: [...settled.moves, { cell, atMs }] };
+
+  // Eliminated cells cannot be clicked
+  if (next.grid[cell].value === 0) {
+    return next;
+  }
+
+  // Clicking a selected cell deselects it
+  if (next.selected.includes(cell)) {
+    return { ...next, selected: next.selected.filter((id) => id !== cell) };
+  }
+
+  // A third click restarts the selection
+  if (next.selected.length >= 2) {
+    return { ...next, selected: [cell] };
+  }
+
+  const selected = [...next.selected, cell];
+  if (selected.length < 2) {
+    return { ...next, selected };
+  }
+
+  // Two cells selected: matching patterns are eliminated, others deselected
+  const [first, second] = selected;
+  const samePattern = next.grid[first].value === next.grid[second].value;
+  const path =
+    samePattern && state.mode === "link" ? findLinkPath(next.grid, rows, cols, first, second) : undefined;
+  const matched = samePattern && path !== null;
+  const resolution: Resolution = {
+    atMs: atMs + (matched ? MATCH_CLEAR_DELAY_MS : MISMATCH_RESET_DELAY_MS),
+    pair: [first, second],
+    matched,
+    ...(path ? { path } : {}),
+  };
+  return { ...next, selected, pending: schedule(next.pending, resolution) };
+};
+
+// Power-ups wait for the current attempt to resolve and are logged with the moves
+const applyPowerUp = (state: EngineState, powerUp: PowerUp, now: number): EngineState => {
+  const atMs = gameTime(state, now);
+  const settled = settle(state, atMs);
+  if (settled.status !== "playing" || settled.pending.length > 0) {
+    return settled;
+  }
+
+  if (powerUp === "hint") {
+    const { rows, cols } = DIFFICULTY_CONFIG[settled.difficulty];
+    const hint = findValidPair(settled.grid, rows, cols, settled.mode);
+    // Nothing to point at: no penalty
+    if (!hint) {
+      return settled;
+    }
+    return {
+      ...settled,
+      hint,
+      hints: settled.hints + 1,
+      moves: [...settled.moves, { cell: HINT_MOVE, atMs }],
+    };
+  }
+
+  const grid = rearrange(settled);
+  // No clearable layout: no penalty
+  if (!grid) {
+    return settled;
+  }
+  return {
+    ...settled,
+    grid,
+    selected: [],
+    hint: null,
+    shuffles: settled.shuffles + 1,
+    moves: [...settled.moves, { cell: SHUFFLE_MOVE, atMs }],
+  };
+};
+
+export const gameReducer = (state: EngineState, action: EngineAction): EngineState => {
+  switch (action.type) {
+    case "start":
+      if (state.status === "playing" || state.status === "paused") {
+        return state;
+      }
+      return {
+        ...createInitialState(action.difficulty, action.mode),
+        status: "playing",
+        seed: action.seed,
+        layout: action.layout,
+        grid: action.grid ?? generateGrid(action.difficulty, action.seed, action.layout),
+        startedAt: action.now,
+      };
+
+    case "click":
+      return state.status === "playing" ? click(state, action.cell, action.now) : state;
+
+    case "hint":
+    case "shuffle":
+      return state.status === "playing" ? applyPowerUp(state, action.type, action.now) : state;
+
+    case "tick":
+      return state.status === "playing" ? settle(state, gameTime(state, action.now)) : state;
+
+    case "pause": {
+      if (state.status !== "playing") {
+        return state;
+      }
+      const settled = settle(state, gameTime(state, action.now));
+      return settled.status === "playing" ? { ...settled, status: "paused", pausedAt: action.now } : settled;
+    }
+
+    case "resume":
+      if (state.status !== "paused" || state.pausedAt === null) {
+        return state;
+      }
+      return {
+        ...state,
+        status: "playing",
+        pausedMs: state.pausedMs + Math.max(0, action.now - state.pausedAt),
+        pausedAt: null,
+      };
+
+    case "end":
+      // Ending early keeps the matches made so far; pending resolutions are dropped
+      if (state.status !== "playing" && state.status !== "paused") {
+        return state;
+      }
+      return { ...state, status: "finished", pending: [], finishedAtMs: gameTime(state, action.now) };
+
+    case "reset":
+      return createInitialState(state.difficulty, state.mode);
+  }
+};
+
+// Connecting path to draw while a linked pair waits to clear
+export const activeLinkPath = (state: EngineState): Point[] | undefined =>
+  state.pending.find((p) => p.matched && p.path)?.path;
+
+// Run reported for a finished game, in whole seconds like the on-chain submission
+export type GameRun = {
+  matches: number;
+  mismatches: number;
+  clicks: number;
+  accuracy: number;           // Matches per resolved attempt, from 0 to 1
+  timeSeconds: number;
+  difficulty: Difficulty;
+  mode: GameMode;
+  seed: number;
+  layout?: Layout;
+  penaltySeconds: number;     // Power-up penalties, scored on top of the time
+  moves: Move[];
+};
+
+export const getResult = (state: EngineState): GameRun => ({
+  matches: state.matches,
+  mismatches: state.mismatches,
+  clicks: state.clicks,
+  accuracy: accuracy(state),
+  timeSeconds: Math.floor(state.finishedAtMs / 1000),
+  difficulty: state.difficulty,
+  mode: state.mode,
+  seed: state.seed,
+  ...(state.layout ? { layout: state.layout } : {}),
+  penaltySeconds: penaltySeconds(state),
+  moves: state.moves,
+});
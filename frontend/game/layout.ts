@@ -0,0 +1,93 @@
+// Board layouts: which cells of the grid hold tiles. A layout is stored as JSON with one
+// string per row, "#" for a tile and "." for a hole; holes count as empty cells, so
+// link paths can run through them.
+
+export type Layout = {
+  name: string;
+  mask: string[];
+};
+
+export const TILE = "#";
+export const HOLE = ".";
+
+export type LayoutShape = "full" | "pyramid" | "ring" | "cross";
+
+type ShapeConfig = {
+  label: string;
+  isActive: (row: number, col: number, rows: number, cols: number) => boolean;
+};
+
+export const LAYOUT_SHAPES: Record<LayoutShape, ShapeConfig> = {
+  full: { label: "Full", isActive: () => true },
+  // Rows widen by two tiles from the top until they span the grid
+  pyramid: {
+    label: "Pyramid",
+    isActive: (row, col, _rows, cols) => {
+      const inset = Math.max(0, cols / 2 - (row + 1));
+      return col >= inset && col < cols - inset;
+    },
+  },
+  // A frame a quarter of the grid thick (at least one tile) around an empty center
+  ring: {
+    label: "Ring",
+    isActive: (row, col, rows, cols) => {
+      const thickness = Math.max(1, Math.floor(Math.min(rows, cols) / 4));
+      return Math.min(row, col, rows - 1 - row, cols - 1 - col) < thickness;
+    },
+  },
+  // Two crossing bands of an even width through the center
+  cross: {
+    label: "Cross",
+    isActive: (row, col, rows, cols) => {
+      const half = Math.max(1, Math.floor(Math.min(rows, cols) / 4));
+      return Math.abs(row - (rows - 1) / 2) < half || Math.abs(col - (cols - 1) / 2) < half;
+    },
+  },
+};
+
+// Build a named shape for a grid size
+export const shapeLayout = (shape: LayoutShape, rows: number, cols: number): Layout => ({
+  name: LAYOUT_SHAPES[shape].label,
+  mask: Array.from({ length: rows }, (_, row) =>
+    Array.from({ length: cols }, (_, col) =>
+      LAYOUT_SHAPES[shape].isActive(row, col, rows, cols) ? TILE : HOLE
+    ).join("")
+  ),
+});
+
+// Whether each cell holds a tile, by cell id (row-major)
+export const layoutCells = (layout: Layout): boolean[] =>
+  layout.mask.flatMap((line) => [...line].map((c) => c === TILE));
+
+// Problems that keep a layout from being played on a grid of the given size; empty when
+// it is valid
+export const validateLayout = (layout: Layout, rows: number, cols: number): string[] => {
+  const errors: string[] = [];
+  if (layout.name.trim() === "") {
+    errors.push("The layout needs a name");
+  }
+  if (layout.mask.length !== rows || layout.mask.some((line) => line.length !== cols)) {
+    errors.push(`The layout must have ${rows} rows of ${cols} cells`);
+  }
+  if (layout.mask.some((line) => [...line].some((c) => c !== TILE && c !== HOLE))) {
+    errors.push(`Cells must be "${TILE}" (tile) or "${HOLE}" (hole)`);
+  }
+
+  const tiles = layoutCells(layout).filter(Boolean).length;
+  if (tiles < 2) {
+    errors.push("The layout needs at least one pair of tiles");
+  } else if (tiles % 2 === 1) {
+    errors.push(`The layout has ${tiles} tiles; every tile needs a partner, so the count must be even`);
+  }
+  return errors;
+};
+
+// Read a layout saved as JSON; throws when the file does not describe one
+export const parseLayout = (json: string): Layout => {
+  const value: unknown = JSON.parse(json);
+  const { name, mask } = (value ?? {}) as Partial<Layout>;
+  if (typeof name !== "string" || !Array.isArray(mask) || !mask.every((line) => typeof line === "string")) {
+    throw new Error("Not a layout file: expected a name and a mask of strings");
+  }
+  return { name, mask };
+};
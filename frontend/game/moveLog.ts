@@ -0,0 +1,19 @@
+import { ethers } from "ethers";
+
+// One click on the board, identified by the clicked cell id, or a power-up use
+export type Move = {
+  cell: number;
+  atMs: number;   // Milliseconds since the game started
+};
+
+// Power-ups are logged as moves on reserved cell ids past any board
+export const HINT_MOVE = 0xfffe;
+export const SHUFFLE_MOVE = 0xffff;
+
+// Hash committed on-chain with a session's result: keccak256 over the packed
+// (uint16 cell, uint32 atMs) tuples, in play order
+export const hashMoveLog = (moves: Move[]): string =>
+  ethers.solidityPackedKeccak256(
+    moves.flatMap(() => ["uint16", "uint32"]),
+    moves.flatMap((m) => [m.cell, m.atMs])
+  );
@@ -0,0 +1,74 @@
+// Lianliankan connection rule: two tiles link when an orthogonal path through empty
+// cells connects them with at most two turns. The path may run along the outer border,
+// one cell outside the grid (row/col -1 and rows/cols).
+
+import type { Cell } from "./board";
+
+export type Point = {
+  row: number;
+  col: number;
+};
+
+// A path has at most three straight segments
+const MAX_SEGMENTS = 3;
+
+const DIRECTIONS: [number, number][] = [
+  [-1, 0],
+  [1, 0],
+  [0, -1],
+  [0, 1],
+];
+
+// Find a connecting path between two cells, as its corner points from `from` to `to`
+// (both included); null when the tiles cannot be linked
+export const findLinkPath = (
+  grid: Cell[],
+  rows: number,
+  cols: number,
+  from: number,
+  to: number
+): Point[] | null => {
+  const start = grid[from];
+  const end = grid[to];
+
+  const isOpen = (row: number, col: number): boolean => {
+    if (row < -1 || row > rows || col < -1 || col > cols) {
+      return false;
+    }
+    if (row === -1 || row === rows || col === -1 || col === cols) {
+      return true;
+    }
+    return (row === end.row && col === end.col) || grid[row * cols + col].value === 0;
+  };
+
+  // Breadth-first by segment count: every open cell on a straight line from a corner
+  // can be the next corner
+  const seen = new Set<string>([`${start.row},${start.col}`]);
+  let frontier: Point[][] = [[{ row: start.row, col: start.col }]];
+
+  for (let segment = 0; segment < MAX_SEGMENTS; segment++) {
+    const next: Point[][] = [];
+    for (const path of frontier) {
+      const corner = path[path.length - 1];
+      for (const [dRow, dCol] of DIRECTIONS) {
+        let row = corner.row + dRow;
+        let col = corner.col + dCol;
+        while (isOpen(row, col)) {
+          if (row === end.row && col === end.col) {
+            return [...path, { row, col }];
+          }
+          const key = `${row},${col}`;
+          if (!seen.has(key)) {
+            seen.add(key);
+            next.push([...path, { row, col }]);
+          }
+          row += dRow;
+          col += dCol;
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return null;
+};
@@ -0,0 +1,78 @@
+import { BoardSpec, Difficulty, DIFFICULTY_CONFIG } from "./board";
+import { GameMode, createInitialState, gameReducer, isBoardCleared, penaltySeconds } from "./engine";
+import type { Layout } from "./layout";
+import { HINT_MOVE, Move, SHUFFLE_MOVE } from "./moveLog";
+
+// Replay exported by the game for offline audits
+export type ReplayFile = {
+  version: 1;
+  sessionId?: string;     // On-chain session the run was submitted to
+  difficulty: Difficulty;
+  mode: GameMode;
+  seed: number;
+  layout?: Layout;        // Board shape of a practice run; ranked runs use the full grid
+  moves: Move[];
+};
+
+export type ReplayResult = {
+  matches: number;          // Pairs actually eliminated by the recorded clicks
+  mismatches: number;       // Attempts that did not clear a pair
+  durationSeconds: number;  // Time until the last elimination (the last click if not cleared), floored like the game
+  completed: boolean;       // Whether the board was cleared (not merely stuck on a deadlock)
+  penaltySeconds: number;   // Penalties of the power-ups the log used
+};
+
+// Re-simulate a move log through the game engine on the board built from `board`.
+// Move times are game times, so they are fed to the engine as clock readings from 0.
+// Throws on a malformed log or a board that cannot be generated.
+export const verifyReplay = (
+  board: BoardSpec,
+  difficulty: Difficulty,
+  moves: Move[],
+  mode: GameMode = "memory"
+): ReplayResult => {
+  const { rows, cols } = DIFFICULTY_CONFIG[difficulty];
+
+  let state = gameReducer(createInitialState(difficulty, mode), {
+    type: "start",
+    difficulty,
+    mode,
+    seed: board.seed,
+    layout: board.layout,
+    now: 0,
+  });
+
+  let previousMs = 0;
+  moves.forEach(({ cell, atMs }, i) => {
+    const isPowerUp = cell === HINT_MOVE || cell === SHUFFLE_MOVE;
+    if (!isPowerUp && (!Number.isInteger(cell) || cell < 0 || cell >= rows * cols)) {
+      throw new Error(`Move ${i}: cell ${cell} is outside the board`);
+    }
+    if (!Number.isInteger(atMs) || atMs < previousMs) {
+      throw new Error(`Move ${i}: timestamp ${atMs} is not in play order`);
+    }
+    previousMs = atMs;
+
+    if (cell === HINT_MOVE) {
+      state = gameReducer(state, { type: "hint", now: atMs });
+    } else if (cell === SHUFFLE_MOVE) {
+      state = gameReducer(state, { type: "shuffle", now: atMs });
+    } else {
+      state = gameReducer(state, { type: "click", cell, now: atMs });
+    }
+  });
+
+  // Let the last attempts resolve
+  state = gameReducer(state, { type: "tick", now: Number.POSITIVE_INFINITY });
+
+  // A deadlock that cannot be rearranged also finishes the game, with tiles left
+  const completed = isBoardCleared(state);
+  const lastMoveMs = moves.length > 0 ? moves[moves.length - 1].atMs : 0;
+  return {
+    matches: state.matches,
+    mismatches: state.mismatches,
+    durationSeconds: Math.floor((completed ? state.finishedAtMs : lastMoveMs) / 1000),
+    completed,
+    penaltySeconds: penaltySeconds(state),
+  };
+};
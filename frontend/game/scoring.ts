@@ -0,0 +1,55 @@
+// Mirror of the score LinkMatch.sol derives on-chain, to show players the score their
+// submission will store. Each value names its counterpart in the contract;
+// test/scoring.test.ts reads the contract source and fails when they drift apart.
+
+import type { Difficulty } from "./board";
+
+// Fixed-point scale of scores (SCORE_SCALE)
+export const SCORE_SCALE = 1000;
+
+// Pairs on the board per difficulty (_maxMatches())
+export const MAX_MATCHES: Record<Difficulty, number> = {
+  easy: 8,
+  medium: 18,
+  hard: 32,
+};
+
+// Shortest accepted game per difficulty (minGameDuration())
+export const MIN_GAME_SECONDS: Record<Difficulty, number> = {
+  easy: 2,
+  medium: 4,
+  hard: 8,
+};
+
+// Seconds added to the scored time per mismatched pair (MISMATCH_PENALTY_SECONDS)
+export const MISMATCH_PENALTY_SECONDS = 1;
+
+// Caps on the submitted time and mismatches (MAX_GAME_SECONDS, MAX_MISMATCHES)
+export const MAX_GAME_SECONDS = 60 * 60;
+export const MAX_MISMATCHES = 10000;
+
+// Scored time: the duration is raised to the minimum and capped, then each mismatch and
+// the power-up penalty add to it
+export const scoredSeconds = (
+  timeSeconds: number,
+  difficulty: Difficulty,
+  penaltySeconds = 0,
+  mismatches = 0
+): number =>
+  Math.min(Math.max(timeSeconds, MIN_GAME_SECONDS[difficulty]), MAX_GAME_SECONDS) +
+  Math.min(mismatches, MAX_MISMATCHES) * MISMATCH_PENALTY_SECONDS +
+  penaltySeconds;
+
+// Score in matches per second: matches are capped at the pair count before
+// floor(matches * SCORE_SCALE / scoredSeconds) / SCORE_SCALE
+export const computeScore = (
+  matches: number,
+  timeSeconds: number,
+  difficulty: Difficulty,
+  penaltySeconds = 0,
+  mismatches = 0
+): number =>
+  Math.floor(
+    (Math.min(matches, MAX_MATCHES[difficulty]) * SCORE_SCALE) /
+      scoredSeconds(timeSeconds, difficulty, penaltySeconds, mismatches)
+  ) / SCORE_SCALE;
@@ -0,0 +1,52 @@
+// Board solver. Clearing a pair only opens cells, so it never breaks another pair's
+// connection: when each pattern sits on a single pair (as on generated boards), greedily
+// clearing any available pair solves every solvable board. With repeated patterns a
+// greedy solution still proves the board solvable.
+
+import type { Cell } from "./board";
+import type { GameMode } from "./engine";
+import { findLinkPath } from "./path";
+
+// First pair that can be cleared under the mode's rule, or null when none is left
+export const findValidPair = (
+  grid: Cell[],
+  rows: number,
+  cols: number,
+  mode: GameMode
+): [number, number] | null => {
+  const remaining = grid.filter((c) => c.value !== 0);
+  for (let i = 0; i < remaining.length; i++) {
+    for (let j = i + 1; j < remaining.length; j++) {
+      const [a, b] = [remaining[i], remaining[j]];
+      if (a.value === b.value && (mode === "memory" || findLinkPath(grid, rows, cols, a.id, b.id))) {
+        return [a.id, b.id];
+      }
+    }
+  }
+  return null;
+};
+
+// Pairs that clear the whole board, in order; null when the solver gets stuck
+export const solveBoard = (
+  grid: Cell[],
+  rows: number,
+  cols: number,
+  mode: GameMode
+): [number, number][] | null => {
+  let current = grid;
+  const solution: [number, number][] = [];
+
+  while (current.some((c) => c.value !== 0)) {
+    const pair = findValidPair(current, rows, cols, mode);
+    if (!pair) {
+      return null;
+    }
+    solution.push(pair);
+    current = current.map((c) => (c.id === pair[0] || c.id === pair[1] ? { ...c, value: 0 } : c));
+  }
+
+  return solution;
+};
+
+export const isSolvable = (grid: Cell[], rows: number, cols: number, mode: GameMode): boolean =>
+  solveBoard(grid, rows, cols, mode) !== null;
@@ -0,0 +1,157 @@
+// Tile sets: how pattern values are drawn. A tile is either text (emoji, numbers,
+// letters) or a geometric shape rendered as SVG. Every tile in a set must look different,
+// so two patterns can never be mistaken for each other.
+
+import { DIFFICULTY_CONFIG, PATTERN_COUNT } from "./board";
+
+export type TileShape = "circle" | "square" | "triangle" | "diamond" | "pentagon" | "hexagon" | "star" | "cross";
+
+// solid: filled; outline: stroke only; dotted: outline around a solid dot; hollow: filled with a cut-out dot
+export type TileStyle = "solid" | "outline" | "dotted" | "hollow";
+
+export type Tile =
+  | { kind: "text"; text: string }
+  | { kind: "shape"; shape: TileShape; style: TileStyle; color: string };
+
+export type TileSet = {
+  id: string;
+  name: string;
+  tiles: Tile[];   // Tile of pattern value v is tiles[v - 1]
+};
+
+export const TILE_SHAPES: TileShape[] = ["circle", "square", "triangle", "diamond", "pentagon", "hexagon", "star", "cross"];
+export const TILE_STYLES: TileStyle[] = ["solid", "outline", "dotted", "hollow"];
+
+// A set must cover every pattern the largest board can use
+export const MIN_TILE_COUNT = Math.min(
+  PATTERN_COUNT,
+  Math.max(...Object.values(DIFFICULTY_CONFIG).map(({ rows, cols }) => Math.floor((rows * cols) / 2)))
+);
+
+// Longest text tile, in UTF-16 code units (enough for emoji sequences)
+const MAX_TEXT_LENGTH = 8;
+
+const text = (values: string[]): Tile[] => values.map((t) => ({ kind: "text", text: t }));
+
+const ICON_COLORS = ["#DC2626", "#2563EB", "#16A34A", "#EA580C", "#9333EA"];
+
+// Spoken names of the built-in colors
+const COLOR_NAMES: Record<string, string> = {
+  "#dc2626": "red",
+  "#2563eb": "blue",
+  "#16a34a": "green",
+  "#ea580c": "orange",
+  "#9333ea": "purple",
+  "#000000": "black",
+};
+
+export const TILE_SETS: TileSet[] = [
+  {
+    id: "emoji",
+    name: "Emoji",
+    tiles: text([
+      "🍎", "🍌", "🍇", "🍊", "🍓", "🥝", "🍑", "🍒", "🥭", "🍉",
+      "🍐", "🍋", "🍈", "🍏", "🥑", "🍅", "🥥", "🍍", "🍆", "🥔",
+      "🥕", "🌽", "🌶", "🥦", "🍄", "🥜", "🌰", "🍞", "🧀", "🥚",
+      "🍩", "🍪", "🎂", "🍭", "🍬", "🍫", "🍿", "🧁", "🥨", "🍔",
+    ]),
+  },
+  {
+    id: "icons",
+    name: "Icons",
+    tiles: ICON_COLORS.flatMap((color) =>
+      TILE_SHAPES.map((shape): Tile => ({ kind: "shape", shape, style: "solid", color }))
+    ),
+  },
+  {
+    id: "numbers",
+    name: "Numbers",
+    tiles: text(Array.from({ length: MIN_TILE_COUNT }, (_, i) => String(i + 1))),
+  },
+  {
+    id: "letters",
+    name: "Letters",
+    // Latin capitals, then Greek capitals that do not look like Latin ones
+    tiles: text([..."ABCDEFGHIJKLMNOPQRSTUVWXYZ", ..."ΓΔΘΛΞΠΣΦΨΩ"]),
+  },
+  {
+    id: "contrast",
+    name: "High Contrast",
+    tiles: TILE_STYLES.flatMap((style) =>
+      TILE_SHAPES.map((shape): Tile => ({ kind: "shape", shape, style, color: "#000000" }))
+    ),
+  },
+];
+
+export const DEFAULT_TILE_SET = TILE_SETS[0];
+
+// Identity of a tile's look: equal keys render identically
+export const tileKey = (tile: Tile): string =>
+  tile.kind === "text" ? `text:${tile.text.normalize("NFC")}` : `shape:${tile.shape}:${tile.style}:${tile.color.toLowerCase()}`;
+
+// Problems that keep a tile set from being used; empty when it is valid
+export const validateTileSet = (set: TileSet): string[] => {
+  const errors: string[] = [];
+  if (set.name.trim() === "") {
+    errors.push("The tile set needs a name");
+  }
+  if (set.tiles.length < MIN_TILE_COUNT) {
+    errors.push(`The tile set has ${set.tiles.length} tiles; at least ${MIN_TILE_COUNT} are needed`);
+  }
+
+  const firstByKey = new Map<string, number>();
+  set.tiles.forEach((tile, i) => {
+    if (tile.kind === "text" && (tile.text.trim() === "" || tile.text.length > MAX_TEXT_LENGTH)) {
+      errors.push(`Tile ${i + 1} must be 1 to ${MAX_TEXT_LENGTH} characters`);
+    }
+    const key = tileKey(tile);
+    const first = firstByKey.get(key);
+    if (first === undefined) {
+      firstByKey.set(key, i);
+    } else {
+      errors.push(`Tiles ${first + 1} and ${i + 1} look the same`);
+    }
+  });
+  return errors;
+};
+
+// Description of a tile for screen readers (e.g. "red star", "black dotted hexagon")
+export const tileLabel = (tile: Tile): string => {
+  if (tile.kind === "text") {
+    return tile.text;
+  }
+  const color = COLOR_NAMES[tile.color.toLowerCase()] ?? `color ${tile.color}`;
+  return tile.style === "solid" ? `${color} ${tile.shape}` : `${color} ${tile.style} ${tile.shape}`;
+};
+
+// Tile drawn for a pattern value (values start at 1)
+export const tileFor = (set: TileSet, value: number): Tile | undefined => set.tiles[value - 1];
+
+const isTileShape = (value: unknown): value is TileShape => TILE_SHAPES.includes(value as TileShape);
+const isTileStyle = (value: unknown): value is TileStyle => TILE_STYLES.includes(value as TileStyle);
+
+// Read a tile set saved as JSON: `{ "name": "...", "tiles": [...] }`, where a tile is a
+// string (text) or `{ "shape", "style", "color" }`. Throws when the file does not describe
+// one; the result still needs validateTileSet().
+export const parseTileSet = (json: string): TileSet => {
+  const value: unknown = JSON.parse(json);
+  const { name, tiles } = (value ?? {}) as { name?: unknown; tiles?: unknown };
+  if (typeof name !== "string" || !Array.isArray(tiles)) {
+    throw new Error("Not a tile set file: expected a name and a list of tiles");
+  }
+
+  return {
+    id: "custom",
+    name,
+    tiles: tiles.map((tile: unknown, i): Tile => {
+      if (typeof tile === "string") {
+        return { kind: "text", text: tile };
+      }
+      const { shape, style = "solid", color = "#000000" } = (tile ?? {}) as Record<string, unknown>;
+      if (!isTileShape(shape) || !isTileStyle(style) || typeof color !== "string" || !/^#[0-9a-f]{6}$/i.test(color)) {
+        throw new Error(`Tile ${i + 1}: expected text or a shape (${TILE_SHAPES.join(", ")}) with a #rrggbb color`);
+      }
+      return { kind: "shape", shape, style, color };
+    }),
+  };
+};
@@ -0,0 +1,175 @@
+"use client";
+
+import { ethers } from "ethers";
+import { RefObject, useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { FhevmInstance } from "@/fhevm/fhevmTypes";
+import { fhevmPublicDecrypt } from "@/fhevm/internal/fhevm";
+import type { Difficulty } from "@/components/LinkMatchGame";
+import { DIFFICULTY_INDEX, getLinkMatchByChainId } from "@/hooks/useLinkMatch";
+
+// Badge tiers, in LinkMatch.sol tier order (thresholds mirror badgeThreshold(), scaled x1000)
+export const BADGE_TIERS = [
+  { label: "Bronze", icon: "🥉", threshold: 500 },
+  { label: "Silver", icon: "🥈", threshold: 1000 },
+  { label: "Gold", icon: "🥇", threshold: 2000 },
+] as const;
+
+export const useBadges = (parameters: {
+  instance: FhevmInstance | undefined;
+  chainId: number | undefined;
+  ethersSigner: ethers.JsonRpcSigner | undefined;
+  ethersReadonlyProvider: ethers.ContractRunner | undefined;
+  sameChain: RefObject<(chainId: number | undefined) => boolean>;
+  difficulty: Difficulty;
+  contractAddress?: string;
+}) => {
+  const {
+    instance,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    difficulty,
+    contractAddress,
+  } = parameters;
+
+  // Player the badges were loaded for, and one flag per tier (undefined: not claimed)
+  const [badgesPlayer, setBadgesPlayer] = useState<string | undefined>(undefined);
+  const [badges, setBadges] = useState<boolean[] | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isClaiming, setIsClaiming] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>("");
+
+  const isLoadingRef = useRef<boolean>(isLoading);
+  const isClaimingRef = useRef<boolean>(isClaiming);
+
+  const linkMatch = useMemo(
+    () => getLinkMatchByChainId(chainId, contractAddress),
+    [chainId, contractAddress]
+  );
+
+  // Badges are per difficulty; drop stale values on switch
+  useEffect(() => {
+    setBadges(undefined);
+    setBadgesPlayer(undefined);
+  }, [difficulty]);
+
+  // Read a player's public badge booleans on the selected difficulty
+  const loadBadges = useCallback(
+    (player: string) => {
+      if (isLoadingRef.current) {
+        return;
+      }
+
+      if (!linkMatch.address || !instance || !ethersReadonlyProvider) {
+        return;
+      }
+
+      if (!ethers.isAddress(player)) {
+        setMessage("Invalid player address");
+        return;
+      }
+
+      const thisChainId = chainId;
+      const thisDifficulty = difficulty;
+      const contract = new ethers.Contract(
+        linkMatch.address,
+        linkMatch.abi,
+        ethersReadonlyProvider
+      );
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage("Loading badges...");
+
+      const run = async () => {
+        try {
+          const difficultyIndex = DIFFICULTY_INDEX[thisDifficulty];
+          let flags: boolean[] | undefined = undefined;
+
+          if (await contract.hasBadges(player, difficultyIndex)) {
+            const handles: string[] = (await contract.getBadges(player, difficultyIndex)).map((h: any) =>
+              typeof h === "string" ? h : ethers.hexlify(h)
+            );
+            setMessage("Decrypting public badges...");
+            const clearValues = (await fhevmPublicDecrypt(instance, handles)) as Record<
+              string,
+              string | bigint | boolean
+            >;
+            flags = handles.map((h) => clearValues[h] === true || clearValues[h] === BigInt(1));
+          }
+
+          if (!sameChain.current(thisChainId)) {
+            setMessage("Ignore badges");
+            return;
+          }
+
+          setBadgesPlayer(ethers.getAddress(player));
+          setBadges(flags);
+          setMessage(flags ? "Badges loaded" : "No badges claimed on this difficulty");
+        } catch (e) {
+          setMessage(`Failed to load badges: ${e}`);
+        } finally {
+          isLoadingRef.current = false;
+          setIsLoading(false);
+        }
+      };
+
+      run();
+    },
+    [linkMatch.address, linkMatch.abi, instance, ethersReadonlyProvider, chainId, sameChain, difficulty]
+  );
+
+  // Publish the caller's badge booleans for the current-season best score
+  const claimBadges = useCallback(() => {
+    if (isClaimingRef.current) {
+      return;
+    }
+
+    if (!linkMatch.address || !ethersSigner) {
+      return;
+    }
+
+    const thisEthersSigner = ethersSigner;
+    const contract = new ethers.Contract(
+      linkMatch.address,
+      linkMatch.abi,
+      thisEthersSigner
+    );
+
+    isClaimingRef.current = true;
+    setIsClaiming(true);
+    setMessage("Call claimBadges...");
+
+    const run = async () => {
+      try {
+        const tx: ethers.TransactionResponse = await contract.claimBadges(DIFFICULTY_INDEX[difficulty]);
+        setMessage(`Wait for tx:${tx.hash}...`);
+        const receipt = await tx.wait();
+        setMessage(`Call completed status=${receipt?.status}`);
+      } catch (e) {
+        setMessage(`claimBadges failed! ${e}`);
+        return;
+      } finally {
+        isClaimingRef.current = false;
+        setIsClaiming(false);
+      }
+
+      loadBadges(thisEthersSigner.address);
+    };
+
+    run();
+  }, [linkMatch.address, linkMatch.abi, ethersSigner, difficulty, loadBadges]);
+
+  return {
+    contractAddress: linkMatch.address,
+    badgesPlayer,
+    badges,
+    loadBadges,
+    claimBadges,
+    isLoading,
+    isClaiming,
+    message,
+  };
+};
@@ -0,0 +1,376 @@
+"use client";
+
+import { ethers } from "ethers";
+import { RefObject, useCallback, useMemo, useRef, useState } from "react";
+
+import { FhevmInstance } from "@/fhevm/fhevmTypes";
+import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
+import { GenericStringStorage } from "@/fhevm/GenericStringStorage";
+import type { Difficulty } from "@/components/LinkMatchGame";
+import {
+  DIFFICULTY_BY_INDEX,
+  DIFFICULTY_INDEX,
+  GameSession,
+  findStartedSession,
+  getLinkMatchByChainId,
+} from "@/hooks/useLinkMatch";
+
+// Decrypted values of a challenge outcome (LinkMatch.sol CHALLENGE_DRAW / CHALLENGER_WON / OPPONENT_WON)
+export const CHALLENGE_OUTCOME = {
+  draw: 0,
+  challengerWon: 1,
+  opponentWon: 2,
+} as const;
+
+// Time after its creation during which a challenge can be played (LinkMatch.sol CHALLENGE_TIMEOUT)
+export const CHALLENGE_TIMEOUT_SECONDS = 7 * 24 * 60 * 60;
+
+export type ChallengeEntry = {
+  id: number;
+  challenger: string;
+  opponent: string;
+  difficulty: Difficulty;
+  boardSeed: number;            // Low 32 bits of the on-chain seed, used to generate the board
+  createdAt: number;            // Unix timestamp in seconds
+  challengerSubmitted: boolean;
+  opponentSubmitted: boolean;
+  challengerStarted: boolean;   // Each participant gets a single game session
+  opponentStarted: boolean;
+  declined: boolean;            // Declined by the opponent before playing
+  outcome?: number;             // Decrypted outcome, once the challenge is resolved
+};
+
+export const useChallenges = (parameters: {
+  instance: FhevmInstance | undefined;
+  fhevmDecryptionSignatureStorage: GenericStringStorage;
+  chainId: number | undefined;
+  ethersSigner: ethers.JsonRpcSigner | undefined;
+  ethersReadonlyProvider: ethers.ContractRunner | undefined;
+  sameChain: RefObject<(chainId: number | undefined) => boolean>;
+  sameSigner: RefObject<
+    (ethersSigner: ethers.JsonRpcSigner | undefined) => boolean
+  >;
+  contractAddress?: string;
+}) => {
+  const {
+    instance,
+    fhevmDecryptionSignatureStorage,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    contractAddress,
+  } = parameters;
+
+  const [challenges, setChallenges] = useState<ChallengeEntry[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [decryptingId, setDecryptingId] = useState<number | undefined>(undefined);
+  const [message, setMessage] = useState<string>("");
+
+  const isLoadingRef = useRef<boolean>(isLoading);
+  const isSubmittingRef = useRef<boolean>(isSubmitting);
+  const isDecryptingRef = useRef<boolean>(false);
+
+  const linkMatch = useMemo(
+    () => getLinkMatchByChainId(chainId, contractAddress),
+    [chainId, contractAddress]
+  );
+
+  // Load every challenge the connected player created or received, newest first
+  const loadChallenges = useCallback(() => {
+    if (isLoadingRef.current) {
+      return;
+    }
+
+    if (!linkMatch.address || !ethersReadonlyProvider || !ethersSigner) {
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisEthersSigner = ethersSigner;
+    const contract = new ethers.Contract(
+      linkMatch.address,
+      linkMatch.abi,
+      ethersReadonlyProvider
+    );
+
+    isLoadingRef.current = true;
+    setIsLoading(true);
+    setMessage("Loading challenges...");
+
+    const run = async () => {
+      const isStale = () =>
+        !sameChain.current(thisChainId) || !sameSigner.current(thisEthersSigner);
+
+      try {
+        const player = await thisEthersSigner.getAddress();
+        const ids: bigint[] = await contract.getPlayerChallenges(player);
+
+        const loaded: ChallengeEntry[] = [];
+        for (const id of [...ids].reverse()) {
+          const [
+            challenger,
+            opponent,
+            difficulty,
+            boardSeed,
+            createdAt,
+            challengerSubmitted,
+            opponentSubmitted,
+            challengerStarted,
+            opponentStarted,
+            declined,
+          ] = await contract.getChallenge(id);
+          loaded.push({
+            id: Number(id),
+            challenger,
+            opponent,
+            difficulty: DIFFICULTY_BY_INDEX[Number(difficulty)],
+            boardSeed: Number(BigInt(boardSeed) & 0xffffffffn),
+            createdAt: Number(createdAt),
+            challengerSubmitted,
+            opponentSubmitted,
+            challengerStarted,
+            opponentStarted,
+            declined,
+          });
+        }
+
+        if (isStale()) {
+          setMessage("Ignore challenges");
+          return;
+        }
+
+        // Keep outcomes that were already decrypted
+        setChallenges((prev) =>
+          loaded.map((c) => ({ ...c, outcome: prev.find((p) => p.id === c.id)?.outcome }))
+        );
+        setMessage(`Loaded ${loaded.length} challenges`);
+      } catch (e) {
+        setMessage(`Failed to load challenges: ${e}`);
+      } finally {
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      }
+    };
+
+    run();
+  }, [
+    linkMatch.address,
+    linkMatch.abi,
+    ethersReadonlyProvider,
+    ethersSigner,
+    chainId,
+    sameChain,
+    sameSigner,
+  ]);
+
+  // Send a transaction, then reload the inbox
+  const sendTransaction = useCallback(
+    (label: string, send: (contract: ethers.Contract) => Promise<ethers.TransactionResponse>) => {
+      if (isSubmittingRef.current) {
+        return;
+      }
+
+      if (!linkMatch.address || !instance || !ethersSigner) {
+        return;
+      }
+
+      const contract = new ethers.Contract(
+        linkMatch.address,
+        linkMatch.abi,
+        ethersSigner
+      );
+
+      isSubmittingRef.current = true;
+      setIsSubmitting(true);
+      setMessage(`Call ${label}...`);
+
+      const run = async () => {
+        try {
+          const tx = await send(contract);
+          setMessage(`Wait for tx:${tx.hash}...`);
+          const receipt = await tx.wait();
+          setMessage(`Call completed status=${receipt?.status}`);
+        } catch (e) {
+          setMessage(`${label} failed! ${e}`);
+        } finally {
+          isSubmittingRef.current = false;
+          setIsSubmitting(false);
+        }
+        loadChallenges();
+      };
+
+      run();
+    },
+    [linkMatch.address, linkMatch.abi, instance, ethersSigner, loadChallenges]
+  );
+
+  const createChallenge = useCallback(
+    (opponent: string, difficulty: Difficulty) => {
+      if (!ethers.isAddress(opponent)) {
+        setMessage("Invalid opponent address");
+        return;
+      }
+      sendTransaction("createChallenge", (contract) =>
+        contract.createChallenge(opponent, DIFFICULTY_INDEX[difficulty])
+      );
+    },
+    [sendTransaction]
+  );
+
+  const declineChallenge = useCallback(
+    (challengeId: number) => {
+      sendTransaction("declineChallenge", (contract) => contract.declineChallenge(challengeId));
+    },
+    [sendTransaction]
+  );
+
+  // Start the caller's only game of a challenge; its result is submitted like any session
+  // (see useLinkMatch submitGameResult). Resolves to null when the session could not be started.
+  const startChallengeSession = useCallback(
+    async (challengeId: number): Promise<GameSession | null> => {
+      if (isSubmittingRef.current) {
+        return null;
+      }
+
+      if (!linkMatch.address || !ethersSigner) {
+        setMessage("Connect a wallet to play a challenge");
+        return null;
+      }
+
+      const contract = new ethers.Contract(
+        linkMatch.address,
+        linkMatch.abi,
+        ethersSigner
+      );
+
+      isSubmittingRef.current = true;
+      setIsSubmitting(true);
+      setMessage("Call startChallengeSession...");
+
+      try {
+        const tx: ethers.TransactionResponse = await contract.startChallengeSession(challengeId);
+        setMessage(`Wait for tx:${tx.hash}...`);
+        const session = findStartedSession(contract, await tx.wait());
+        setMessage(session ? `Challenge #${challengeId} started` : "startChallengeSession failed! No SessionStarted event");
+        return session;
+      } catch (e) {
+        setMessage(`startChallengeSession failed! ${e}`);
+        return null;
+      } finally {
+        isSubmittingRef.current = false;
+        setIsSubmitting(false);
+        loadChallenges();
+      }
+    },
+    [linkMatch.address, linkMatch.abi, ethersSigner, loadChallenges]
+  );
+
+  // Decrypt the outcome of a resolved challenge (allowed to both participants only)
+  const decryptOutcome = useCallback(
+    (challengeId: number) => {
+      if (isDecryptingRef.current) {
+        return;
+      }
+
+      if (!linkMatch.address || !instance || !ethersSigner || !ethersReadonlyProvider) {
+        return;
+      }
+
+      const thisChainId = chainId;
+      const thisLinkMatchAddress = linkMatch.address;
+      const thisEthersSigner = ethersSigner;
+      const contract = new ethers.Contract(
+        thisLinkMatchAddress,
+        linkMatch.abi,
+        ethersReadonlyProvider
+      );
+
+      isDecryptingRef.current = true;
+      setDecryptingId(challengeId);
+      setMessage("Start decrypt");
+
+      const run = async () => {
+        const isStale = () =>
+          !sameChain.current(thisChainId) || !sameSigner.current(thisEthersSigner);
+
+        try {
+          const outcomeHandle = await contract.getChallengeOutcome(challengeId);
+          const handle = typeof outcomeHandle === "string" ? outcomeHandle : ethers.hexlify(outcomeHandle);
+
+          const sig: FhevmDecryptionSignature | null =
+            await FhevmDecryptionSignature.loadOrSign(
+              instance,
+              [thisLinkMatchAddress as `0x${string}`],
+              thisEthersSigner,
+              fhevmDecryptionSignatureStorage
+            );
+
+          if (!sig) {
+            setMessage("Unable to build FHEVM decryption signature");
+            return;
+          }
+
+          setMessage("Call FHEVM userDecrypt...");
+
+          const res = await instance.userDecrypt(
+            [{ handle, contractAddress: thisLinkMatchAddress }],
+            sig.privateKey,
+            sig.publicKey,
+            sig.signature,
+            sig.contractAddresses,
+            sig.userAddress,
+            sig.startTimestamp,
+            sig.durationDays
+          );
+
+          if (isStale()) {
+            setMessage("Ignore FHEVM decryption");
+            return;
+          }
+
+          const values = res as unknown as Record<string, string | bigint | boolean>;
+          const outcome = Number(values[handle]);
+          setChallenges((prev) => prev.map((c) => (c.id === challengeId ? { ...c, outcome } : c)));
+          setMessage(`Challenge #${challengeId} outcome decrypted`);
+        } catch (e) {
+          setMessage(`Challenge outcome decryption failed! ${e}`);
+        } finally {
+          isDecryptingRef.current = false;
+          setDecryptingId(undefined);
+        }
+      };
+
+      run();
+    },
+    [
+      fhevmDecryptionSignatureStorage,
+      ethersSigner,
+      ethersReadonlyProvider,
+      linkMatch.address,
+      linkMatch.abi,
+      instance,
+      chainId,
+      sameChain,
+      sameSigner,
+    ]
+  );
+
+  return {
+    contractAddress: linkMatch.address,
+    challenges,
+    loadChallenges,
+    createChallenge,
+    declineChallenge,
+    startChallengeSession,
+    decryptOutcome,
+    isLoading,
+    isSubmitting,
+    decryptingId,
+    message,
+  };
+};
+
+export type ChallengesState = ReturnType<typeof useChallenges>;
@@ -0,0 +1,155 @@
+"use client";
+
+import { ethers } from "ethers";
+import { RefObject, useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import type { Difficulty } from "@/components/LinkMatchGame";
+import {
+  DIFFICULTY_BY_INDEX,
+  GameSession,
+  findStartedSession,
+  getLinkMatchByChainId,
+} from "@/hooks/useLinkMatch";
+
+export type DailyInfo = {
+  day: number;              // UTC day index (Unix time / 1 day)
+  difficulty: Difficulty;   // Same board and difficulty for everyone that day
+  boardSeed?: number;       // Low 32 bits of the day's seed (undefined until a committed seed is revealed)
+  players: string[];        // Players on the day's encrypted leaderboard
+  hasPlayed: boolean;       // Whether the connected player used today's attempt
+  streak: number;           // Consecutive days the connected player submitted
+};
+
+export const useDaily = (parameters: {
+  chainId: number | undefined;
+  ethersSigner: ethers.JsonRpcSigner | undefined;
+  ethersReadonlyProvider: ethers.ContractRunner | undefined;
+  sameChain: RefObject<(chainId: number | undefined) => boolean>;
+  contractAddress?: string;
+}) => {
+  const { chainId, ethersSigner, ethersReadonlyProvider, sameChain, contractAddress } = parameters;
+
+  const [daily, setDaily] = useState<DailyInfo | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isStarting, setIsStarting] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>("");
+
+  const isLoadingRef = useRef<boolean>(isLoading);
+  const isStartingRef = useRef<boolean>(isStarting);
+
+  const linkMatch = useMemo(
+    () => getLinkMatchByChainId(chainId, contractAddress),
+    [chainId, contractAddress]
+  );
+
+  // Read today's board, leaderboard and the connected player's attempt and streak
+  const loadDaily = useCallback(() => {
+    if (isLoadingRef.current) {
+      return;
+    }
+
+    if (!linkMatch.address || !ethersReadonlyProvider || !ethersSigner) {
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisEthersSigner = ethersSigner;
+    const contract = new ethers.Contract(
+      linkMatch.address,
+      linkMatch.abi,
+      ethersReadonlyProvider
+    );
+
+    isLoadingRef.current = true;
+    setIsLoading(true);
+
+    const run = async () => {
+      try {
+        const player = await thisEthersSigner.getAddress();
+        const day: bigint = await contract.currentDay();
+        const [boardSeed, difficulty, [players], hasPlayed, streak] = await Promise.all([
+          // Reverts while the owner has not revealed the seed committed for today
+          contract.dailySeed(day).catch(() => undefined),
+          contract.dailyDifficulty(day),
+          contract.getDailyEncryptedScores(day),
+          contract.hasPlayedDaily(player),
+          contract.getDailyStreak(player),
+        ]);
+
+        if (!sameChain.current(thisChainId)) {
+          setMessage("Ignore daily board");
+          return;
+        }
+
+        setDaily({
+          day: Number(day),
+          difficulty: DIFFICULTY_BY_INDEX[Number(difficulty)],
+          boardSeed: boardSeed === undefined ? undefined : Number(BigInt(boardSeed) & 0xffffffffn),
+          players: [...players],
+          hasPlayed,
+          streak: Number(streak),
+        });
+      } catch (e) {
+        setMessage(`Failed to load the daily board: ${e}`);
+      } finally {
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      }
+    };
+
+    run();
+  }, [linkMatch.address, linkMatch.abi, ethersReadonlyProvider, ethersSigner, chainId, sameChain]);
+
+  useEffect(() => {
+    loadDaily();
+  }, [loadDaily]);
+
+  // Use today's ranked attempt; resolves to null when the session could not be started
+  const startDailySession = useCallback(async (): Promise<GameSession | null> => {
+    if (isStartingRef.current) {
+      return null;
+    }
+
+    if (!linkMatch.address || !ethersSigner) {
+      setMessage("Connect a wallet to play the daily board");
+      return null;
+    }
+
+    const contract = new ethers.Contract(
+      linkMatch.address,
+      linkMatch.abi,
+      ethersSigner
+    );
+
+    isStartingRef.current = true;
+    setIsStarting(true);
+    setMessage("Call startDailySession...");
+
+    try {
+      const tx: ethers.TransactionResponse = await contract.startDailySession();
+      setMessage(`Wait for tx:${tx.hash}...`);
+      const session = findStartedSession(contract, await tx.wait());
+      setMessage(session ? "Daily attempt started" : "startDailySession failed! No SessionStarted event");
+      return session;
+    } catch (e) {
+      setMessage(`startDailySession failed! ${e}`);
+      return null;
+    } finally {
+      isStartingRef.current = false;
+      setIsStarting(false);
+      loadDaily();
+    }
+  }, [linkMatch.address, linkMatch.abi, ethersSigner, loadDaily]);
+
+  return {
+    contractAddress: linkMatch.address,
+    daily,
+    loadDaily,
+    startDailySession,
+    isLoading,
+    isStarting,
+    message,
+  };
+};
+
+export type DailyState = ReturnType<typeof useDaily>;
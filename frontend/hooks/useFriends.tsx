@@ -0,0 +1,313 @@
+"use client";
+
+import { ethers } from "ethers";
+import { RefObject, useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { FhevmInstance } from "@/fhevm/fhevmTypes";
+import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
+import { GenericStringStorage } from "@/fhevm/GenericStringStorage";
+import type { Difficulty } from "@/components/LinkMatchGame";
+import { DIFFICULTY_INDEX, getLinkMatchByChainId } from "@/hooks/useLinkMatch";
+
+export type SharedScoreEntry = {
+  address: string;      // Player who shared the score
+  handle: string;       // Encrypted best score handle
+  clearScore?: number;  // Scaled score (x1000) once decrypted
+};
+
+export const useFriends = (parameters: {
+  instance: FhevmInstance | undefined;
+  fhevmDecryptionSignatureStorage: GenericStringStorage;
+  chainId: number | undefined;
+  ethersSigner: ethers.JsonRpcSigner | undefined;
+  ethersReadonlyProvider: ethers.ContractRunner | undefined;
+  sameChain: RefObject<(chainId: number | undefined) => boolean>;
+  sameSigner: RefObject<
+    (ethersSigner: ethers.JsonRpcSigner | undefined) => boolean
+  >;
+  difficulty: Difficulty;
+  contractAddress?: string;
+}) => {
+  const {
+    instance,
+    fhevmDecryptionSignatureStorage,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    difficulty,
+    contractAddress,
+  } = parameters;
+
+  const [friends, setFriends] = useState<string[]>([]);
+  const [sharedScores, setSharedScores] = useState<SharedScoreEntry[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isDecrypting, setIsDecrypting] = useState<boolean>(false);
+  const [isUpdating, setIsUpdating] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>("");
+
+  const isLoadingRef = useRef<boolean>(isLoading);
+  const isDecryptingRef = useRef<boolean>(isDecrypting);
+  const isUpdatingRef = useRef<boolean>(isUpdating);
+
+  const linkMatch = useMemo(
+    () => getLinkMatchByChainId(chainId, contractAddress),
+    [chainId, contractAddress]
+  );
+
+  // Shared scores are per difficulty; drop stale values on switch
+  useEffect(() => {
+    setSharedScores([]);
+  }, [difficulty]);
+
+  // Load who I share with and the scores shared with me on the selected difficulty
+  const loadFriends = useCallback(() => {
+    if (isLoadingRef.current) {
+      return;
+    }
+
+    if (!linkMatch.address || !ethersReadonlyProvider || !ethersSigner) {
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisEthersSigner = ethersSigner;
+    const contract = new ethers.Contract(
+      linkMatch.address,
+      linkMatch.abi,
+      ethersReadonlyProvider
+    );
+
+    isLoadingRef.current = true;
+    setIsLoading(true);
+    setMessage("Loading friends...");
+
+    const run = async () => {
+      const isStale = () =>
+        !sameChain.current(thisChainId) || !sameSigner.current(thisEthersSigner);
+
+      try {
+        const me = await thisEthersSigner.getAddress();
+        const myFriends: string[] = await contract.getFriends(me);
+        const [players, scores] = await contract.getScoresSharedWith(me, DIFFICULTY_INDEX[difficulty]);
+
+        if (isStale()) {
+          setMessage("Ignore friends");
+          return;
+        }
+
+        setFriends([...myFriends]);
+        setSharedScores(
+          (players as string[]).map((address, i) => ({
+            address,
+            handle: typeof scores[i] === "string" ? scores[i] : ethers.hexlify(scores[i]),
+          }))
+        );
+        setMessage(`${players.length} friends share a score with you`);
+      } catch (e) {
+        setMessage(`Failed to load friends: ${e}`);
+      } finally {
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      }
+    };
+
+    run();
+  }, [
+    linkMatch.address,
+    linkMatch.abi,
+    ethersReadonlyProvider,
+    ethersSigner,
+    chainId,
+    sameChain,
+    sameSigner,
+    difficulty,
+  ]);
+
+  // Grant ("share") or stop granting ("revoke") decryption of my best scores to `address`,
+  // or drop the share `address` grants me ("drop")
+  const updateShare = useCallback(
+    (address: string, action: "share" | "revoke" | "drop") => {
+      if (isUpdatingRef.current) {
+        return;
+      }
+
+      if (!linkMatch.address || !ethersSigner) {
+        return;
+      }
+
+      if (!ethers.isAddress(address)) {
+        setMessage("Invalid friend address");
+        return;
+      }
+
+      const thisChainId = chainId;
+      const thisEthersSigner = ethersSigner;
+      const contract = new ethers.Contract(
+        linkMatch.address,
+        linkMatch.abi,
+        thisEthersSigner
+      );
+
+      isUpdatingRef.current = true;
+      setIsUpdating(true);
+      const method = action === "share" ? "shareScoreWith" : action === "revoke" ? "revokeShare" : "dropShare";
+      setMessage(`Call ${method}...`);
+
+      const run = async () => {
+        const isStale = () =>
+          !sameChain.current(thisChainId) || !sameSigner.current(thisEthersSigner);
+
+        try {
+          const tx: ethers.TransactionResponse = await contract[method](address);
+
+          setMessage(`Wait for tx:${tx.hash}...`);
+          const receipt = await tx.wait();
+          setMessage(`Call completed status=${receipt?.status}`);
+
+          if (isStale()) {
+            setMessage("Ignore share update");
+            return;
+          }
+
+          const isOther = (other: string) => other.toLowerCase() !== address.toLowerCase();
+          if (action === "share") {
+            setFriends((prev) => [...prev, ethers.getAddress(address)]);
+          } else if (action === "revoke") {
+            setFriends((prev) => prev.filter(isOther));
+          } else {
+            setSharedScores((prev) => prev.filter((entry) => isOther(entry.address)));
+          }
+        } catch (e) {
+          setMessage(`${method} failed! ${e}`);
+        } finally {
+          isUpdatingRef.current = false;
+          setIsUpdating(false);
+        }
+      };
+
+      run();
+    },
+    [linkMatch.address, linkMatch.abi, ethersSigner, chainId, sameChain, sameSigner]
+  );
+
+  const shareWith = useCallback((friend: string) => updateShare(friend, "share"), [updateShare]);
+  const revokeShare = useCallback((friend: string) => updateShare(friend, "revoke"), [updateShare]);
+  const dropShare = useCallback((player: string) => updateShare(player, "drop"), [updateShare]);
+
+  const canDecrypt = useMemo(() => {
+    return (
+      linkMatch.address &&
+      instance &&
+      ethersSigner &&
+      !isLoading &&
+      !isDecrypting &&
+      sharedScores.some((s) => s.clearScore === undefined)
+    );
+  }, [linkMatch.address, instance, ethersSigner, isLoading, isDecrypting, sharedScores]);
+
+  // Decrypt every shared score with the friend's own signature
+  const decryptSharedScores = useCallback(() => {
+    if (isLoadingRef.current || isDecryptingRef.current) {
+      return;
+    }
+
+    if (!linkMatch.address || !instance || !ethersSigner) {
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisLinkMatchAddress = linkMatch.address;
+    const thisEthersSigner = ethersSigner;
+    const pending = sharedScores.filter((s) => s.clearScore === undefined);
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    isDecryptingRef.current = true;
+    setIsDecrypting(true);
+    setMessage("Start decrypt");
+
+    const run = async () => {
+      const isStale = () =>
+        !sameChain.current(thisChainId) || !sameSigner.current(thisEthersSigner);
+
+      try {
+        const sig: FhevmDecryptionSignature | null =
+          await FhevmDecryptionSignature.loadOrSign(
+            instance,
+            [thisLinkMatchAddress as `0x${string}`],
+            thisEthersSigner,
+            fhevmDecryptionSignatureStorage
+          );
+
+        if (!sig) {
+          setMessage("Unable to build FHEVM decryption signature");
+          return;
+        }
+
+        setMessage("Call FHEVM userDecrypt...");
+
+        const res = await instance.userDecrypt(
+          pending.map((s) => ({ handle: s.handle, contractAddress: thisLinkMatchAddress })),
+          sig.privateKey,
+          sig.publicKey,
+          sig.signature,
+          sig.contractAddresses,
+          sig.userAddress,
+          sig.startTimestamp,
+          sig.durationDays
+        );
+
+        if (isStale()) {
+          setMessage("Ignore FHEVM decryption");
+          return;
+        }
+
+        const values = res as unknown as Record<string, string | bigint | boolean>;
+        setSharedScores((prev) =>
+          prev.map((s) =>
+            values[s.handle] !== undefined ? { ...s, clearScore: Number(values[s.handle]) } : s
+          )
+        );
+        setMessage(`Decrypted ${pending.length} shared scores`);
+      } catch (e) {
+        setMessage(`Shared score decryption failed! ${e}`);
+      } finally {
+        isDecryptingRef.current = false;
+        setIsDecrypting(false);
+      }
+    };
+
+    run();
+  }, [
+    fhevmDecryptionSignatureStorage,
+    ethersSigner,
+    linkMatch.address,
+    instance,
+    sharedScores,
+    chainId,
+    sameChain,
+    sameSigner,
+  ]);
+
+  return {
+    contractAddress: linkMatch.address,
+    friends,
+    sharedScores,
+    loadFriends,
+    shareWith,
+    revokeShare,
+    dropShare,
+    decryptSharedScores,
+    canDecrypt,
+    isLoading,
+    isDecrypting,
+    isUpdating,
+    message,
+  };
+};
+
+export type FriendsState = ReturnType<typeof useFriends>;
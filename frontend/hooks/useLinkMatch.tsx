@@ -13,23 +13,143 @@ import {
 import { FhevmInstance } from "@/fhevm/fhevmTypes";
 import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
 import { GenericStringStorage } from "@/fhevm/GenericStringStorage";
+import { fhevmPublicDecrypt } from "@/fhevm/internal/fhevm";
 import { LinkMatchABI } from "@/abi/LinkMatchABI";
 import { LinkMatchAddresses } from "@/abi/LinkMatchAddresses";
+import type { Difficulty } from "@/components/LinkMatchGame";
+import type { GameMode } from "@/game/engine";
 
 // LinkMatch contract ABI
 const LINKMATCH_ABI = LinkMatchABI.abi.length > 0 ? LinkMatchABI.abi : [
-  "function submitGameResult(externalEuint32 encryptedScore, bytes calldata scoreProof) external",
-  "function getPlayerResult(address player) external view returns (euint32 score)",
-  "function getPlayerCount() external view returns (uint256)",
-  "function getPlayerByIndex(uint256 index) external view returns (address)",
-  "function hasSubmitted(address player) external view returns (bool)",
-  "function getAllEncryptedScores() external view returns (address[] memory playerAddresses, euint32[] memory encryptedScores)",
+  "function startSession(uint8 difficulty) external returns (uint256 sessionId)",
+  "function getSession(uint256 sessionId) external view returns (address player, uint8 difficulty, uint256 boardSeed, uint256 startedAt, bool used, bytes32 moveLogHash, bool daily, uint16 penaltySeconds)",
+  "function startDailySession() external returns (uint256 sessionId)",
+  "function currentDay() external view returns (uint256)",
+  "function dailySeed(uint256 day) external view returns (uint256)",
+  "function dailyDifficulty(uint256 day) external pure returns (uint8)",
+  "function hasPlayedDaily(address player) external view returns (bool)",
+  "function getDailyStreak(address player) external view returns (uint256)",
+  "function getDailyEncryptedScores(uint256 day) external view returns (address[] memory playerAddresses, euint32[] memory encryptedScores)",
+  "function sessionCount() external view returns (uint256)",
+  "function minGameDuration(uint8 difficulty) external pure returns (uint32)",
+  "event SessionStarted(uint256 indexed sessionId, address indexed player, uint8 difficulty, uint256 boardSeed)",
+  "function submitGameResult(uint256 sessionId, externalEuint32 encryptedMatches, externalEuint32 encryptedTime, externalEuint32 encryptedMismatches, bytes32 moveLogHash, uint16 penaltySeconds, bytes calldata matchesProof, bytes calldata timeProof) external",
+  "function getPlayerResult(address player, uint8 difficulty) external view returns (euint32 score)",
+  "function getPlayerResultDetails(address player, uint8 difficulty) external view returns (euint32 score, euint32 matches, euint32 timeSeconds)",
+  "function getPlayerCount(uint8 difficulty) external view returns (uint256)",
+  "function getPlayerByIndex(uint8 difficulty, uint256 index) external view returns (address)",
+  "function hasSubmitted(uint8 difficulty, address player) external view returns (bool)",
+  "function getAllEncryptedScores(uint8 difficulty) external view returns (address[] memory playerAddresses, euint32[] memory encryptedScores)",
+  "function getEncryptedScoresPage(uint8 difficulty, uint256 offset, uint256 limit) external view returns (address[] memory playerAddresses, euint32[] memory encryptedScores, bool[] memory publicFlags, uint256 nextCursor, uint256 total)",
+  "function computeMyRank(uint8 difficulty) external returns (euint32 rank)",
+  "function getPlayerRank(address player, uint8 difficulty) external view returns (euint32 rank)",
+  "function isScorePublic(address player) external view returns (bool)",
+  "function optInPublicScore() external",
+  "function optOut() external",
+  "function getPublicScores(uint8 difficulty) external view returns (address[] memory playerAddresses, euint32[] memory publicScores)",
+  "function currentSeasonId() external view returns (uint256)",
+  "function getSeason(uint256 seasonId) external view returns (uint256 startTimestamp, uint256 endTimestamp)",
+  "function getSeasonEncryptedScores(uint256 seasonId, uint8 difficulty) external view returns (address[] memory playerAddresses, euint32[] memory encryptedScores)",
+  "function getSeasonPublicScores(uint256 seasonId, uint8 difficulty) external view returns (address[] memory playerAddresses, euint32[] memory publicScores)",
+  "function getPlayerHistoryLength(address player) external view returns (uint256)",
+  "function getPlayerHistory(address player, uint256 offset, uint256 limit) external view returns (euint32[] memory scores, uint8[] memory difficulties, uint256[] memory seasonIds, uint256[] memory timestamps)",
+  "function shareScoreWith(address friend) external",
+  "function revokeShare(address friend) external",
+  "function dropShare(address player) external",
+  "function isSharedWith(address player, address friend) external view returns (bool)",
+  "function getFriends(address player) external view returns (address[] memory)",
+  "function getScoresSharedWith(address friend, uint8 difficulty) external view returns (address[] memory playerAddresses, euint32[] memory sharedScores)",
+  "function histogramBoundary(uint8 index) external pure returns (uint32)",
+  "function statsSubmissionCount() external view returns (uint256)",
+  "function publishStats() external",
+  "function getPublishedStats() external view returns (euint64 scoreSum, euint32[4] memory scoresAtLeast, uint256 submissionCount, uint256 publishedAt)",
+  "function badgeThreshold(uint8 tier) external pure returns (uint32)",
+  "function claimBadges(uint8 difficulty) external",
+  "function hasBadges(address player, uint8 difficulty) external view returns (bool)",
+  "function getBadges(address player, uint8 difficulty) external view returns (ebool[3] memory)",
+  "function createChallenge(address opponent, uint8 difficulty) external returns (uint256 challengeId)",
+  "function startChallengeSession(uint256 challengeId) external returns (uint256 sessionId)",
+  "function declineChallenge(uint256 challengeId) external",
+  "function getChallenge(uint256 challengeId) external view returns (address challenger, address opponent, uint8 difficulty, uint256 boardSeed, uint256 createdAt, bool challengerSubmitted, bool opponentSubmitted, bool challengerStarted, bool opponentStarted, bool declined)",
+  "function getChallengeOutcome(uint256 challengeId) external view returns (euint8 outcome)",
+  "function getPlayerChallenges(address player) external view returns (uint256[] memory)",
 ];
 
+// On-chain difficulty index used by LinkMatch.sol
+export const DIFFICULTY_INDEX: Record<Difficulty, number> = {
+  easy: 0,
+  medium: 1,
+  hard: 2,
+};
+
+export const DIFFICULTY_BY_INDEX = Object.fromEntries(
+  Object.entries(DIFFICULTY_INDEX).map(([difficulty, index]) => [index, difficulty])
+) as Record<number, Difficulty>;
+
+export type GameSession = {
+  id: bigint;           // On-chain session id
+  boardSeed: number;    // Low 32 bits of the committed seed, used to generate the board
+};
+
+// Session started by a transaction, read from its SessionStarted event
+export const findStartedSession = (
+  contract: ethers.Contract,
+  receipt: ethers.TransactionReceipt | null
+): GameSession | null => {
+  for (const log of receipt?.logs ?? []) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "SessionStarted") {
+      return {
+        id: BigInt(parsed.args.sessionId),
+        boardSeed: Number(BigInt(parsed.args.boardSeed) & 0xffffffffn),
+      };
+    }
+  }
+  return null;
+};
+
 export type GameResult = {
-  score: number;        // Average matches per second (matches / timeSeconds)
-  matches: number;      // Number of matches (for display only)
-  timeSeconds: number;  // Time in seconds (for display only)
+  score: number;        // Average matches per second (preview; the contract derives the real one)
+  matches: number;      // Number of matches (encrypted on submit)
+  timeSeconds: number;  // Time in seconds (encrypted on submit)
+  mismatches: number;   // Attempts that did not clear a pair (encrypted on submit)
+  clicks: number;       // Clicks on the board
+  accuracy: number;     // Matches per resolved attempt, from 0 to 1
+  penaltySeconds: number; // Power-up penalty, submitted in the clear and added to the time
+  difficulty: Difficulty; // Difficulty the game was played on
+  mode: GameMode;       // Match rule; only RANKED_MODE runs have a session
+  seed: number;         // Board seed; the same seed and difficulty rebuild the board
+  layoutName?: string;  // Board shape of a practice run; unset for the full grid
+  sessionId?: bigint;   // Session committed before the game started; unset for practice runs
+  daily?: boolean;      // Ranked daily attempt (submitted to the day's leaderboard)
+  challengeId?: number; // Challenge the run was played for (submitted to the challenge only)
+  moveLogHash: string;  // Hash of the recorded moves (see game/moveLog.ts)
+};
+
+export type LeaderboardEntry = {
+  address: string;
+  encryptedScore: string;
+  clearScore?: number;  // Scaled score (x1000), only set for publicly revealed entries
+};
+
+// Score histogram boundaries (LinkMatch.sol histogramBoundary(), scaled x1000)
+export const HISTOGRAM_BOUNDARIES = [500, 1000, 1500, 2000];
+
+export type CommunityStats = {
+  liveSubmissionCount: number;  // Submissions so far (plaintext on-chain)
+  publishedAt: number;          // Unix timestamp of the last snapshot; 0 if never published
+  submissionCount: number;      // Submissions covered by the snapshot
+  averageScore?: number;        // Scaled average score (x1000) of the snapshot
+  histogram: number[];          // Submissions per bucket: [< b0, b0..b1, ..., >= bN]
+};
+
+// Number of players fetched per leaderboard page
+export const LEADERBOARD_PAGE_SIZE = 25;
+
+export type SeasonInfo = {
+  id: number;
+  startTimestamp: number;  // Unix timestamp in seconds
+  endTimestamp: number;    // Unix timestamp in seconds; 0 if the season is open-ended
 };
 
 export type ClearValueType = {
@@ -37,14 +157,14 @@ export type ClearValueType = {
   clear: string | bigint | boolean;
 };
 
-type LinkMatchInfoType = {
+export type LinkMatchInfoType = {
   abi: typeof LINKMATCH_ABI;
   address?: `0x${string}`;
   chainId?: number;
   chainName?: string;
 };
 
-function getLinkMatchByChainId(
+export function getLinkMatchByChainId(
   chainId: number | undefined,
   contractAddress?: string
 ): LinkMatchInfoType {
@@ -67,6 +187,15 @@ function getLinkMatchByChainId(
   };
 }
 
+// Order loaded entries: revealed ones by score, hidden ones keep submission order after them
+const sortLeaderboard = (entries: LeaderboardEntry[]): LeaderboardEntry[] => {
+  const revealed = entries
+    .filter((entry) => entry.clearScore !== undefined)
+    .sort((a, b) => b.clearScore! - a.clearScore!);
+  const hidden = entries.filter((entry) => entry.clearScore === undefined);
+  return [...revealed, ...hidden];
+};
+
 export const useLinkMatch = (parameters: {
   instance: FhevmInstance | undefined;
   fhevmDecryptionSignatureStorage: GenericStringStorage;
@@ -93,28 +222,51 @@ export const useLinkMatch = (parameters: {
 
   const [playerResultHandle, setPlayerResultHandle] = useState<{
     score: string;
+    matches: string;
+    timeSeconds: string;
   } | undefined>(undefined);
   const [clearResult, setClearResult] = useState<{
     score: ClearValueType | undefined;
+    matches: ClearValueType | undefined;
+    timeSeconds: ClearValueType | undefined;
   } | undefined>(undefined);
   const clearResultRef = useRef<{
     score: ClearValueType | undefined;
+    matches: ClearValueType | undefined;
+    timeSeconds: ClearValueType | undefined;
   }>(undefined);
   const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
   const [isDecrypting, setIsDecrypting] = useState<boolean>(false);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const [message, setMessage] = useState<string>("");
+  const [difficulty, setDifficulty] = useState<Difficulty>("medium");
   const [hasSubmitted, setHasSubmitted] = useState<boolean>(false);
-  const [leaderboard, setLeaderboard] = useState<Array<{
-    address: string;
-    encryptedScore: string;
-  }>>([]);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [isLoadingLeaderboard, setIsLoadingLeaderboard] = useState<boolean>(false);
+  const [leaderboardProgress, setLeaderboardProgress] = useState<{
+    loaded: number;
+    total: number;
+  } | undefined>(undefined);
+  const [myRank, setMyRank] = useState<ClearValueType | undefined>(undefined);
+  const [isRanking, setIsRanking] = useState<boolean>(false);
+  const [isScorePublic, setIsScorePublic] = useState<boolean>(false);
+  const [isUpdatingVisibility, setIsUpdatingVisibility] = useState<boolean>(false);
+  const [currentSeason, setCurrentSeason] = useState<SeasonInfo | undefined>(undefined);
+  const [leaderboardSeasonId, setLeaderboardSeasonId] = useState<number | undefined>(undefined);
+  const [stats, setStats] = useState<CommunityStats | undefined>(undefined);
+  const [isLoadingStats, setIsLoadingStats] = useState<boolean>(false);
+  const [isPublishingStats, setIsPublishingStats] = useState<boolean>(false);
 
   const linkMatchRef = useRef<LinkMatchInfoType | undefined>(undefined);
   const isRefreshingRef = useRef<boolean>(isRefreshing);
   const isDecryptingRef = useRef<boolean>(isDecrypting);
   const isSubmittingRef = useRef<boolean>(isSubmitting);
+  const isRankingRef = useRef<boolean>(isRanking);
+  const difficultyRef = useRef<Difficulty>(difficulty);
+  const currentSeasonRef = useRef<SeasonInfo | undefined>(undefined);
+  const isLoadingLeaderboardRef = useRef<boolean>(false);
+  const leaderboardEntriesRef = useRef<LeaderboardEntry[]>([]);
+  const leaderboardRequestRef = useRef<number>(0);
 
   const linkMatch = useMemo(() => {
     const c = getLinkMatchByChainId(chainId, contractAddress);
@@ -157,6 +309,7 @@ export const useLinkMatch = (parameters: {
 
     const thisChainId = linkMatchRef.current.chainId;
     const thisLinkMatchAddress = linkMatchRef.current.address;
+    const thisDifficulty = difficultyRef.current;
 
     const thisLinkMatchContract = new ethers.Contract(
       thisLinkMatchAddress,
@@ -166,30 +319,26 @@ export const useLinkMatch = (parameters: {
 
     ethersSigner.getAddress().then((address) => {
       thisLinkMatchContract
-        .getPlayerResult(address)
+        .getPlayerResultDetails(address, DIFFICULTY_INDEX[thisDifficulty])
         .then((result: any) => {
           if (
             sameChain.current(thisChainId) &&
-            thisLinkMatchAddress === linkMatchRef.current?.address
+            thisLinkMatchAddress === linkMatchRef.current?.address &&
+            thisDifficulty === difficultyRef.current
           ) {
-            // Handle return value: may be string, array or bytes32
-            let handleStr: string;
-            if (Array.isArray(result)) {
-              // If array, take the first element
-              handleStr = result[0];
-            } else if (typeof result === 'string') {
-              handleStr = result;
-            } else {
-              // If bytes32 or other type, convert to hex string
-              handleStr = ethers.hexlify(result);
-            }
-            
-            // Ensure it's a valid hex string
-            if (!handleStr || handleStr === '0x' || handleStr.length < 66) {
+            // Handle return values: may be strings or bytes32
+            const [scoreStr, matchesStr, timeStr]: string[] = [result[0], result[1], result[2]].map(
+              (h: any) => (typeof h === 'string' ? h : ethers.hexlify(h))
+            );
+
+            // Ensure they are valid hex strings
+            if ([scoreStr, matchesStr, timeStr].some((h) => !h || h === '0x' || h.length < 66)) {
               setPlayerResultHandle(undefined);
             } else {
               setPlayerResultHandle({
-                score: handleStr,
+                score: scoreStr,
+                matches: matchesStr,
+                timeSeconds: timeStr,
               });
             }
           }
@@ -201,7 +350,7 @@ export const useLinkMatch = (parameters: {
           if (e.message && (e.message.includes("not submitted") || e.message.includes("revert"))) {
             setPlayerResultHandle(undefined);
           } else {
-            setMessage("LinkMatch.getPlayerResult() call failed! error=" + e);
+            setMessage("LinkMatch.getPlayerResultDetails() call failed! error=" + e);
           }
           isRefreshingRef.current = false;
           setIsRefreshing(false);
@@ -209,6 +358,30 @@ export const useLinkMatch = (parameters: {
     });
   }, [ethersReadonlyProvider, ethersSigner, sameChain]);
 
+  // Drop loaded pages and abandon any page still in flight
+  const resetLeaderboard = useCallback(() => {
+    leaderboardRequestRef.current++;
+    leaderboardEntriesRef.current = [];
+    isLoadingLeaderboardRef.current = false;
+    setIsLoadingLeaderboard(false);
+    setLeaderboard([]);
+    setLeaderboardProgress(undefined);
+  }, []);
+
+  // Results, ranks and leaderboards are per difficulty; drop stale values on switch
+  useEffect(() => {
+    difficultyRef.current = difficulty;
+    setPlayerResultHandle(undefined);
+    setClearResult(undefined);
+    clearResultRef.current = undefined;
+    setMyRank(undefined);
+    resetLeaderboard();
+  }, [difficulty, resetLeaderboard]);
+
+  useEffect(() => {
+    resetLeaderboard();
+  }, [leaderboardSeasonId, resetLeaderboard]);
+
   useEffect(() => {
     if (linkMatch.address && ethersSigner) {
       const contract = new ethers.Contract(
@@ -217,12 +390,54 @@ export const useLinkMatch = (parameters: {
         ethersReadonlyProvider || ethersSigner
       );
       ethersSigner.getAddress().then((address) => {
-        contract.hasSubmitted(address).then((submitted: boolean) => {
+        contract.hasSubmitted(DIFFICULTY_INDEX[difficulty], address).then((submitted: boolean) => {
           setHasSubmitted(submitted);
         });
+        contract.isScorePublic(address).then((isPublic: boolean) => {
+          setIsScorePublic(isPublic);
+        });
       });
     }
-  }, [linkMatch.address, ethersSigner, ethersReadonlyProvider]);
+  }, [linkMatch.address, ethersSigner, ethersReadonlyProvider, difficulty]);
+
+  const refreshSeason = useCallback(() => {
+    if (!linkMatch.address || !ethersReadonlyProvider) {
+      return;
+    }
+
+    const contract = new ethers.Contract(
+      linkMatch.address,
+      linkMatch.abi,
+      ethersReadonlyProvider
+    );
+
+    const run = async () => {
+      try {
+        const seasonId = Number(await contract.currentSeasonId());
+        const [startTimestamp, endTimestamp] = await contract.getSeason(seasonId);
+        const season: SeasonInfo = {
+          id: seasonId,
+          startTimestamp: Number(startTimestamp),
+          endTimestamp: Number(endTimestamp),
+        };
+        setCurrentSeason(season);
+        // Follow the live season unless the player is browsing a past one
+        const previousSeasonId = currentSeasonRef.current?.id;
+        setLeaderboardSeasonId((prev) =>
+          prev === undefined || prev === previousSeasonId ? seasonId : prev
+        );
+        currentSeasonRef.current = season;
+      } catch (e) {
+        setMessage("LinkMatch.getSeason() call failed! error=" + e);
+      }
+    };
+
+    run();
+  }, [linkMatch.address, linkMatch.abi, ethersReadonlyProvider]);
+
+  useEffect(() => {
+    refreshSeason();
+  }, [refreshSeason]);
 
   const canDecrypt = useMemo(() => {
     return (
@@ -267,6 +482,8 @@ export const useLinkMatch = (parameters: {
     const thisChainId = chainId;
     const thisLinkMatchAddress = linkMatch.address;
     const thisScoreHandle = playerResultHandle.score;
+    const thisMatchesHandle = playerResultHandle.matches;
+    const thisTimeHandle = playerResultHandle.timeSeconds;
     const thisEthersSigner = ethersSigner;
 
     isDecryptingRef.current = true;
@@ -319,6 +536,8 @@ export const useLinkMatch = (parameters: {
         const res = await instance.userDecrypt(
           [
             { handle: handleStr, contractAddress: thisLinkMatchAddress },
+            { handle: thisMatchesHandle, contractAddress: thisLinkMatchAddress },
+            { handle: thisTimeHandle, contractAddress: thisLinkMatchAddress },
           ],
           sig.privateKey,
           sig.publicKey,
@@ -339,12 +558,13 @@ export const useLinkMatch = (parameters: {
         const values = res as unknown as Record<string, string | bigint | boolean>;
         const decryptedValue =
           values[handleStr] ?? values[String(thisScoreHandle as unknown as string)];
-        setClearResult({
-          score: { handle: handleStr, clear: decryptedValue },
-        });
-        clearResultRef.current = {
+        const decrypted = {
           score: { handle: handleStr, clear: decryptedValue },
+          matches: { handle: thisMatchesHandle, clear: values[thisMatchesHandle] },
+          timeSeconds: { handle: thisTimeHandle, clear: values[thisTimeHandle] },
         };
+        setClearResult(decrypted);
+        clearResultRef.current = decrypted;
       } finally {
         isDecryptingRef.current = false;
         setIsDecrypting(false);
@@ -363,11 +583,16 @@ export const useLinkMatch = (parameters: {
     sameSigner,
   ]);
 
-  const fetchLeaderboard = useCallback(async () => {
-    if (!linkMatch.address || !ethersReadonlyProvider) {
+  // Load one page of the selected leaderboard starting at `cursor` and append it
+  const loadLeaderboardPage = useCallback(async (cursor: number) => {
+    if (!linkMatch.address || !ethersReadonlyProvider?.call || isLoadingLeaderboardRef.current) {
       return;
     }
 
+    const thisRequestId = leaderboardRequestRef.current;
+    const isStale = () => thisRequestId !== leaderboardRequestRef.current;
+
+    isLoadingLeaderboardRef.current = true;
     setIsLoadingLeaderboard(true);
     setMessage("Loading leaderboard...");
 
@@ -378,53 +603,340 @@ export const useLinkMatch = (parameters: {
         ethersReadonlyProvider
       );
 
-      // Fetch all players' ciphertext scores using a standalone Interface to avoid relying on main ABI
+      // Fetch a page of ciphertext scores using a standalone Interface to avoid relying on main ABI
       const iface = new ethers.Interface([
-        "function getAllEncryptedScores() view returns (address[] playerAddresses, bytes32[] encryptedScores)"
+        "function getSeasonEncryptedScoresPage(uint256 seasonId, uint8 difficulty, uint256 offset, uint256 limit) view returns (address[] playerAddresses, bytes32[] encryptedScores, bool[] publicFlags, uint256 nextCursor, uint256 total)"
       ]);
 
-      const data = iface.encodeFunctionData("getAllEncryptedScores", []);
-      if (!ethersReadonlyProvider || !ethersReadonlyProvider.call) {
-        setMessage("Provider not available");
-        setIsLoadingLeaderboard(false);
-        return;
-      }
+      const difficultyIndex = DIFFICULTY_INDEX[difficulty];
+      const seasonId = leaderboardSeasonId ?? Number(await contract.currentSeasonId());
       const raw = await ethersReadonlyProvider.call({
         to: linkMatch.address!,
-        data,
+        data: iface.encodeFunctionData("getSeasonEncryptedScoresPage", [
+          seasonId,
+          difficultyIndex,
+          cursor,
+          LEADERBOARD_PAGE_SIZE,
+        ]),
       });
-      const decoded = iface.decodeFunctionResult("getAllEncryptedScores", raw);
+      const decoded = iface.decodeFunctionResult("getSeasonEncryptedScoresPage", raw);
       const playerAddresses: string[] = decoded[0];
       const encryptedScores: string[] = decoded[1].map((h: any) =>
         typeof h === "string" ? h : ethers.hexlify(h)
       );
+      const publicFlags: boolean[] = decoded[2];
+      const nextCursor = Number(decoded[3]);
+      const total = Number(decoded[4]);
 
-      if (playerAddresses.length === 0) {
-        setLeaderboard([]);
-        setMessage("No players found");
+      if (isStale()) {
         return;
       }
 
-      // Compose address and ciphertext score without decryption; keep order; take top 10
-      const leaderboardData = playerAddresses.map((address: string, index: number) => ({
-        address,
-        encryptedScore: encryptedScores[index],
-      }));
-      const top10 = leaderboardData.slice(0, 10);
+      // Publicly decrypt the scores of players on this page who opted in to reveal them
+      const publicHandles = encryptedScores.filter((_, index) => publicFlags[index]);
+      let clearValues: Record<string, string | bigint | boolean> = {};
+      if (instance && publicHandles.length > 0) {
+        setMessage(`Decrypting ${publicHandles.length} public scores...`);
+        clearValues = (await fhevmPublicDecrypt(instance, publicHandles)) as Record<
+          string,
+          string | bigint | boolean
+        >;
+      }
 
-      setLeaderboard(top10);
-      setMessage(`Leaderboard loaded (ciphertext): ${top10.length} players`);
+      if (isStale()) {
+        return;
+      }
+
+      const pageEntries: LeaderboardEntry[] = playerAddresses.map((address: string, index: number) => {
+        const clear = publicFlags[index] ? clearValues[encryptedScores[index]] : undefined;
+        return {
+          address,
+          encryptedScore: encryptedScores[index],
+          clearScore: clear !== undefined ? Number(clear) : undefined,
+        };
+      });
+
+      leaderboardEntriesRef.current = [...leaderboardEntriesRef.current, ...pageEntries];
+      setLeaderboard(sortLeaderboard(leaderboardEntriesRef.current));
+      setLeaderboardProgress({ loaded: nextCursor, total });
+
+      if (total === 0) {
+        setMessage("No players found");
+      } else {
+        setMessage(`Season ${seasonId} leaderboard: loaded ${nextCursor} of ${total} players`);
+      }
     } catch (e) {
-      setMessage(`Failed to load leaderboard: ${e}`);
-      setLeaderboard([]);
+      if (!isStale()) {
+        setMessage(`Failed to load leaderboard: ${e}`);
+      }
     } finally {
+      isLoadingLeaderboardRef.current = false;
       setIsLoadingLeaderboard(false);
     }
   }, [
     linkMatch.address,
+    linkMatch.abi,
     ethersReadonlyProvider,
+    instance,
+    difficulty,
+    leaderboardSeasonId,
+  ]);
+
+  // Reload the leaderboard from the first page
+  const fetchLeaderboard = useCallback(async () => {
+    resetLeaderboard();
+    await loadLeaderboardPage(0);
+  }, [resetLeaderboard, loadLeaderboardPage]);
+
+  const hasMoreLeaderboard = Boolean(
+    leaderboardProgress && leaderboardProgress.loaded < leaderboardProgress.total
+  );
+
+  // Continue from the cursor returned by the last page (used for infinite scrolling)
+  const loadMoreLeaderboard = useCallback(async () => {
+    if (!leaderboardProgress || leaderboardProgress.loaded >= leaderboardProgress.total) {
+      return;
+    }
+    await loadLeaderboardPage(leaderboardProgress.loaded);
+  }, [leaderboardProgress, loadLeaderboardPage]);
+
+  const canGetRank = useMemo(() => {
+    return (
+      linkMatch.address &&
+      instance &&
+      ethersSigner &&
+      hasSubmitted &&
+      !isRanking &&
+      !isSubmitting
+    );
+  }, [linkMatch.address, instance, ethersSigner, hasSubmitted, isRanking, isSubmitting]);
+
+  // Compute the player's encrypted rank on-chain, then decrypt it locally
+  const getMyRank = useCallback(() => {
+    if (isRankingRef.current || isSubmittingRef.current) {
+      return;
+    }
+
+    if (!linkMatch.address || !instance || !ethersSigner) {
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisLinkMatchAddress = linkMatch.address;
+    const thisEthersSigner = ethersSigner;
+    const thisDifficultyIndex = DIFFICULTY_INDEX[difficulty];
+    const thisLinkMatchContract = new ethers.Contract(
+      thisLinkMatchAddress,
+      linkMatch.abi,
+      thisEthersSigner
+    );
+
+    isRankingRef.current = true;
+    setIsRanking(true);
+    setMessage("Computing encrypted rank...");
+
+    const run = async () => {
+      const isStale = () =>
+        thisLinkMatchAddress !== linkMatchRef.current?.address ||
+        !sameChain.current(thisChainId) ||
+        !sameSigner.current(thisEthersSigner);
+
+      try {
+        const tx: ethers.TransactionResponse =
+          await thisLinkMatchContract.computeMyRank(thisDifficultyIndex);
+
+        setMessage(`Wait for tx:${tx.hash}...`);
+        await tx.wait();
+
+        if (isStale()) {
+          setMessage("Ignore rank computation");
+          return;
+        }
+
+        const rankHandle: string = await thisLinkMatchContract.getPlayerRank(
+          thisEthersSigner.address,
+          thisDifficultyIndex
+        );
+
+        const sig: FhevmDecryptionSignature | null =
+          await FhevmDecryptionSignature.loadOrSign(
+            instance,
+            [thisLinkMatchAddress as `0x${string}`],
+            thisEthersSigner,
+            fhevmDecryptionSignatureStorage
+          );
+
+        if (!sig) {
+          setMessage("Unable to build FHEVM decryption signature");
+          return;
+        }
+
+        setMessage("Call FHEVM userDecrypt...");
+
+        const res = await instance.userDecrypt(
+          [{ handle: rankHandle, contractAddress: thisLinkMatchAddress }],
+          sig.privateKey,
+          sig.publicKey,
+          sig.signature,
+          sig.contractAddresses,
+          sig.userAddress,
+          sig.startTimestamp,
+          sig.durationDays
+        );
+
+        if (isStale()) {
+          setMessage("Ignore rank computation");
+          return;
+        }
+
+        const values = res as unknown as Record<string, string | bigint | boolean>;
+        setMyRank({ handle: rankHandle, clear: values[rankHandle] });
+        setMessage(`Rank decrypted: #${values[rankHandle]}`);
+      } catch (e) {
+        setMessage(`Rank computation failed! ${e}`);
+      } finally {
+        isRankingRef.current = false;
+        setIsRanking(false);
+      }
+    };
+
+    run();
+  }, [
+    fhevmDecryptionSignatureStorage,
+    ethersSigner,
+    linkMatch.address,
+    linkMatch.abi,
+    instance,
+    chainId,
+    sameChain,
+    sameSigner,
+    difficulty,
   ]);
 
+  // Opt in to (or out of) publicly revealing the best score on the leaderboard
+  const setPublicScore = useCallback(
+    (makePublic: boolean) => {
+      if (!linkMatch.address || !ethersSigner || isUpdatingVisibility) {
+        return;
+      }
+
+      const thisLinkMatchContract = new ethers.Contract(
+        linkMatch.address,
+        linkMatch.abi,
+        ethersSigner
+      );
+
+      setIsUpdatingVisibility(true);
+      setMessage(makePublic ? "Call optInPublicScore..." : "Call optOut...");
+
+      const run = async () => {
+        try {
+          const tx: ethers.TransactionResponse = makePublic
+            ? await thisLinkMatchContract.optInPublicScore()
+            : await thisLinkMatchContract.optOut();
+
+          setMessage(`Wait for tx:${tx.hash}...`);
+          const receipt = await tx.wait();
+
+          if (receipt?.status === 1) {
+            setIsScorePublic(makePublic);
+          }
+          setMessage(`Score visibility updated status=${receipt?.status}`);
+        } catch (e) {
+          setMessage(`Score visibility update failed! ${e}`);
+        } finally {
+          setIsUpdatingVisibility(false);
+        }
+      };
+
+      run();
+    },
+    [linkMatch.address, linkMatch.abi, ethersSigner, isUpdatingVisibility]
+  );
+
+  // Read the last published statistics snapshot and publicly decrypt it
+  const refreshStats = useCallback(() => {
+    if (!linkMatch.address || !ethersReadonlyProvider || isLoadingStats) {
+      return;
+    }
+
+    const contract = new ethers.Contract(
+      linkMatch.address,
+      linkMatch.abi,
+      ethersReadonlyProvider
+    );
+
+    setIsLoadingStats(true);
+
+    const run = async () => {
+      try {
+        const liveSubmissionCount = Number(await contract.statsSubmissionCount());
+        const [scoreSum, scoresAtLeast, submissionCount, publishedAt] = await contract.getPublishedStats();
+        const next: CommunityStats = {
+          liveSubmissionCount,
+          publishedAt: Number(publishedAt),
+          submissionCount: Number(submissionCount),
+          histogram: [],
+        };
+
+        if (next.publishedAt > 0 && instance) {
+          const handles: string[] = [scoreSum, ...scoresAtLeast].map((h: any) =>
+            typeof h === "string" ? h : ethers.hexlify(h)
+          );
+          const clearValues = (await fhevmPublicDecrypt(instance, handles)) as Record<
+            string,
+            string | bigint | boolean
+          >;
+          const [sum, ...atLeast] = handles.map((h) => Number(clearValues[h]));
+
+          next.averageScore = next.submissionCount > 0 ? sum / next.submissionCount : undefined;
+          // Cumulative counters to bucket counts
+          const bounds = [next.submissionCount, ...atLeast, 0];
+          next.histogram = bounds.slice(0, -1).map((count, i) => count - bounds[i + 1]);
+        }
+
+        setStats(next);
+      } catch (e) {
+        setMessage(`Failed to load statistics: ${e}`);
+      } finally {
+        setIsLoadingStats(false);
+      }
+    };
+
+    run();
+  }, [linkMatch.address, linkMatch.abi, ethersReadonlyProvider, instance, isLoadingStats]);
+
+  // Make a fresh snapshot of the statistics publicly decryptable (rate-limited on-chain)
+  const publishStats = useCallback(() => {
+    if (!linkMatch.address || !ethersSigner || isPublishingStats) {
+      return;
+    }
+
+    const thisLinkMatchContract = new ethers.Contract(
+      linkMatch.address,
+      linkMatch.abi,
+      ethersSigner
+    );
+
+    setIsPublishingStats(true);
+    setMessage("Call publishStats...");
+
+    const run = async () => {
+      try {
+        const tx: ethers.TransactionResponse = await thisLinkMatchContract.publishStats();
+        setMessage(`Wait for tx:${tx.hash}...`);
+        const receipt = await tx.wait();
+        setMessage(`Statistics published status=${receipt?.status}`);
+      } catch (e) {
+        setMessage(`publishStats failed! ${e}`);
+      } finally {
+        setIsPublishingStats(false);
+      }
+    };
+
+    run();
+  }, [linkMatch.address, linkMatch.abi, ethersSigner, isPublishingStats]);
+
   const canSubmit = useMemo(() => {
     return (
       linkMatch.address &&
@@ -435,6 +947,43 @@ export const useLinkMatch = (parameters: {
     );
   }, [linkMatch.address, instance, ethersSigner, isRefreshing, isSubmitting]);
 
+  // Commit to a new game on-chain; the board is generated from the seed the contract draws.
+  // Resolves to null when the session could not be started.
+  const startSession = useCallback(
+    async (sessionDifficulty: Difficulty): Promise<GameSession | null> => {
+      if (isSubmittingRef.current) {
+        return null;
+      }
+
+      if (!linkMatch.address || !ethersSigner) {
+        setMessage("Connect a wallet to start a game");
+        return null;
+      }
+
+      const contract = new ethers.Contract(
+        linkMatch.address,
+        linkMatch.abi,
+        ethersSigner
+      );
+
+      setMessage("Call startSession...");
+
+      try {
+        const tx: ethers.TransactionResponse = await contract.startSession(
+          DIFFICULTY_INDEX[sessionDifficulty]
+        );
+        setMessage(`Wait for tx:${tx.hash}...`);
+        const session = findStartedSession(contract, await tx.wait());
+        setMessage(session ? `Session #${session.id} started` : "startSession failed! No SessionStarted event");
+        return session;
+      } catch (e) {
+        setMessage(`startSession failed! ${e}`);
+        return null;
+      }
+    },
+    [linkMatch.address, linkMatch.abi, ethersSigner]
+  );
+
   const submitGameResult = useCallback(
     (result: GameResult) => {
       if (isRefreshingRef.current || isSubmittingRef.current) {
@@ -445,9 +994,15 @@ export const useLinkMatch = (parameters: {
         return;
       }
 
+      if (result.sessionId === undefined) {
+        setMessage("Practice runs (shared or shaped boards, or other modes than Memory) cannot be submitted");
+        return;
+      }
+
       const thisChainId = chainId;
       const thisLinkMatchAddress = linkMatch.address;
       const thisEthersSigner = ethersSigner;
+      const thisSessionId = result.sessionId;
       const thisLinkMatchContract = new ethers.Contract(
         thisLinkMatchAddress,
         linkMatch.abi,
@@ -456,6 +1011,7 @@ export const useLinkMatch = (parameters: {
 
       isSubmittingRef.current = true;
       setIsSubmitting(true);
+      setDifficulty(result.difficulty);
       setMessage(`Start submitting game result...`);
 
       const run = async () => {
@@ -467,16 +1023,16 @@ export const useLinkMatch = (parameters: {
           !sameSigner.current(thisEthersSigner);
 
         try {
-          // Convert score to integer (x1000 to keep 3 decimal places)
-          const scoreInt = Math.floor(result.score * 1000);
-          
-          const scoreInput = instance.createEncryptedInput(
+          // Only the raw counters are encrypted; the contract derives the score
+          const runInput = instance.createEncryptedInput(
             thisLinkMatchAddress,
             thisEthersSigner.address
           );
-          scoreInput.add32(scoreInt);
+          runInput.add32(result.matches);
+          runInput.add32(result.timeSeconds);
+          runInput.add32(result.mismatches);
 
-          const encScore = await scoreInput.encrypt();
+          const encRun = await runInput.encrypt();
 
           if (isStale()) {
             setMessage(`Ignore submit`);
@@ -487,8 +1043,14 @@ export const useLinkMatch = (parameters: {
 
           const tx: ethers.TransactionResponse =
             await thisLinkMatchContract.submitGameResult(
-              encScore.handles[0],
-              encScore.inputProof
+              thisSessionId,
+              encRun.handles[0],
+              encRun.handles[1],
+              encRun.handles[2],
+              result.moveLogHash,
+              result.penaltySeconds,
+              encRun.inputProof,
+              encRun.inputProof
             );
 
           setMessage(`Wait for tx:${tx.hash}...`);
@@ -497,6 +1059,10 @@ export const useLinkMatch = (parameters: {
 
           setMessage(`Submit completed status=${receipt?.status}`);
 
+          if (receipt?.status === 1) {
+            setHasSubmitted(true);
+          }
+
           if (isStale()) {
             setMessage(`Ignore submit`);
             return;
@@ -531,6 +1097,7 @@ export const useLinkMatch = (parameters: {
     canDecrypt,
     canGetResult,
     canSubmit,
+    startSession,
     submitGameResult,
     decryptPlayerResult,
     refreshPlayerResult,
@@ -544,8 +1111,29 @@ export const useLinkMatch = (parameters: {
     isSubmitting,
     isDeployed,
     hasSubmitted,
+    difficulty,
+    setDifficulty,
     leaderboard,
     isLoadingLeaderboard,
+    leaderboardProgress,
+    hasMoreLeaderboard,
+    loadMoreLeaderboard,
+    currentSeason,
+    refreshSeason,
+    leaderboardSeasonId,
+    setLeaderboardSeasonId,
+    canGetRank,
+    getMyRank,
+    myRank,
+    isRanking,
+    isScorePublic,
+    isUpdatingVisibility,
+    setPublicScore,
+    stats,
+    refreshStats,
+    isLoadingStats,
+    publishStats,
+    isPublishingStats,
   };
 };
 
@@ -0,0 +1,256 @@
+"use client";
+
+import { ethers } from "ethers";
+import { RefObject, useCallback, useMemo, useRef, useState } from "react";
+
+import { FhevmInstance } from "@/fhevm/fhevmTypes";
+import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
+import { GenericStringStorage } from "@/fhevm/GenericStringStorage";
+import type { Difficulty } from "@/components/LinkMatchGame";
+import { DIFFICULTY_BY_INDEX, getLinkMatchByChainId } from "@/hooks/useLinkMatch";
+
+// Number of runs fetched per getPlayerHistory() call
+const HISTORY_PAGE_SIZE = 50;
+// Number of handles sent per userDecrypt() request
+const DECRYPT_BATCH_SIZE = 20;
+
+export type RunEntry = {
+  index: number;          // Position in the on-chain history (0 = oldest)
+  handle: string;         // Encrypted score handle
+  difficulty: Difficulty;
+  seasonId: number;
+  timestamp: number;      // Unix timestamp in seconds
+  clearScore?: number;    // Scaled score (x1000) once decrypted
+};
+
+export const useRunHistory = (parameters: {
+  instance: FhevmInstance | undefined;
+  fhevmDecryptionSignatureStorage: GenericStringStorage;
+  chainId: number | undefined;
+  ethersSigner: ethers.JsonRpcSigner | undefined;
+  ethersReadonlyProvider: ethers.ContractRunner | undefined;
+  sameChain: RefObject<(chainId: number | undefined) => boolean>;
+  sameSigner: RefObject<
+    (ethersSigner: ethers.JsonRpcSigner | undefined) => boolean
+  >;
+  contractAddress?: string;
+}) => {
+  const {
+    instance,
+    fhevmDecryptionSignatureStorage,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    contractAddress,
+  } = parameters;
+
+  const [runs, setRuns] = useState<RunEntry[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isDecrypting, setIsDecrypting] = useState<boolean>(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | undefined>(undefined);
+  const [message, setMessage] = useState<string>("");
+
+  const isLoadingRef = useRef<boolean>(isLoading);
+  const isDecryptingRef = useRef<boolean>(isDecrypting);
+
+  const linkMatch = useMemo(
+    () => getLinkMatchByChainId(chainId, contractAddress),
+    [chainId, contractAddress]
+  );
+
+  const loadRuns = useCallback(() => {
+    if (isLoadingRef.current || isDecryptingRef.current) {
+      return;
+    }
+
+    if (!linkMatch.address || !ethersReadonlyProvider || !ethersSigner) {
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisEthersSigner = ethersSigner;
+    const contract = new ethers.Contract(
+      linkMatch.address,
+      linkMatch.abi,
+      ethersReadonlyProvider
+    );
+
+    isLoadingRef.current = true;
+    setIsLoading(true);
+    setMessage("Loading run history...");
+
+    const run = async () => {
+      const isStale = () =>
+        !sameChain.current(thisChainId) || !sameSigner.current(thisEthersSigner);
+
+      try {
+        const player = await thisEthersSigner.getAddress();
+        const total = Number(await contract.getPlayerHistoryLength(player));
+        const loaded: RunEntry[] = [];
+
+        for (let offset = 0; offset < total; offset += HISTORY_PAGE_SIZE) {
+          setProgress({ done: offset, total });
+          const [scores, difficulties, seasonIds, timestamps] =
+            await contract.getPlayerHistory(player, offset, HISTORY_PAGE_SIZE);
+
+          for (let i = 0; i < scores.length; i++) {
+            loaded.push({
+              index: offset + i,
+              handle: typeof scores[i] === "string" ? scores[i] : ethers.hexlify(scores[i]),
+              difficulty: DIFFICULTY_BY_INDEX[Number(difficulties[i])],
+              seasonId: Number(seasonIds[i]),
+              timestamp: Number(timestamps[i]),
+            });
+          }
+        }
+
+        if (isStale()) {
+          setMessage("Ignore run history");
+          return;
+        }
+
+        setRuns(loaded);
+        setMessage(`Loaded ${loaded.length} runs`);
+      } catch (e) {
+        setMessage(`Failed to load run history: ${e}`);
+      } finally {
+        setProgress(undefined);
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      }
+    };
+
+    run();
+  }, [
+    linkMatch.address,
+    linkMatch.abi,
+    ethersReadonlyProvider,
+    ethersSigner,
+    chainId,
+    sameChain,
+    sameSigner,
+  ]);
+
+  const canDecrypt = useMemo(() => {
+    return (
+      linkMatch.address &&
+      instance &&
+      ethersSigner &&
+      !isLoading &&
+      !isDecrypting &&
+      runs.some((r) => r.clearScore === undefined)
+    );
+  }, [linkMatch.address, instance, ethersSigner, isLoading, isDecrypting, runs]);
+
+  // Decrypt every run that is still encrypted, in batches, with a single signature
+  const decryptRuns = useCallback(() => {
+    if (isLoadingRef.current || isDecryptingRef.current) {
+      return;
+    }
+
+    if (!linkMatch.address || !instance || !ethersSigner) {
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisLinkMatchAddress = linkMatch.address;
+    const thisEthersSigner = ethersSigner;
+    const pending = runs.filter((r) => r.clearScore === undefined);
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    isDecryptingRef.current = true;
+    setIsDecrypting(true);
+    setMessage("Start decrypt");
+
+    const run = async () => {
+      const isStale = () =>
+        !sameChain.current(thisChainId) || !sameSigner.current(thisEthersSigner);
+
+      try {
+        const sig: FhevmDecryptionSignature | null =
+          await FhevmDecryptionSignature.loadOrSign(
+            instance,
+            [thisLinkMatchAddress as `0x${string}`],
+            thisEthersSigner,
+            fhevmDecryptionSignatureStorage
+          );
+
+        if (!sig) {
+          setMessage("Unable to build FHEVM decryption signature");
+          return;
+        }
+
+        const clearByHandle = new Map<string, number>();
+        for (let i = 0; i < pending.length; i += DECRYPT_BATCH_SIZE) {
+          setProgress({ done: i, total: pending.length });
+          setMessage("Call FHEVM userDecrypt...");
+
+          const batch = pending.slice(i, i + DECRYPT_BATCH_SIZE);
+          const res = await instance.userDecrypt(
+            batch.map((r) => ({ handle: r.handle, contractAddress: thisLinkMatchAddress })),
+            sig.privateKey,
+            sig.publicKey,
+            sig.signature,
+            sig.contractAddresses,
+            sig.userAddress,
+            sig.startTimestamp,
+            sig.durationDays
+          );
+
+          if (isStale()) {
+            setMessage("Ignore FHEVM decryption");
+            return;
+          }
+
+          const values = res as unknown as Record<string, string | bigint | boolean>;
+          for (const r of batch) {
+            if (values[r.handle] !== undefined) {
+              clearByHandle.set(r.handle, Number(values[r.handle]));
+            }
+          }
+        }
+
+        setRuns((prev) =>
+          prev.map((r) =>
+            clearByHandle.has(r.handle) ? { ...r, clearScore: clearByHandle.get(r.handle) } : r
+          )
+        );
+        setMessage(`Decrypted ${clearByHandle.size} runs`);
+      } catch (e) {
+        setMessage(`Run history decryption failed! ${e}`);
+      } finally {
+        setProgress(undefined);
+        isDecryptingRef.current = false;
+        setIsDecrypting(false);
+      }
+    };
+
+    run();
+  }, [
+    fhevmDecryptionSignatureStorage,
+    ethersSigner,
+    linkMatch.address,
+    instance,
+    runs,
+    chainId,
+    sameChain,
+    sameSigner,
+  ]);
+
+  return {
+    contractAddress: linkMatch.address,
+    runs,
+    loadRuns,
+    decryptRuns,
+    canDecrypt,
+    isLoading,
+    isDecrypting,
+    progress,
+    message,
+  };
+};
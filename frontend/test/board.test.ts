@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  MAX_GENERATION_ATTEMPTS,
+  MAX_SEED,
+  createRandom,
+  generateGrid,
+  isDifficulty,
+  parseSeed,
+} from "../game/board";
+import { shapeLayout } from "../game/layout";
+import { isSolvable } from "../game/solver";
+
+// The solver is spied on so a test can stand in a layout no shuffle of which can be cleared
+vi.mock("../game/solver", async (importOriginal) => {
+  const solver = await importOriginal<typeof import("../game/solver")>();
+  return { ...solver, isSolvable: vi.fn(solver.isSolvable) };
+});
+
+describe("board", function () {
+  it("draws the same sequence for the same seed", function () {
+    const a = createRandom(123);
+    const b = createRandom(123);
+    const values = Array.from({ length: 5 }, () => a());
+    expect(values).toEqual(Array.from({ length: 5 }, () => b()));
+    expect(values.every((v) => v >= 0 && v < 1)).toBe(true);
+  });
+
+  it("shuffles every pattern into the grid exactly twice", function () {
+    const grid = generateGrid("hard", MAX_SEED);
+    const counts = new Map<number, number>();
+    grid.forEach((c) => counts.set(c.value, (counts.get(c.value) ?? 0) + 1));
+    expect([...counts.values()].every((n) => n % 2 === 0)).toBe(true);
+    expect(grid.map((c) => c.id)).toEqual(grid.map((_, i) => i));
+  });
+
+  it("gives up on a layout that yields no board that can be cleared", function () {
+    const layout = shapeLayout("ring", 4, 4);
+    vi.mocked(isSolvable).mockClear().mockReturnValue(false);
+    try {
+      expect(() => generateGrid("easy", 1, layout)).toThrow(
+        `Layout "Ring" yields no board that can be cleared (${MAX_GENERATION_ATTEMPTS} shuffles tried)`
+      );
+      expect(isSolvable).toHaveBeenCalledTimes(MAX_GENERATION_ATTEMPTS);
+    } finally {
+      vi.mocked(isSolvable).mockReset();
+    }
+    expect(generateGrid("easy", 1, layout)).toHaveLength(16);
+  });
+
+  it("parses seeds from URL parameters", function () {
+    expect(parseSeed("0")).toBe(0);
+    expect(parseSeed("4294967295")).toBe(MAX_SEED);
+    expect(parseSeed("4294967296")).toBeUndefined();
+    expect(parseSeed("-1")).toBeUndefined();
+    expect(parseSeed("1e3")).toBeUndefined();
+    expect(parseSeed(null)).toBeUndefined();
+
+    expect(isDifficulty("hard")).toBe(true);
+    expect(isDifficulty("toString")).toBe(false);
+  });
+});
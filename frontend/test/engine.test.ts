@@ -0,0 +1,400 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { MATCH_CLEAR_DELAY_MS, MISMATCH_RESET_DELAY_MS, generateGrid } from "../game/board";
+import {
+  EngineAction,
+  EngineState,
+  GameMode,
+  activeLinkPath,
+  POWER_UP_CONFIG,
+  accuracy,
+  createInitialState,
+  gameReducer,
+  gameTime,
+  getResult,
+} from "../game/engine";
+import { HINT_MOVE, SHUFFLE_MOVE, hashMoveLog } from "../game/moveLog";
+import { verifyReplay } from "../game/replay";
+import { findValidPair, isSolvable } from "../game/solver";
+
+// The solver is spied on so a test can stand in a board that no rearrangement clears
+vi.mock("../game/solver", async (importOriginal) => {
+  const solver = await importOriginal<typeof import("../game/solver")>();
+  return { ...solver, isSolvable: vi.fn(solver.isSolvable) };
+});
+
+const SEED = 42;
+
+const run = (actions: EngineAction[], state: EngineState = createInitialState("easy")): EngineState =>
+  actions.reduce(gameReducer, state);
+
+const start = (now = 0, mode: GameMode = "memory"): EngineState =>
+  run([{ type: "start", difficulty: "easy", mode, seed: SEED, now }]);
+
+// Cell ids of every pair on the seeded easy board, grouped by pattern
+const pairs = (): [number, number][] => {
+  const byValue = new Map<number, number[]>();
+  for (const cell of generateGrid("easy", SEED)) {
+    byValue.set(cell.value, [...(byValue.get(cell.value) ?? []), cell.id]);
+  }
+  return [...byValue.values()].map(([a, b]) => [a, b]);
+};
+
+// First two cells with different patterns
+const mismatch = (): [number, number] => {
+  const [[a], [b]] = pairs();
+  return [a, b];
+};
+
+describe("game engine", function () {
+  it("generates the same board for the same seed", function () {
+    expect(generateGrid("medium", 7)).toEqual(generateGrid("medium", 7));
+    expect(generateGrid("medium", 7)).not.toEqual(generateGrid("medium", 8));
+    expect(generateGrid("hard", 7)).toHaveLength(64);
+  });
+
+  it("starts a game from waiting", function () {
+    const state = start(1000);
+    expect(state.status).toBe("playing");
+    expect(state.grid).toEqual(generateGrid("easy", SEED));
+    expect(state.startedAt).toBe(1000);
+
+    // A board built by the caller is taken as is
+    const grid = generateGrid("easy", SEED);
+    expect(run([{ type: "start", difficulty: "easy", mode: "memory", seed: SEED, grid, now: 0 }]).grid).toBe(grid);
+  });
+
+  it("ignores clicks while waiting", function () {
+    const state = run([{ type: "click", cell: 0, now: 10 }]);
+    expect(state.status).toBe("waiting");
+    expect(state.moves).toHaveLength(0);
+  });
+
+  it("eliminates a matching pair after the clear delay", function () {
+    const [a, b] = pairs()[0];
+    let state = run(
+      [
+        { type: "click", cell: a, now: 100 },
+        { type: "click", cell: b, now: 200 },
+      ],
+      start()
+    );
+    expect(state.selected).toEqual([a, b]);
+    expect(state.matches).toBe(0);
+
+    state = gameReducer(state, { type: "tick", now: 200 + MATCH_CLEAR_DELAY_MS });
+    expect(state.matches).toBe(1);
+    expect(state.selected).toEqual([]);
+    expect(state.grid[a].value).toBe(0);
+    expect(state.grid[b].value).toBe(0);
+  });
+
+  it("deselects a mismatching pair after the reset delay", function () {
+    const [a, b] = mismatch();
+    let state = run(
+      [
+        { type: "click", cell: a, now: 100 },
+        { type: "click", cell: b, now: 200 },
+        { type: "tick", now: 200 + MISMATCH_RESET_DELAY_MS - 1 },
+      ],
+      start()
+    );
+    expect(state.selected).toEqual([a, b]);
+    expect(state.mismatches).toBe(0);
+
+    state = gameReducer(state, { type: "tick", now: 200 + MISMATCH_RESET_DELAY_MS });
+    expect(state.selected).toEqual([]);
+    expect(state.matches).toBe(0);
+    expect(state.mismatches).toBe(1);
+    expect(accuracy(state)).toBe(0);
+  });
+
+  it("deselects a cell clicked twice", function () {
+    const state = run(
+      [
+        { type: "click", cell: 3, now: 100 },
+        { type: "click", cell: 3, now: 200 },
+      ],
+      start()
+    );
+    expect(state.selected).toEqual([]);
+    expect(state.moves).toEqual([
+      { cell: 3, atMs: 100 },
+      { cell: 3, atMs: 200 },
+    ]);
+  });
+
+  it("counts a pair only once when a stale selection resolves it again", function () {
+    const [a, b] = pairs()[0];
+    const state = run(
+      [
+        { type: "click", cell: a, now: 100 },
+        { type: "click", cell: b, now: 110 },
+        // Before the pair clears: deselect a, then pair b with a again
+        { type: "click", cell: a, now: 120 },
+        { type: "click", cell: a, now: 130 },
+        { type: "tick", now: 10_000 },
+      ],
+      start()
+    );
+    expect(state.matches).toBe(1);
+  });
+
+  it("finishes when the board is cleared", function () {
+    let now = 0;
+    const actions: EngineAction[] = [];
+    for (const [a, b] of pairs()) {
+      actions.push({ type: "click", cell: a, now: (now += 100) }, { type: "click", cell: b, now: (now += 100) });
+      now += MATCH_CLEAR_DELAY_MS;
+      actions.push({ type: "tick", now });
+    }
+
+    const state = run(actions, start());
+    expect(state.status).toBe("finished");
+    expect(state.finishedAtMs).toBe(now);
+    expect(getResult(state)).toEqual({
+      matches: 8,
+      mismatches: 0,
+      clicks: 16,
+      accuracy: 1,
+      timeSeconds: Math.floor(now / 1000),
+      difficulty: "easy",
+      mode: "memory",
+      seed: SEED,
+      penaltySeconds: 0,
+      moves: state.moves,
+    });
+  });
+
+  it("excludes paused time from game time", function () {
+    let state = run(
+      [
+        { type: "pause", now: 1000 },
+        { type: "click", cell: 0, now: 2000 },
+      ],
+      start()
+    );
+    expect(state.status).toBe("paused");
+    expect(state.moves).toHaveLength(0);
+    expect(gameTime(state, 5000)).toBe(1000);
+
+    state = run(
+      [
+        { type: "resume", now: 5000 },
+        { type: "click", cell: 0, now: 5500 },
+      ],
+      state
+    );
+    expect(state.status).toBe("playing");
+    expect(state.moves).toEqual([{ cell: 0, atMs: 1500 }]);
+  });
+
+  it("keeps the matches made so far when ended early", function () {
+    const [a, b] = pairs()[0];
+    const state = run(
+      [
+        { type: "click", cell: a, now: 100 },
+        { type: "click", cell: b, now: 200 },
+        { type: "tick", now: 600 },
+        { type: "end", now: 2500 },
+      ],
+      start()
+    );
+    expect(state.status).toBe("finished");
+    expect(getResult(state).matches).toBe(1);
+    expect(getResult(state).timeSeconds).toBe(2);
+
+    expect(gameReducer(state, { type: "reset" }).status).toBe("waiting");
+  });
+
+  it("only clears linkable pairs in link mode", function () {
+    // Seeded easy board:
+    //   7 4 1 8
+    //   3 1 2 8
+    //   6 7 3 2
+    //   5 6 4 5
+    const grid = generateGrid("easy", SEED);
+    expect(grid.map((c) => c.value)).toEqual([7, 4, 1, 8, 3, 1, 2, 8, 6, 7, 3, 2, 5, 6, 4, 5]);
+
+    // The enclosed 1 at (1,1) cannot reach the 1 at (0,2)
+    let state = run(
+      [
+        { type: "click", cell: 5, now: 100 },
+        { type: "click", cell: 2, now: 200 },
+      ],
+      start(0, "link")
+    );
+    expect(state.pending[0].matched).toBe(false);
+    expect(activeLinkPath(state)).toBeUndefined();
+
+    // The 5s in the bottom corners link below the board with two turns
+    state = run(
+      [
+        { type: "tick", now: 1000 },
+        { type: "click", cell: 12, now: 1100 },
+        { type: "click", cell: 15, now: 1200 },
+      ],
+      state
+    );
+    expect(activeLinkPath(state)).toEqual([
+      { row: 3, col: 0 },
+      { row: 4, col: 0 },
+      { row: 4, col: 3 },
+      { row: 3, col: 3 },
+    ]);
+
+    state = gameReducer(state, { type: "tick", now: 1200 + MATCH_CLEAR_DELAY_MS });
+    expect(state.matches).toBe(1);
+    expect(activeLinkPath(state)).toBeUndefined();
+
+    // The unlinkable attempt counts against accuracy
+    expect(state.mismatches).toBe(1);
+    expect(accuracy(state)).toBe(0.5);
+  });
+
+  it("hints a clearable pair and reshuffles the remaining tiles with penalties", function () {
+    const [a, b] = pairs()[0];
+    let state = run(
+      [
+        { type: "click", cell: a, now: 100 },
+        { type: "click", cell: b, now: 200 },
+        // Power-ups wait for the pending attempt
+        { type: "hint", now: 300 },
+      ],
+      start()
+    );
+    expect(state.hint).toBeNull();
+
+    state = gameReducer(state, { type: "hint", now: 1000 });
+    const [x, y] = state.hint!;
+    expect(state.grid[x].value).toBe(state.grid[y].value);
+    expect(state.grid[x].value).not.toBe(0);
+
+    const before = state.grid.map((c) => c.value);
+    state = gameReducer(state, { type: "shuffle", now: 2000 });
+    const after = state.grid.map((c) => c.value);
+    expect(state.hint).toBeNull();
+    expect(after).not.toEqual(before);
+    expect([...after].sort()).toEqual([...before].sort());
+    expect(after[a]).toBe(0);
+    expect(after[b]).toBe(0);
+
+    expect(state.moves.slice(2)).toEqual([
+      { cell: HINT_MOVE, atMs: 1000 },
+      { cell: SHUFFLE_MOVE, atMs: 2000 },
+    ]);
+    const penalty = POWER_UP_CONFIG.hint.penaltySeconds + POWER_UP_CONFIG.shuffle.penaltySeconds;
+    expect(getResult(state).penaltySeconds).toBe(penalty);
+
+    // The reshuffle is reproduced when the log is replayed
+    const [c, d] = state.grid.filter((cell) => cell.value === state.grid.find((e) => e.value !== 0)!.value);
+    state = run(
+      [
+        { type: "click", cell: c.id, now: 2100 },
+        { type: "click", cell: d.id, now: 2200 },
+        { type: "tick", now: 2200 + MATCH_CLEAR_DELAY_MS },
+      ],
+      state
+    );
+    expect(state.matches).toBe(2);
+    expect(verifyReplay({ seed: SEED }, "easy", state.moves)).toMatchObject({ matches: 2, penaltySeconds: penalty });
+  });
+
+  it("reshuffles a deadlocked board for free", function () {
+    // After the 3s are cleared, no two equal tiles can be linked
+    const grid = [
+      [1, 2, 0, 0],
+      [2, 1, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 3, 3],
+    ].flatMap((values, row) => values.map((value, col) => ({ id: row * 4 + col, value, row, col })));
+
+    const state = run(
+      [
+        { type: "click", cell: 14, now: 100 },
+        { type: "click", cell: 15, now: 200 },
+        { type: "tick", now: 200 + MATCH_CLEAR_DELAY_MS },
+      ],
+      { ...start(0, "link"), grid }
+    );
+    expect(state.status).toBe("playing");
+    expect(state.autoShuffles).toBe(1);
+    expect(state.shuffles).toBe(0);
+    expect(getResult(state).penaltySeconds).toBe(0);
+    expect(findValidPair(state.grid, 4, 4, "link")).not.toBeNull();
+    expect(state.grid.map((c) => c.value).filter((v) => v !== 0).sort()).toEqual([1, 1, 2, 2]);
+  });
+
+  it("replays a move log to the same result", function () {
+    let now = 5000;
+    const actions: EngineAction[] = [];
+    for (const [a, b] of pairs().slice(0, 3)) {
+      actions.push({ type: "click", cell: a, now: (now += 150) }, { type: "click", cell: b, now: (now += 150) });
+      now += MATCH_CLEAR_DELAY_MS;
+    }
+    const state = run(actions, start(5000));
+
+    expect(verifyReplay({ seed: SEED }, "easy", state.moves)).toEqual({
+      matches: 3,
+      mismatches: 0,
+      durationSeconds: Math.floor(state.moves[state.moves.length - 1].atMs / 1000),
+      completed: false,
+      penaltySeconds: 0,
+    });
+    expect(() => verifyReplay({ seed: SEED }, "easy", [{ cell: 16, atMs: 0 }])).toThrow("outside the board");
+  });
+
+  it("does not report a replay stuck on a deadlock as completed", function () {
+    // Seed 18 puts 3 1 / 1 3 in the corner block and the 2s at the bottom: once the 2s are
+    // cleared, no two equal tiles can be linked
+    const board = { seed: 18, layout: { name: "Corner", mask: ["##..", "##..", "....", "..##"] } };
+    // Accept that board as generated, and reject every rearrangement of the deadlock
+    vi.mocked(isSolvable).mockClear().mockReturnValueOnce(true).mockReturnValue(false);
+    try {
+      let state = run([{ type: "start", difficulty: "easy", mode: "link", ...board, now: 0 }]);
+      let now = 0;
+      for (let pair = findValidPair(state.grid, 4, 4, "link"); pair; pair = findValidPair(state.grid, 4, 4, "link")) {
+        const [a, b] = pair;
+        state = run(
+          [
+            { type: "click", cell: a, now: (now += 1000) },
+            { type: "click", cell: b, now: (now += 1000) },
+            { type: "tick", now: (now += MATCH_CLEAR_DELAY_MS) },
+          ],
+          state
+        );
+      }
+      expect(state.status).toBe("finished");
+      expect(state.matches).toBe(1);
+      expect(state.grid.filter((c) => c.value !== 0)).toHaveLength(4);
+
+      vi.mocked(isSolvable).mockReturnValueOnce(true);
+      expect(verifyReplay(board, "easy", state.moves, "link")).toEqual({
+        matches: 1,
+        mismatches: 0,
+        durationSeconds: 2,
+        completed: false,
+        penaltySeconds: 0,
+      });
+    } finally {
+      vi.mocked(isSolvable).mockReset();
+    }
+  });
+
+  it("logs whole milliseconds from a fractional clock", function () {
+    let now = 1000.25;
+    const actions: EngineAction[] = [];
+    for (const [a, b] of pairs()) {
+      actions.push({ type: "click", cell: a, now: (now += 100.333) }, { type: "click", cell: b, now: (now += 99.9) });
+      now += MATCH_CLEAR_DELAY_MS + 0.7;
+      actions.push({ type: "tick", now });
+    }
+    const state = run(actions, start(1000.25));
+
+    expect(state.status).toBe("finished");
+    expect(state.moves.every((m) => Number.isInteger(m.atMs))).toBe(true);
+    expect(Number.isInteger(state.finishedAtMs)).toBe(true);
+    expect(() => hashMoveLog(state.moves)).not.toThrow();
+    expect(verifyReplay({ seed: SEED }, "easy", state.moves)).toMatchObject({ matches: 8, completed: true });
+  });
+});
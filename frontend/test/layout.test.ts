@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+
+import { DIFFICULTY_CONFIG, Difficulty, generateGrid, layoutDifficulty } from "../game/board";
+import { LAYOUT_SHAPES, LayoutShape, layoutCells, parseLayout, shapeLayout, validateLayout } from "../game/layout";
+import { verifyReplay } from "../game/replay";
+import { isSolvable } from "../game/solver";
+
+const DIFFICULTIES = Object.keys(DIFFICULTY_CONFIG) as Difficulty[];
+
+describe("layout", function () {
+  it("builds valid named shapes for every grid size", function () {
+    for (const difficulty of DIFFICULTIES) {
+      const { rows, cols } = DIFFICULTY_CONFIG[difficulty];
+      for (const shape of Object.keys(LAYOUT_SHAPES) as LayoutShape[]) {
+        const layout = shapeLayout(shape, rows, cols);
+        expect(validateLayout(layout, rows, cols)).toEqual([]);
+        expect(layoutDifficulty(layout)).toBe(difficulty);
+      }
+    }
+    expect(shapeLayout("ring", 4, 4).mask).toEqual(["####", "#..#", "#..#", "####"]);
+    expect(shapeLayout("pyramid", 4, 4).mask).toEqual([".##.", "####", "####", "####"]);
+  });
+
+  it("rejects layouts that cannot be paired up", function () {
+    expect(validateLayout({ name: "Odd", mask: ["###.", "....", "....", "...."] }, 4, 4)).toEqual([
+      "The layout has 3 tiles; every tile needs a partner, so the count must be even",
+    ]);
+    expect(validateLayout({ name: "", mask: ["##", "##"] }, 4, 4)).toEqual([
+      "The layout needs a name",
+      "The layout must have 4 rows of 4 cells",
+    ]);
+    expect(validateLayout({ name: "Bad", mask: ["#x..", "....", "....", "...."] }, 4, 4)).toContain(
+      'Cells must be "#" (tile) or "." (hole)'
+    );
+    expect(() => generateGrid("easy", 1, { name: "Odd", mask: ["###.", "....", "....", "...."] })).toThrow(
+      'Invalid layout "Odd"'
+    );
+  });
+
+  it("fills only the active cells with a solvable board", function () {
+    const { rows, cols } = DIFFICULTY_CONFIG.hard;
+    const layout = shapeLayout("cross", rows, cols);
+    const grid = generateGrid("hard", 7, layout);
+
+    const active = layoutCells(layout);
+    expect(grid.every((c) => (c.value !== 0) === active[c.id])).toBe(true);
+    expect(isSolvable(grid, rows, cols, "link")).toBe(true);
+    expect(generateGrid("hard", 7, layout)).toEqual(grid);
+
+    // A replay rebuilds the same shaped board
+    expect(verifyReplay({ seed: 7, layout }, "hard", []).matches).toBe(0);
+  });
+
+  it("reads layouts saved as JSON", function () {
+    const layout = shapeLayout("cross", 6, 6);
+    expect(parseLayout(JSON.stringify(layout))).toEqual(layout);
+    expect(() => parseLayout('{"name": "Nope"}')).toThrow("Not a layout file");
+    expect(() => parseLayout("null")).toThrow("Not a layout file");
+  });
+});
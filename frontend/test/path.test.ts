@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import { Cell } from "../game/board";
+import { findLinkPath } from "../game/path";
+
+// Build a grid from rows of pattern values (0: empty)
+const toGrid = (rows: number[][]): Cell[] =>
+  rows.flatMap((values, row) => values.map((value, col) => ({ id: row * values.length + col, value, row, col })));
+
+describe("link path", function () {
+  it("links adjacent tiles with a single segment", function () {
+    const grid = toGrid([
+      [1, 1, 2],
+      [2, 3, 3],
+      [4, 4, 5],
+    ]);
+    expect(findLinkPath(grid, 3, 3, 0, 1)).toEqual([
+      { row: 0, col: 0 },
+      { row: 0, col: 1 },
+    ]);
+  });
+
+  it("links through empty cells with one turn", function () {
+    const grid = toGrid([
+      [1, 0, 2],
+      [2, 0, 3],
+      [4, 1, 5],
+    ]);
+    expect(findLinkPath(grid, 3, 3, 0, 7)).toEqual([
+      { row: 0, col: 0 },
+      { row: 0, col: 1 },
+      { row: 2, col: 1 },
+    ]);
+  });
+
+  it("links along the outer border with two turns", function () {
+    const grid = toGrid([
+      [1, 2, 1],
+      [3, 4, 5],
+      [6, 7, 8],
+    ]);
+    expect(findLinkPath(grid, 3, 3, 0, 2)).toEqual([
+      { row: 0, col: 0 },
+      { row: -1, col: 0 },
+      { row: -1, col: 2 },
+      { row: 0, col: 2 },
+    ]);
+  });
+
+  it("rejects paths that need three turns", function () {
+    // Every route from (1,0) to (2,2), e.g. around the left and bottom border, needs three turns
+    const grid = toGrid([
+      [2, 0, 3],
+      [1, 0, 4],
+      [5, 6, 1],
+    ]);
+    expect(findLinkPath(grid, 3, 3, 3, 8)).toBeNull();
+  });
+
+  it("rejects tiles enclosed by other tiles", function () {
+    const grid = toGrid([
+      [2, 3, 4],
+      [5, 1, 6],
+      [7, 8, 1],
+    ]);
+    expect(findLinkPath(grid, 3, 3, 4, 8)).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+
+import type { Difficulty } from "../game/board";
+import {
+  MAX_GAME_SECONDS,
+  MAX_MATCHES,
+  MAX_MISMATCHES,
+  MIN_GAME_SECONDS,
+  MISMATCH_PENALTY_SECONDS,
+  SCORE_SCALE,
+  computeScore,
+} from "../game/scoring";
+
+const CONTRACT = readFileSync(join(__dirname, "../../backend/contracts/LinkMatch.sol"), "utf8");
+
+// Value of a uint32 constant of the contract, with Solidity time units applied
+const contractConstant = (name: string): number => {
+  const match = CONTRACT.match(new RegExp(`uint32 (?:public |private )?constant ${name} = (\\d+)( hours)?;`));
+  if (!match) {
+    throw new Error(`LinkMatch.sol has no constant ${name}`);
+  }
+  return Number(match[1]) * (match[2] ? 60 * 60 : 1);
+};
+
+// Body of a contract function
+const contractFunction = (name: string): string => {
+  const start = CONTRACT.indexOf(`function ${name}(`);
+  expect(start).not.toBe(-1);
+  return CONTRACT.slice(start, CONTRACT.indexOf("\n    }\n", start));
+};
+
+// Difficulties in on-chain index order
+const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+
+describe("scoring", function () {
+  it("mirrors the constants of LinkMatch.sol", function () {
+    expect(SCORE_SCALE).toBe(contractConstant("SCORE_SCALE"));
+    expect(MISMATCH_PENALTY_SECONDS).toBe(contractConstant("MISMATCH_PENALTY_SECONDS"));
+    expect(MAX_GAME_SECONDS).toBe(contractConstant("MAX_GAME_SECONDS"));
+    expect(MAX_MISMATCHES).toBe(contractConstant("MAX_MISMATCHES"));
+
+    // _maxMatches() returns one count per difficulty, the last one as the fallback
+    const pairCounts = [...contractFunction("_maxMatches").matchAll(/return (\d+);/g)].map((m) => Number(m[1]));
+    expect(DIFFICULTIES.map((d) => MAX_MATCHES[d])).toEqual(pairCounts);
+
+    const divisor = contractFunction("minGameDuration").match(/return _maxMatches\(difficulty\) \/ (\d+);/);
+    expect(divisor).not.toBeNull();
+    expect(DIFFICULTIES.map((d) => MIN_GAME_SECONDS[d])).toEqual(
+      pairCounts.map((count) => Math.floor(count / Number(divisor![1])))
+    );
+  });
+
+  it("scores runs like the contract", function () {
+    expect(computeScore(6, 4, "medium")).toBe(1.5);
+    expect(computeScore(4, 10, "hard")).toBe(0.4);
+    // Raised to the minimum duration, and matches capped at the pair count
+    expect(computeScore(8, 1, "easy")).toBe(4);
+    expect(computeScore(99, 16, "easy")).toBe(0.5);
+    // 6s of play, 10s of power-up penalty and 2 mismatches
+    expect(computeScore(18, 6, "medium", 10, 2)).toBe(1);
+  });
+});
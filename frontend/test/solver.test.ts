@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+
+import { Cell, DIFFICULTY_CONFIG, Difficulty, generateGrid } from "../game/board";
+import { findValidPair, solveBoard } from "../game/solver";
+
+// Build a grid from rows of pattern values (0: empty)
+const toGrid = (rows: number[][]): Cell[] =>
+  rows.flatMap((values, row) => values.map((value, col) => ({ id: row * values.length + col, value, row, col })));
+
+describe("solver", function () {
+  it("clears a board pair by pair", function () {
+    const grid = toGrid([
+      [1, 2, 2],
+      [3, 1, 3],
+    ]);
+    // The 1s only link once the 2s above the right one are cleared
+    expect(findValidPair(grid, 2, 3, "link")).toEqual([1, 2]);
+    expect(solveBoard(grid, 2, 3, "link")).toEqual([
+      [1, 2],
+      [0, 4],
+      [3, 5],
+    ]);
+  });
+
+  it("detects a board without legal moves", function () {
+    // Both pairs sit on opposite corners of a 2x2 block: every path needs three turns
+    const grid = toGrid([
+      [1, 2, 0],
+      [2, 1, 0],
+    ]);
+    expect(findValidPair(grid, 2, 3, "link")).toBeNull();
+    expect(solveBoard(grid, 2, 3, "link")).toBeNull();
+    // Without the link rule any equal tiles match
+    expect(findValidPair(grid, 2, 3, "memory")).toEqual([0, 4]);
+  });
+
+  it("only generates boards that can be cleared under the link rule", function () {
+    for (const difficulty of ["easy", "medium", "hard"] as Difficulty[]) {
+      const { rows, cols } = DIFFICULTY_CONFIG[difficulty];
+      for (let seed = 0; seed < 5; seed++) {
+        const solution = solveBoard(generateGrid(difficulty, seed), rows, cols, "link");
+        expect(solution).toHaveLength((rows * cols) / 2);
+      }
+    }
+  });
+});
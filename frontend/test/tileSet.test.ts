@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import { DIFFICULTY_CONFIG, generateGrid } from "../game/board";
+import { MIN_TILE_COUNT, TILE_SETS, parseTileSet, tileFor, tileLabel, validateTileSet } from "../game/tileSet";
+
+describe("tileSet", function () {
+  it("ships built-in sets with a distinct tile for every pattern", function () {
+    expect(MIN_TILE_COUNT).toBe(32);
+    for (const set of TILE_SETS) {
+      expect(validateTileSet(set)).toEqual([]);
+    }
+    expect(new Set(TILE_SETS.map((set) => set.id)).size).toBe(TILE_SETS.length);
+
+    const { rows, cols } = DIFFICULTY_CONFIG.hard;
+    const grid = generateGrid("hard", 11);
+    expect(grid.length).toBe(rows * cols);
+    for (const set of TILE_SETS) {
+      expect(grid.every((c) => tileFor(set, c.value) !== undefined)).toBe(true);
+    }
+  });
+
+  it("rejects sets with look-alike or missing tiles", function () {
+    const numbers = TILE_SETS.find((set) => set.id === "numbers")!;
+    const duplicated = { ...numbers, tiles: [...numbers.tiles.slice(0, 31), { kind: "text" as const, text: "7" }] };
+    expect(validateTileSet(duplicated)).toEqual(["Tiles 7 and 32 look the same"]);
+
+    const shapes = TILE_SETS.find((set) => set.id === "icons")!;
+    const recolored = {
+      ...shapes,
+      tiles: [...shapes.tiles, { ...shapes.tiles[0], color: (shapes.tiles[0] as { color: string }).color.toLowerCase() }],
+    };
+    expect(validateTileSet(recolored)).toEqual([`Tiles 1 and ${shapes.tiles.length + 1} look the same`]);
+
+    expect(validateTileSet({ id: "custom", name: " ", tiles: [] })).toEqual([
+      "The tile set needs a name",
+      `The tile set has 0 tiles; at least ${MIN_TILE_COUNT} are needed`,
+    ]);
+  });
+
+  it("describes tiles for screen readers", function () {
+    expect(tileLabel({ kind: "text", text: "Q" })).toBe("Q");
+    expect(tileLabel({ kind: "shape", shape: "star", style: "solid", color: "#DC2626" })).toBe("red star");
+    expect(tileLabel({ kind: "shape", shape: "hexagon", style: "dotted", color: "#000000" })).toBe(
+      "black dotted hexagon"
+    );
+    expect(tileLabel({ kind: "shape", shape: "circle", style: "solid", color: "#123456" })).toBe("color #123456 circle");
+  });
+
+  it("reads tile sets saved as JSON", function () {
+    const set = parseTileSet(JSON.stringify({ name: "Mixed", tiles: ["A", { shape: "star", color: "#123456" }] }));
+    expect(set.tiles).toEqual([
+      { kind: "text", text: "A" },
+      { kind: "shape", shape: "star", style: "solid", color: "#123456" },
+    ]);
+    expect(() => parseTileSet('{"name": "Nope"}')).toThrow("Not a tile set file");
+    expect(() => parseTileSet('{"name": "Bad", "tiles": [{"shape": "blob"}]}')).toThrow("Tile 1");
+  });
+});